@@ -1,23 +1,28 @@
 import { SupportedWallet, WalletId, WalletManager, WalletProvider } from '@txnlab/use-wallet-react'
 import { SnackbarProvider } from 'notistack'
+import { useMemo } from 'react'
 import Home from './Home'
-import { getAlgodConfigFromViteEnvironment, getKmdConfigFromViteEnvironment } from './utils/network/getAlgoClientConfigs'
+import { ActivityProvider } from './contexts/ActivityContext'
+import { AddressBookProvider } from './contexts/AddressBookContext'
+import { NetworkProvider, useAppNetwork } from './contexts/NetworkContext'
+import { RouterProvider } from './contexts/RouterContext'
+import { NetworkPreset } from './interfaces/network'
 
-let supportedWallets: SupportedWallet[]
-if (import.meta.env.VITE_ALGOD_NETWORK === 'localnet') {
-  const kmdConfig = getKmdConfigFromViteEnvironment()
-  supportedWallets = [
-    {
-      id: WalletId.KMD,
-      options: {
-        baseServer: kmdConfig.server,
-        token: String(kmdConfig.token),
-        port: String(kmdConfig.port),
+function getSupportedWallets(network: NetworkPreset): SupportedWallet[] {
+  if (network.kmd) {
+    return [
+      {
+        id: WalletId.KMD,
+        options: {
+          baseServer: network.kmd.server,
+          token: String(network.kmd.token),
+          port: String(network.kmd.port),
+        },
       },
-    },
-  ]
-} else {
-  supportedWallets = [
+    ]
+  }
+
+  return [
     { id: WalletId.DEFLY },
     { id: WalletId.PERA },
     { id: WalletId.EXODUS },
@@ -26,31 +31,51 @@ if (import.meta.env.VITE_ALGOD_NETWORK === 'localnet') {
   ]
 }
 
-export default function App() {
-  const algodConfig = getAlgodConfigFromViteEnvironment()
+const NetworkWalletProvider = () => {
+  const { network } = useAppNetwork()
 
-  const walletManager = new WalletManager({
-    wallets: supportedWallets,
-    defaultNetwork: algodConfig.network,
-    networks: {
-      [algodConfig.network]: {
-        algod: {
-          baseServer: algodConfig.server,
-          port: algodConfig.port,
-          token: String(algodConfig.token),
+  // The wallet list differs between LocalNet (KMD) and public networks, so a fresh
+  // manager is built per network and the provider is re-keyed to resume its sessions.
+  const walletManager = useMemo(
+    () =>
+      new WalletManager({
+        wallets: getSupportedWallets(network),
+        defaultNetwork: network.id,
+        networks: {
+          [network.id]: {
+            algod: {
+              baseServer: network.algod.server,
+              port: network.algod.port,
+              token: String(network.algod.token),
+            },
+          },
         },
-      },
-    },
-    options: {
-      resetNetwork: true,
-    },
-  })
+        options: {
+          resetNetwork: true,
+        },
+      }),
+    [network],
+  )
 
   return (
-    <SnackbarProvider maxSnack={3}>
-      <WalletProvider manager={walletManager}>
+    <WalletProvider key={network.id} manager={walletManager}>
+      <ActivityProvider>
         <Home />
-      </WalletProvider>
+      </ActivityProvider>
+    </WalletProvider>
+  )
+}
+
+export default function App() {
+  return (
+    <SnackbarProvider maxSnack={3}>
+      <RouterProvider>
+        <NetworkProvider>
+          <AddressBookProvider>
+            <NetworkWalletProvider />
+          </AddressBookProvider>
+        </NetworkProvider>
+      </RouterProvider>
     </SnackbarProvider>
   )
 }
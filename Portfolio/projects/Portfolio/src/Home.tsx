@@ -1,63 +1,91 @@
-  // src/Home.tsx
-  import { useWallet } from '@txnlab/use-wallet-react'
+// src/Home.tsx
+import { useWallet } from '@txnlab/use-wallet-react'
 import React, { useState } from 'react'
+import AssetPage from './components/AssetPage'
 import ConnectWallet from './components/ConnectWallet'
 import CreateTokenModal from './components/CreateTokenModal'
+import NetworkSelector from './components/NetworkSelector'
 import PortfolioDashboard from './components/PortfolioDashboard'
 import Transact from './components/Transact'
+import TransactionLookup from './components/TransactionLookup'
+import { useRouter } from './contexts/RouterContext'
 
-  interface HomeProps {}
-
-  const Home: React.FC<HomeProps> = () => {
-    const [openWalletModal, setOpenWalletModal] = useState<boolean>(false)
-    const [openDemoModal, setOpenDemoModal] = useState<boolean>(false)
-    const [openCreateTokenModal, setOpenCreateTokenModal] = useState<boolean>(false)
-    const { activeAddress } = useWallet()
-
-    const toggleWalletModal = () => {
-      setOpenWalletModal(!openWalletModal)
-    }
-
-    const toggleDemoModal = () => {
-      setOpenDemoModal(!openDemoModal)
-    }
-
-    return (
-      <div className="hero min-h-screen bg-teal-400">
-        <div className="hero-content text-center rounded-lg p-6 max-w-3xl bg-white mx-auto flex flex-col items-stretch">
-          <div className="max-w-xl mx-auto">
-            <h1 className="text-4xl">
-              Multi-Token <span className="font-bold">Portfolio Dashboard</span>
-            </h1>
-            <p className="py-6">
-              Connect your Algorand wallet, view your ALGO & ASA balances, explore recent transactions, and manage your tokens.
-            </p>
-
-            <div className="grid">
-              <button data-test-id="connect-wallet" className="btn m-2" onClick={toggleWalletModal}>
-                {activeAddress ? 'Wallet Connected' : 'Connect Wallet'}
-              </button>
+interface HomeProps {}
+
+const Home: React.FC<HomeProps> = () => {
+  const [openWalletModal, setOpenWalletModal] = useState<boolean>(false)
+  const [portfolioKey, setPortfolioKey] = useState(0)
+  const { activeAddress } = useWallet()
+  const { route, page, navigate, back } = useRouter()
+
+  const toggleWalletModal = () => {
+    setOpenWalletModal(!openWalletModal)
+  }
 
-              {activeAddress && (
-                <button data-test-id="transactions-demo" className="btn m-2" onClick={toggleDemoModal}>
-                  Send 1 ALGO (Demo)
-                </button>
-              )}
-            </div>
+  // Send and create flows are routes, so a link can open them pre-filled
+  const setPayModal = (open: boolean) => (open ? navigate({ name: 'pay', prefill: {} }) : back())
+  const onDashboard = page.name === 'dashboard' || page.name === 'account'
+
+  return (
+    <div className="hero min-h-screen bg-teal-400">
+      <div className="hero-content text-center rounded-lg p-6 max-w-3xl bg-white mx-auto flex flex-col items-stretch">
+        <div className="max-w-xl mx-auto">
+          <h1 className="text-4xl">
+            Multi-Token <span className="font-bold">Portfolio Dashboard</span>
+          </h1>
+          <p className="py-6">
+            Connect your Algorand wallet, view your ALGO & ASA balances, explore recent transactions, and manage your tokens.
+          </p>
+
+          {/* Available before connecting, so the wallet session starts on the right network */}
+          <div className="flex items-center justify-center gap-1 text-sm text-gray-500 mb-2">
+            <span>Network:</span>
+            <NetworkSelector />
           </div>
 
-          {/* Portfolio dashboard */}
-          {activeAddress && (
-            <PortfolioDashboard onOpenCreateModal={() => setOpenCreateTokenModal(true)} />
-          )}
+          <div className="grid">
+            <button data-test-id="connect-wallet" className="btn m-2" onClick={toggleWalletModal}>
+              {activeAddress ? 'Wallet Connected' : 'Connect Wallet'}
+            </button>
 
-          {/* Modals */}
-          <ConnectWallet openModal={openWalletModal} closeModal={toggleWalletModal} />
-          <Transact openModal={openDemoModal} setModalState={setOpenDemoModal} />
-          <CreateTokenModal open={openCreateTokenModal} onClose={() => setOpenCreateTokenModal(false)} />
+            {activeAddress && (
+              <button data-test-id="transactions-demo" className="btn m-2" onClick={() => setPayModal(true)}>
+                Send ALGO
+              </button>
+            )}
+          </div>
         </div>
+
+        {page.name === 'asset' && <AssetPage assetId={page.assetId} onBack={back} />}
+
+        {page.name === 'not-found' && (
+          <div className="mt-8 py-6">
+            <p className="text-gray-500 mb-2">Nothing lives at {page.path}.</p>
+            <button className="btn btn-sm" onClick={() => navigate({ name: 'dashboard' })}>
+              Go to the dashboard
+            </button>
+          </div>
+        )}
+
+        {/* Portfolio dashboard; without a wallet it still shows watched accounts. It stays mounted behind
+            other pages so going back does not reload it. */}
+        <div className={onDashboard ? '' : 'hidden'}>
+          <PortfolioDashboard reloadKey={portfolioKey} />
+        </div>
+
+        {/* Modals */}
+        <ConnectWallet openModal={openWalletModal} closeModal={toggleWalletModal} />
+        <Transact
+          openModal={route.name === 'pay'}
+          setModalState={setPayModal}
+          onSent={() => setPortfolioKey((k) => k + 1)}
+          prefill={route.name === 'pay' ? route.prefill : undefined}
+        />
+        <CreateTokenModal open={route.name === 'create'} onClose={back} prefill={route.name === 'create' ? route.prefill : undefined} />
+        <TransactionLookup txId={route.name === 'transaction' ? route.txId : null} onClose={back} />
       </div>
-    )
-  }
+    </div>
+  )
+}
 
-  export default Home
+export default Home
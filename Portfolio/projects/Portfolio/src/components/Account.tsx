@@ -1,15 +1,30 @@
 import { useWallet } from '@txnlab/use-wallet-react'
-import { useMemo } from 'react'
+import { useEffect, useState } from 'react'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { getAccountSummary } from '../services/algorandData'
+import { formatBaseUnits } from '../utils/amounts'
 import { ellipseAddress } from '../utils/ellipseAddress'
-import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
 
 const Account = () => {
   const { activeAddress } = useWallet()
-  const algoConfig = getAlgodConfigFromViteEnvironment()
+  const { algorand, networkName } = useAppNetwork()
+  const [balance, setBalance] = useState<bigint | null>(null)
 
-  const networkName = useMemo(() => {
-    return algoConfig.network === '' ? 'localnet' : algoConfig.network.toLocaleLowerCase()
-  }, [algoConfig.network])
+  useEffect(() => {
+    setBalance(null)
+    if (!activeAddress) return
+    let cancelled = false
+    getAccountSummary(algorand.client.algod, activeAddress)
+      .then((account) => {
+        if (!cancelled) setBalance(account.amount)
+      })
+      .catch(() => {
+        if (!cancelled) setBalance(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [activeAddress, algorand])
 
   return (
     <div>
@@ -17,6 +32,7 @@ const Account = () => {
         Address: {ellipseAddress(activeAddress)}
       </a>
       <div className="text-xl">Network: {networkName}</div>
+      {balance != null && <div className="text-xl">Balance: {formatBaseUnits(balance, 6)} ALGO</div>}
     </div>
   )
 }
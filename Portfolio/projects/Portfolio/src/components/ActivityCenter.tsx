@@ -0,0 +1,131 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import React, { useState } from 'react'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { ActivityEntry, ActivityStatus, Txn } from '../interfaces/portfolio'
+import { lookupTransaction } from '../services/algorandData'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { toTxn } from '../utils/transactions'
+import TransactionDetailDrawer from './TransactionDetailDrawer'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+}
+
+const STATUS_BADGES: Record<ActivityStatus, string> = {
+  pending: 'badge-warning',
+  confirmed: 'badge-success',
+  failed: 'badge-error',
+}
+
+/** Transactions submitted from this browser by the active account, with their confirmation status. */
+const ActivityCenter: React.FC<Props> = ({ open, onClose }) => {
+  const { entries, clearFinished } = useActivity()
+  const { activeAddress } = useWallet()
+  const { algorand, assetCache } = useAppNetwork()
+  const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const [selected, setSelected] = useState<Txn | null>(null)
+  const [opening, setOpening] = useState<string | null>(null)
+
+  const showDetail = async (entry: ActivityEntry) => {
+    if (!activeAddress) return
+    setOpening(entry.txId)
+    try {
+      const t = await lookupTransaction(algorand.client.indexer, entry.txId)
+      if (!t) {
+        enqueueSnackbar('The indexer has not picked this transaction up yet', { variant: 'info' })
+        return
+      }
+      const assetId = t.assetTransferTransaction ? Number(t.assetTransferTransaction.assetId) : undefined
+      const asset = assetId != null ? await assetCache.get(assetId) : null
+      setSelected(toTxn(t, 0, activeAddress, () => asset?.decimals))
+    } catch (e) {
+      reportError('Could not load the transaction', e)
+    } finally {
+      setOpening(null)
+    }
+  }
+
+  return (
+    <>
+      {/* The drawer sits below modals, so the list steps aside while a transaction is shown */}
+      <dialog className={`modal ${open && !selected ? 'modal-open' : ''}`}>
+        <div className="modal-box max-w-2xl">
+          <h3 className="font-bold text-lg mb-2">Activity</h3>
+          <p className="text-sm text-gray-500 mb-2">
+            Transactions sent from this browser on the selected network. Pending ones keep being checked, also after a reload.
+          </p>
+
+          {entries.length === 0 ? (
+            <div className="text-sm text-gray-500 py-4">Nothing sent yet.</div>
+          ) : (
+            <div className="overflow-x-auto max-h-96">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>When</th>
+                    <th>What</th>
+                    <th>Status</th>
+                    <th>Tx</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.txId}>
+                      <td className="text-xs whitespace-nowrap">{new Date(entry.submittedAt).toLocaleString()}</td>
+                      <td>
+                        <div className="font-semibold text-sm">{entry.kind}</div>
+                        <div className="text-xs text-gray-500">{entry.summary}</div>
+                        {entry.txIds.length > 1 && <div className="text-xs text-gray-400">{entry.txIds.length} transactions in group</div>}
+                      </td>
+                      <td>
+                        <span className={`badge badge-sm ${STATUS_BADGES[entry.status]}`}>
+                          {entry.status === 'pending' && <span className="loading loading-spinner loading-xs mr-1" />}
+                          {entry.status}
+                        </span>
+                        {entry.confirmedRound != null && entry.status === 'confirmed' && (
+                          <div className="text-xs text-gray-500">Round {entry.confirmedRound}</div>
+                        )}
+                        {entry.error && <div className="text-xs text-error max-w-xs">{entry.error}</div>}
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className={`link font-mono text-xs ${entry.status !== 'confirmed' || opening ? 'link-neutral pointer-events-none' : ''}`}
+                          onClick={() => void showDetail(entry)}
+                          title={entry.txId}
+                        >
+                          {opening === entry.txId ? <span className="loading loading-spinner loading-xs" /> : ellipseAddress(entry.txId)}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="modal-action">
+            <button
+              type="button"
+              className={`btn btn-ghost ${entries.some((e) => e.status !== 'pending') ? '' : 'btn-disabled'}`}
+              onClick={clearFinished}
+            >
+              Clear finished
+            </button>
+            <button type="button" className="btn" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </dialog>
+      <TransactionDetailDrawer txn={selected} onClose={() => setSelected(null)} />
+    </>
+  )
+}
+
+export default ActivityCenter
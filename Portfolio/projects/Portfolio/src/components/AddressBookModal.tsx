@@ -0,0 +1,193 @@
+import { useSnackbar } from 'notistack'
+import React, { useState } from 'react'
+import { useAddressBook } from '../contexts/AddressBookContext'
+import { AddressBookEntry } from '../interfaces/portfolio'
+import { parseAddressBook, parseTags, searchAddressBook, serializeAddressBook, validateAddressBookEntry } from '../utils/addressBook'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { downloadFile } from '../utils/exportData'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+}
+
+interface EntryForm {
+  address: string
+  label: string
+  notes: string
+  tags: string
+}
+
+const EMPTY_FORM: EntryForm = { address: '', label: '', notes: '', tags: '' }
+
+const toEntry = (form: EntryForm): AddressBookEntry => ({
+  address: form.address.trim(),
+  label: form.label,
+  notes: form.notes,
+  tags: parseTags(form.tags),
+})
+
+const AddressBookModal: React.FC<Props> = ({ open, onClose }) => {
+  const { enqueueSnackbar } = useSnackbar()
+  const { entries, saveEntry, removeEntry, importEntries } = useAddressBook()
+
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM)
+  /** Address of the entry being edited; undefined while adding */
+  const [editing, setEditing] = useState<string>()
+  const [query, setQuery] = useState('')
+
+  const touched = !!(form.address || form.label)
+  const error = touched ? validateAddressBookEntry(toEntry(form), entries, editing) : null
+  const visible = searchAddressBook(entries, query, entries.length)
+
+  const update = <K extends keyof EntryForm>(key: K, value: EntryForm[K]) => setForm((prev) => ({ ...prev, [key]: value }))
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditing(undefined)
+  }
+
+  const handleSave = () => {
+    if (!touched || error) return
+    saveEntry(toEntry(form), editing)
+    resetForm()
+  }
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return
+    const { entries: imported, errors } = parseAddressBook(await file.text())
+    if (imported.length > 0) importEntries(imported)
+    enqueueSnackbar(`Imported ${imported.length} entries${errors.length ? `, skipped ${errors.length}: ${errors[0]}` : ''}`, {
+      variant: errors.length ? 'warning' : 'success',
+    })
+  }
+
+  return (
+    <dialog className={`modal ${open ? 'modal-open' : ''}`}>
+      <form method="dialog" className="modal-box max-w-3xl" onSubmit={(e) => e.preventDefault()}>
+        <h3 className="font-bold text-lg mb-2">Address Book</h3>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-1">
+          <input
+            className="input input-bordered input-sm font-mono text-xs sm:col-span-2"
+            placeholder="Address"
+            value={form.address}
+            onChange={(e) => update('address', e.target.value)}
+          />
+          <input
+            className="input input-bordered input-sm"
+            placeholder="Label"
+            value={form.label}
+            onChange={(e) => update('label', e.target.value)}
+          />
+          <input
+            className="input input-bordered input-sm"
+            placeholder="Tags, comma separated"
+            value={form.tags}
+            onChange={(e) => update('tags', e.target.value)}
+          />
+          <textarea
+            className="textarea textarea-bordered textarea-sm sm:col-span-2"
+            rows={1}
+            placeholder="Notes (optional)"
+            value={form.notes}
+            onChange={(e) => update('notes', e.target.value)}
+          />
+        </div>
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-xs text-error">{error}</span>
+          <span className="flex gap-2">
+            {editing && (
+              <button type="button" className="btn btn-sm btn-ghost" onClick={resetForm}>
+                Cancel
+              </button>
+            )}
+            <button type="button" className={`btn btn-sm btn-primary ${!touched || error ? 'btn-disabled' : ''}`} onClick={handleSave}>
+              {editing ? 'Save changes' : 'Add'}
+            </button>
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <input
+            className="input input-bordered input-sm flex-1"
+            placeholder="Search labels, tags and notes"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <label className="btn btn-sm btn-outline">
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => void handleImport(e.target.files?.[0])}
+            />
+          </label>
+          <button
+            type="button"
+            className={`btn btn-sm btn-outline ${entries.length === 0 ? 'btn-disabled' : ''}`}
+            onClick={() => downloadFile('address-book.json', serializeAddressBook(entries), 'json')}
+          >
+            Export
+          </button>
+        </div>
+
+        <div className="overflow-x-auto max-h-72">
+          <table className="table table-sm">
+            <tbody>
+              {visible.length === 0 && (
+                <tr>
+                  <td className="text-center text-gray-400">{entries.length === 0 ? 'No saved addresses yet.' : 'No matches.'}</td>
+                </tr>
+              )}
+              {visible.map((entry) => (
+                <tr key={entry.address}>
+                  <td>
+                    <div className="font-semibold">{entry.label}</div>
+                    {entry.notes && <div className="text-xs text-gray-400">{entry.notes}</div>}
+                  </td>
+                  <td className="font-mono text-xs" title={entry.address}>
+                    {ellipseAddress(entry.address)}
+                  </td>
+                  <td>
+                    <div className="flex flex-wrap gap-1">
+                      {entry.tags.map((tag) => (
+                        <button key={tag} type="button" className="badge badge-outline badge-sm" onClick={() => setQuery(tag)}>
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="text-right whitespace-nowrap">
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => {
+                        setEditing(entry.address)
+                        setForm({ address: entry.address, label: entry.label, notes: entry.notes ?? '', tags: entry.tags.join(', ') })
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button type="button" className="btn btn-ghost btn-xs" onClick={() => removeEntry(entry.address)}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </form>
+    </dialog>
+  )
+}
+
+export default AddressBookModal
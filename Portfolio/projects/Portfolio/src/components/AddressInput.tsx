@@ -0,0 +1,140 @@
+import algosdk from 'algosdk'
+import React, { useEffect, useRef, useState } from 'react'
+import { useAddressBook } from '../contexts/AddressBookContext'
+import { resolveName } from '../services/nameResolver'
+import { searchAddressBook } from '../utils/addressBook'
+import { ellipseAddress } from '../utils/ellipseAddress'
+
+interface Props {
+  /** Address held by the form; names are resolved before they reach it */
+  value: string
+  onChange: (address: string) => void
+  placeholder?: string
+  className?: string
+  'data-test-id'?: string
+}
+
+const RESOLVE_DELAY_MS = 400
+
+/**
+ * Address field with address book suggestions and name resolution. What the user types is shown as-is, while
+ * `onChange` receives the address: saved entries and resolved names are swapped for their address.
+ */
+const AddressInput: React.FC<Props> = ({ value, onChange, placeholder, className = '', ...rest }) => {
+  const { entries, labelFor, resolvers } = useAddressBook()
+  const [text, setText] = useState(value)
+  const [focused, setFocused] = useState(false)
+  const [resolution, setResolution] = useState<{ name: string; address?: string; error?: string } | null>(null)
+  const emitted = useRef(value)
+
+  // Follow resets and prefills from the form without clobbering a name being typed
+  useEffect(() => {
+    if (value !== emitted.current) {
+      emitted.current = value
+      setText(value)
+      setResolution(null)
+    }
+  }, [value])
+
+  const emit = (address: string) => {
+    emitted.current = address
+    onChange(address)
+  }
+
+  const isName =
+    !!text.trim() &&
+    !algosdk.isValidAddress(text.trim()) &&
+    !entries.some((e) => e.label.toLowerCase() === text.trim().toLowerCase()) &&
+    resolvers.some((r) => r.handles(text.trim()))
+
+  useEffect(() => {
+    if (!isName) return
+    const name = text.trim()
+    let cancelled = false
+    setResolution({ name })
+    const timer = setTimeout(() => {
+      resolveName(resolvers, name)
+        .then((found) => {
+          if (cancelled) return
+          setResolution(found ? { name, address: found.address } : { name, error: 'Name not found' })
+          // An unresolved name leaves the form without an address, so it cannot be reviewed
+          emit(found?.address ?? '')
+        })
+        .catch((e) => !cancelled && setResolution({ name, error: (e as Error).message ?? String(e) }))
+    }, RESOLVE_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [text, isName, resolvers])
+
+  const handleChange = (next: string) => {
+    setText(next)
+    setResolution(null)
+    // Saved labels map to their address and names are passed on once resolved; anything else goes straight
+    // to the form for validation
+    const saved = entries.find((e) => e.label.toLowerCase() === next.trim().toLowerCase())
+    emit(saved ? saved.address : resolvers.some((r) => r.handles(next.trim())) ? '' : next.trim())
+  }
+
+  const suggestions = focused && !algosdk.isValidAddress(text.trim()) ? searchAddressBook(entries, text, 6) : []
+  const label = labelFor(value)
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        className={`input input-bordered w-full font-mono text-xs ${className}`}
+        value={text}
+        placeholder={placeholder ?? 'Address, saved label or name'}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        data-test-id={rest['data-test-id']}
+        autoComplete="off"
+      />
+      {suggestions.length > 0 && (
+        <ul className="menu menu-sm absolute z-30 w-full bg-base-100 shadow rounded-box mt-1">
+          {suggestions.map((entry) => (
+            <li key={entry.address}>
+              {/* mousedown fires before the input loses focus and hides the list */}
+              <button
+                type="button"
+                className="flex justify-between"
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  setText(entry.address)
+                  setResolution(null)
+                  emit(entry.address)
+                  setFocused(false)
+                }}
+              >
+                <span>{entry.label}</span>
+                <span className="font-mono text-[10px] text-gray-400">{ellipseAddress(entry.address, 4)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {(label || resolution) && (
+        <label className="label py-1">
+          {resolution?.error ? (
+            <span className="label-text-alt text-error">
+              {resolution.name}: {resolution.error}
+            </span>
+          ) : resolution && !resolution.address ? (
+            <span className="label-text-alt text-gray-500">Resolving {resolution.name}...</span>
+          ) : (
+            <span className="label-text-alt text-gray-500">
+              {resolution?.address && `${resolution.name} → ${ellipseAddress(resolution.address)}`}
+              {resolution?.address && label && ' · '}
+              {label && `Address book: ${label}`}
+            </span>
+          )}
+        </label>
+      )}
+    </div>
+  )
+}
+
+export default AddressInput
@@ -0,0 +1,164 @@
+import { useSnackbar } from 'notistack'
+import React, { useEffect, useState } from 'react'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { WatchedAccount } from '../interfaces/portfolio'
+import { fetchPortfolio } from '../services/algorandData'
+import { formatBaseUnits } from '../utils/amounts'
+import { createLimiter } from '../utils/concurrency'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { AccountPortfolio, aggregatePortfolios } from '../utils/watchList'
+
+interface Props {
+  /** Connected and watched accounts to sum up */
+  accounts: WatchedAccount[]
+  /** Switches the dashboard to a single account */
+  onSelect: (address: string) => void
+}
+
+const AggregatedPortfolio: React.FC<Props> = ({ accounts, onSelect }) => {
+  const { enqueueSnackbar } = useSnackbar()
+  const { algorand, assetCache } = useAppNetwork()
+
+  const [portfolios, setPortfolios] = useState<AccountPortfolio[]>([])
+  const [failed, setFailed] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const accountsKey = accounts.map((a) => `${a.address}:${a.label}`).join(',')
+
+  useEffect(() => {
+    let cancelled = false
+    const limit = createLimiter(2)
+    setLoading(true)
+    void Promise.allSettled(accounts.map((a) => limit(() => fetchPortfolio(algorand.client.algod, assetCache, a.address)))).then(
+      (results) => {
+        if (cancelled) return
+        setPortfolios(
+          results.flatMap((r, i) =>
+            r.status === 'fulfilled' ? [{ address: accounts[i].address, label: accounts[i].label, snapshot: r.value }] : [],
+          ),
+        )
+        const errors = accounts.filter((_, i) => results[i].status === 'rejected').map((a) => a.label)
+        setFailed(errors)
+        if (errors.length > 0) enqueueSnackbar(`Could not load ${errors.join(', ')}`, { variant: 'warning' })
+        setLoading(false)
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [accountsKey, algorand, assetCache, reloadKey])
+
+  const { algo, holdings } = aggregatePortfolios(portfolios)
+  const labelOf = (address: string) => accounts.find((a) => a.address === address)?.label ?? ellipseAddress(address)
+
+  return (
+    <div className="mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="card bg-teal-50 shadow-sm">
+          <div className="card-body">
+            <h2 className="card-title text-sm text-gray-500">Total ALGO</h2>
+            <p className="text-2xl font-bold">{formatBaseUnits(algo, 6)} ALGO</p>
+          </div>
+        </div>
+        <div className="card bg-teal-50 shadow-sm">
+          <div className="card-body">
+            <h2 className="card-title text-sm text-gray-500">Accounts</h2>
+            <p className="text-2xl font-bold">{portfolios.length}</p>
+            {failed.length > 0 && <p className="text-xs text-error">{failed.length} could not be loaded</p>}
+          </div>
+        </div>
+        <div className="card bg-teal-50 shadow-sm">
+          <div className="card-body">
+            <h2 className="card-title text-sm text-gray-500 justify-between">
+              <span>Distinct Assets</span>
+              <button className={`btn btn-xs btn-outline ${loading ? 'btn-disabled' : ''}`} onClick={() => setReloadKey((k) => k + 1)}>
+                {loading ? <span className="loading loading-spinner loading-xs" /> : 'Refresh'}
+              </button>
+            </h2>
+            <p className="text-2xl font-bold">{holdings.filter((h) => h.amount > 0n).length}</p>
+          </div>
+        </div>
+      </div>
+
+      <h3 className="text-lg font-semibold mb-2">Accounts</h3>
+      <div className="overflow-x-auto mb-6">
+        <table className="table table-zebra table-sm">
+          <thead>
+            <tr>
+              <th>Account</th>
+              <th className="hidden md:table-cell">Address</th>
+              <th className="text-right">ALGO</th>
+              <th className="text-right">Assets</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {portfolios.map(({ address, label, snapshot }) => (
+              <tr key={address}>
+                <td className="font-semibold">{label}</td>
+                <td className="hidden md:table-cell font-mono text-xs">{ellipseAddress(address)}</td>
+                <td className="text-right font-mono">{formatBaseUnits(snapshot.account.amount, 6)}</td>
+                <td className="text-right">{snapshot.holdings.filter((h) => h.amount > 0n).length}</td>
+                <td className="text-right">
+                  <button className="btn btn-ghost btn-xs" onClick={() => onSelect(address)}>
+                    View
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="text-lg font-semibold mb-2">Combined Holdings</h3>
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Asset</th>
+              <th className="hidden md:table-cell">Asset ID</th>
+              <th className="text-right">Total</th>
+              <th className="text-right">Accounts</th>
+            </tr>
+          </thead>
+          <tbody>
+            {holdings.length === 0 && (
+              <tr>
+                <td colSpan={4} className="text-center text-gray-400">
+                  No ASAs found.
+                </td>
+              </tr>
+            )}
+            {holdings.map((h) => (
+              <React.Fragment key={h.assetId}>
+                <tr className="cursor-pointer hover" onClick={() => setExpanded(expanded === h.assetId ? null : h.assetId)}>
+                  <td>
+                    <div className="font-semibold">{h.name ?? 'Unknown'}</div>
+                    <div className="text-xs text-gray-400">{h.unitName}</div>
+                  </td>
+                  <td className="hidden md:table-cell">{h.assetId}</td>
+                  <td className="text-right font-mono">{formatBaseUnits(h.amount, h.decimals ?? 0)}</td>
+                  <td className="text-right">{h.byAccount.length}</td>
+                </tr>
+                {expanded === h.assetId &&
+                  h.byAccount.map((b) => (
+                    <tr key={b.address} className="text-xs text-gray-500">
+                      <td className="pl-8" colSpan={2}>
+                        {labelOf(b.address)}
+                      </td>
+                      <td className="text-right font-mono">{formatBaseUnits(b.amount, h.decimals ?? 0)}</td>
+                      <td />
+                    </tr>
+                  ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default AggregatedPortfolio
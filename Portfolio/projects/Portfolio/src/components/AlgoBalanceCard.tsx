@@ -0,0 +1,73 @@
+import React from 'react'
+import { AccountSummary } from '../services/algorandData'
+import { formatBaseUnits } from '../utils/amounts'
+import { minBalanceBreakdown, spendableBalance } from '../utils/minBalance'
+
+interface Props {
+  account: AccountSummary | null
+  /** Outline the card, e.g. after a live update changed the balance */
+  highlighted?: boolean
+}
+
+const Row: React.FC<{ label: string; value: bigint; strong?: boolean }> = ({ label, value, strong }) => (
+  <div className={`flex justify-between text-sm ${strong ? 'font-semibold' : 'text-gray-500'}`}>
+    <span>{label}</span>
+    <span className="font-mono">{formatBaseUnits(value, 6)}</span>
+  </div>
+)
+
+const AlgoBalanceCard: React.FC<Props> = ({ account, highlighted }) => {
+  const breakdown = account ? minBalanceBreakdown(account.minBalanceUsage, account.minBalance) : []
+
+  return (
+    <div className={`card bg-teal-50 shadow-sm transition-shadow ${highlighted ? 'ring-2 ring-warning' : ''}`}>
+      <div className="card-body gap-1">
+        <h2 className="card-title text-sm text-gray-500 justify-between">
+          <span>ALGO Balance</span>
+          {account && (
+            <div className="dropdown dropdown-end dropdown-hover">
+              <label tabIndex={0} className="btn btn-ghost btn-xs btn-circle" title="What is the minimum balance?">
+                ?
+              </label>
+              <div tabIndex={0} className="dropdown-content z-20 card card-compact w-80 bg-base-100 shadow text-left">
+                <div className="card-body">
+                  <p className="text-xs text-gray-500">
+                    Every account must keep a minimum balance that grows with the assets, apps and boxes it uses. Only the amount above it
+                    can be sent or spent on fees.
+                  </p>
+                  <table className="table table-xs">
+                    <tbody>
+                      {breakdown.map((item) => (
+                        <tr key={item.label}>
+                          <td>
+                            <div className="font-medium">{item.label}</div>
+                            <div className="text-[10px] text-gray-400">{item.detail}</div>
+                          </td>
+                          <td className="text-right font-mono">{formatBaseUnits(item.amount, 6)}</td>
+                        </tr>
+                      ))}
+                      <tr className="font-semibold">
+                        <td>Minimum balance</td>
+                        <td className="text-right font-mono">{formatBaseUnits(account.minBalance, 6)}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </h2>
+        <p className="text-2xl font-bold">{account ? formatBaseUnits(account.amount, 6) : '—'} ALGO</p>
+        {account && (
+          <>
+            <Row label="Minimum balance" value={account.minBalance} />
+            {account.pendingRewards > 0n && <Row label="Pending rewards" value={account.pendingRewards} />}
+            <Row label="Spendable" value={spendableBalance(account.amount, account.minBalance)} strong />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default AlgoBalanceCard
@@ -0,0 +1,20 @@
+import React from 'react'
+import RouteLink from './RouteLink'
+
+interface Props {
+  assetId: number
+  /** Defaults to `#<assetId>` */
+  children?: React.ReactNode
+  /** Runs before navigating, e.g. to clear state of the modal the link is in */
+  onOpen?: () => void
+  className?: string
+}
+
+/** Link to the in-app asset page. */
+const AssetLink: React.FC<Props> = ({ assetId, children, onOpen, className }) => (
+  <RouteLink route={{ name: 'asset', assetId }} onOpen={onOpen} className={className} title={`View asset #${assetId}`}>
+    {children ?? `#${assetId}`}
+  </RouteLink>
+)
+
+export default AssetLink
@@ -0,0 +1,361 @@
+import type { indexerModels } from 'algosdk'
+import React, { useEffect, useState } from 'react'
+import { useAddressBook } from '../contexts/AddressBookContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { Txn } from '../interfaces/portfolio'
+import { getAssetHolding } from '../services/algorandData'
+import {
+  AssetHolders,
+  AssetOverview,
+  getAssetHolders,
+  getAssetOverview,
+  getCreationTransaction,
+  getRecentTransfers,
+  RecentTransfers,
+  supplyBreakdown,
+} from '../services/assetExplorer'
+import { formatBaseUnits } from '../utils/amounts'
+import { ASA_ROLES } from '../utils/asaParams'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { classifyError } from '../utils/errors'
+import { isNft } from '../utils/nft'
+import { toTxn } from '../utils/transactions'
+import { formatShare } from '../utils/valuation'
+import RouteLink from './RouteLink'
+import TransactionDetailDrawer from './TransactionDetailDrawer'
+
+interface Props {
+  assetId: number
+  onBack: () => void
+}
+
+const TOP_HOLDERS = 10
+const RECENT_TRANSFERS = 20
+
+/** Value that is still loading, failed, or loaded */
+type Loadable<T> = { status: 'loading' } | { status: 'error'; message: string } | { status: 'done'; value: T }
+
+/** Address book label or address, linking to the account's read-only dashboard */
+const Address: React.FC<{ address: string; short?: boolean }> = ({ address, short }) => {
+  const { labelFor } = useAddressBook()
+  const label = labelFor(address)
+  return (
+    <RouteLink route={{ name: 'account', address }} title={address} className={label ? 'font-semibold' : 'font-mono text-xs'}>
+      {label ?? (short ? ellipseAddress(address, 4) : address)}
+    </RouteLink>
+  )
+}
+
+const SectionStatus: React.FC<{ state: Loadable<unknown>; what: string }> = ({ state, what }) =>
+  state.status === 'loading' ? (
+    <span className="loading loading-spinner loading-sm" />
+  ) : state.status === 'error' ? (
+    <p className="text-sm text-error">
+      Could not load {what}: {state.message}
+    </p>
+  ) : null
+
+const load = <T,>(promise: Promise<T>, set: (state: Loadable<T>) => void, isCancelled: () => boolean) => {
+  set({ status: 'loading' })
+  promise.then(
+    (value) => !isCancelled() && set({ status: 'done', value }),
+    (e) => !isCancelled() && set({ status: 'error', message: classifyError(e).message }),
+  )
+}
+
+/** Everything about one ASA: params, roles, supply, holders, recent transfers and its creation. */
+const AssetPage: React.FC<Props> = ({ assetId, onBack }) => {
+  const { algorand, networkName } = useAppNetwork()
+  const [overview, setOverview] = useState<Loadable<AssetOverview | null>>({ status: 'loading' })
+  const [reserveAmount, setReserveAmount] = useState<bigint | null>(null)
+  /** The supply split then treats the reserve as empty, so say why */
+  const [reserveError, setReserveError] = useState<string | null>(null)
+  const [holders, setHolders] = useState<Loadable<AssetHolders>>({ status: 'loading' })
+  const [transfers, setTransfers] = useState<Loadable<RecentTransfers>>({ status: 'loading' })
+  const [creation, setCreation] = useState<Loadable<indexerModels.Transaction | null>>({ status: 'loading' })
+  const [selected, setSelected] = useState<Txn | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const isCancelled = () => cancelled
+    const { algod, indexer } = algorand.client
+    setReserveAmount(null)
+    setReserveError(null)
+    setSelected(null)
+
+    const overviewRequest = getAssetOverview(indexer, assetId)
+    load(overviewRequest, setOverview, isCancelled)
+    overviewRequest
+      .then((o) => (o?.asset.reserve && !o.asset.deleted ? getAssetHolding(algod, o.asset.reserve, assetId) : null))
+      .then((holding) => !cancelled && setReserveAmount(holding?.amount ?? null))
+      .catch((e) => !cancelled && setReserveError(classifyError(e).message))
+
+    load(getAssetHolders(indexer, assetId, TOP_HOLDERS), setHolders, isCancelled)
+    load(getRecentTransfers(indexer, assetId, RECENT_TRANSFERS), setTransfers, isCancelled)
+    load(getCreationTransaction(indexer, assetId), setCreation, isCancelled)
+    return () => {
+      cancelled = true
+    }
+  }, [assetId, algorand])
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <button type="button" className="btn btn-ghost btn-sm" onClick={onBack}>
+        ← Back
+      </button>
+      <a className="link text-xs" target="_blank" rel="noreferrer" href={`https://lora.algokit.io/${networkName}/asset/${assetId}`}>
+        Open in Lora
+      </a>
+    </div>
+  )
+
+  if (overview.status !== 'done' || !overview.value) {
+    return (
+      <div className="mt-8 text-left">
+        {header}
+        {overview.status === 'done' ? (
+          <p className="text-center text-gray-400 py-6">Asset #{assetId} does not exist on this network.</p>
+        ) : (
+          <div className="flex justify-center py-6">
+            <SectionStatus state={overview} what={`asset #${assetId}`} />
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const { asset, metadataHash, createdAtRound, destroyedAtRound } = overview.value
+  const amount = (value: bigint) => formatBaseUnits(value, asset.decimals)
+  const unit = asset.unitName ?? ''
+  const supply = supplyBreakdown(asset, reserveAmount)
+  const share = (value: bigint) => (asset.total > 0n ? formatShare(Number((value * 1_000_000n) / asset.total) / 1_000_000) : '—')
+  const openTxn = (t: indexerModels.Transaction, index: number) => setSelected(toTxn(t, index, '', () => asset.decimals))
+
+  const params: [string, React.ReactNode][] = [
+    ['Decimals', asset.decimals],
+    ['Total supply', `${amount(asset.total)} ${unit} (${asset.total.toString()} base units)`],
+    ['Default frozen', asset.defaultFrozen ? 'Yes' : 'No'],
+    ['URL', asset.url ?? '—'],
+    ['Metadata hash', metadataHash?.length ? <span className="font-mono text-xs">{Buffer.from(metadataHash).toString('hex')}</span> : '—'],
+    ['Created in round', createdAtRound ?? '—'],
+    ...(destroyedAtRound != null ? [['Destroyed in round', destroyedAtRound] as [string, React.ReactNode]] : []),
+  ]
+
+  const stats: [string, React.ReactNode][] = [
+    ['Total supply', `${amount(supply.total)} ${unit}`],
+    ['Circulating', !asset.reserve ? 'All (no reserve)' : reserveError ? '—' : `${amount(supply.circulating)} ${unit}`],
+    [
+      'In reserve',
+      !asset.reserve ? (
+        '—'
+      ) : reserveError ? (
+        <span className="text-sm text-error" title={reserveError}>
+          Could not load
+        </span>
+      ) : (
+        `${amount(supply.reserve)} ${unit} · ${share(supply.reserve)}`
+      ),
+    ],
+    [
+      'Holders',
+      holders.status === 'done' ? (
+        `${holders.value.count.toLocaleString()}${holders.value.complete ? '' : '+'}`
+      ) : holders.status === 'loading' ? (
+        <span className="loading loading-spinner loading-sm" />
+      ) : (
+        '—'
+      ),
+    ],
+  ]
+
+  return (
+    <div className="mt-8 text-left">
+      {header}
+
+      <div className="flex items-center gap-4 mb-4">
+        <div className="w-12 h-12 rounded-md bg-slate-100 flex items-center justify-center font-semibold text-slate-700">
+          {(unit || 'ASA').slice(0, 4)}
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold">{asset.name ?? 'Unnamed asset'}</h2>
+          <div className="text-sm text-gray-500 flex items-center gap-2">
+            <span>#{asset.assetId}</span>
+            {unit && <span>· {unit}</span>}
+            {isNft(asset) && <span className="badge badge-outline badge-xs">NFT</span>}
+            {asset.deleted && <span className="badge badge-error badge-xs">Destroyed</span>}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 xl:grid-cols-4 gap-4 mb-6">
+        {stats.map(([label, value]) => (
+          <div key={label} className="card bg-teal-50 shadow-sm">
+            <div className="card-body p-4">
+              <h3 className="text-sm text-gray-500">{label}</h3>
+              <p className="text-lg font-bold break-all">{value}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Parameters</h3>
+          <table className="table table-sm">
+            <tbody>
+              {params.map(([label, value]) => (
+                <tr key={label}>
+                  <th className="w-40">{label}</th>
+                  <td className="break-all">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Roles</h3>
+          <table className="table table-sm">
+            <tbody>
+              <tr>
+                <th className="w-40">Creator</th>
+                <td className="break-all">
+                  <Address address={asset.creator} />
+                </td>
+              </tr>
+              {ASA_ROLES.map((role) => (
+                <tr key={role}>
+                  <th className="capitalize">{role}</th>
+                  <td className="break-all">
+                    {asset[role] ? <Address address={asset[role]} /> : <span className="text-gray-400">None (permanently disabled)</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold mb-2">Top holders</h3>
+        <SectionStatus state={holders} what="holders" />
+        {holders.status === 'done' && (
+          <div className="overflow-x-auto">
+            <table className="table table-zebra table-sm">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Account</th>
+                  <th className="text-right">Amount</th>
+                  <th className="text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {holders.value.top.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="text-center text-gray-400">
+                      No account holds this asset.
+                    </td>
+                  </tr>
+                )}
+                {holders.value.top.map((h, index) => (
+                  <tr key={h.address}>
+                    <td>{index + 1}</td>
+                    <td>
+                      <Address address={h.address} short />
+                      {h.address === asset.reserve && <span className="badge badge-ghost badge-xs ml-1">Reserve</span>}
+                      {h.isFrozen && <span className="badge badge-info badge-xs ml-1">Frozen</span>}
+                    </td>
+                    <td className="text-right font-mono">{amount(h.amount)}</td>
+                    <td className="text-right font-mono">{share(h.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold mb-2">Recent transfers</h3>
+        <SectionStatus state={transfers} what="transfers" />
+        {transfers.status === 'done' && !transfers.value.complete && (
+          <p className="text-xs text-warning mb-2">
+            This asset moves too often to list its latest transfers exactly; newer transfers than these may be missing.
+          </p>
+        )}
+        {transfers.status === 'done' && (
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Round</th>
+                  <th>From</th>
+                  <th>To</th>
+                  <th className="text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transfers.value.transfers.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="text-center text-gray-400">
+                      No transfers yet.
+                    </td>
+                  </tr>
+                )}
+                {transfers.value.transfers.map((t, index) => {
+                  const axfer = t.assetTransferTransaction
+                  const from = axfer?.sender ?? t.sender
+                  const optIn = axfer && axfer.amount === 0n && axfer.receiver === t.sender && !axfer.closeTo
+                  return (
+                    <tr key={t.id ?? index} className="hover cursor-pointer" onClick={() => openTxn(t, index)}>
+                      <td>
+                        {t.confirmedRound?.toString() ?? '—'}
+                        {t.roundTime && <div className="text-xs text-gray-400">{new Date(t.roundTime * 1000).toLocaleString()}</div>}
+                      </td>
+                      <td>
+                        <Address address={from} short />
+                        {axfer?.sender && <span className="badge badge-warning badge-xs ml-1">Clawback</span>}
+                      </td>
+                      <td>
+                        {axfer && <Address address={axfer.receiver} short />}
+                        {axfer?.closeTo && <span className="badge badge-ghost badge-xs ml-1">Close out</span>}
+                      </td>
+                      <td className="text-right font-mono">
+                        {optIn ? <span className="text-gray-400">Opt-in</span> : amount(axfer?.amount ?? 0n)}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold mb-2">Creation</h3>
+        <SectionStatus state={creation} what="the creation transaction" />
+        {creation.status === 'done' &&
+          (creation.value ? (
+            <button type="button" className="text-left hover:bg-base-200 rounded p-2 w-full" onClick={() => openTxn(creation.value!, 0)}>
+              <div className="font-mono text-xs">{creation.value.id}</div>
+              <div className="text-sm text-gray-500">
+                Round {creation.value.confirmedRound?.toString()}
+                {creation.value.roundTime ? ` · ${new Date(creation.value.roundTime * 1000).toLocaleString()}` : ''} · by{' '}
+                <Address address={creation.value.sender} short />
+              </div>
+            </button>
+          ) : (
+            <p className="text-sm text-gray-400">
+              Not created by a top-level transaction{createdAtRound != null ? ` (round ${createdAtRound})` : ''}, e.g. by an application.
+            </p>
+          ))}
+      </div>
+
+      <TransactionDetailDrawer txn={selected} onClose={() => setSelected(null)} />
+    </div>
+  )
+}
+
+export default AssetPage
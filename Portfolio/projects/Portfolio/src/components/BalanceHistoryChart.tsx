@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { AssetDetails, AssetHolding } from '../interfaces/portfolio'
+import { AccountSummary } from '../services/algorandData'
+import { BalanceHistory, loadBalanceHistory, localBalanceHistoryStorage } from '../services/balanceHistory'
+import { formatBaseUnits } from '../utils/amounts'
+import { assetsInHistory, BalanceKey, BalancePoint, balanceSeries } from '../utils/balanceHistory'
+import { classifyError } from '../utils/errors'
+
+interface Props {
+  address: string
+  account: AccountSummary | null
+  holdings: AssetHolding[]
+  /** Bumped by the dashboard after each portfolio load so new rounds are picked up */
+  refreshKey: number
+}
+
+const RANGES: { days: number; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'All time' },
+]
+
+const WIDTH = 600
+const HEIGHT = 160
+const PADDING = 4
+
+/** First day of the range as YYYY-MM-DD, or '' for the whole history */
+const rangeStart = (days: number) => (days ? new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10) : '')
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString()
+
+const StepChart: React.FC<{ points: BalancePoint[]; decimals: number; unit: string }> = ({ points, decimals, unit }) => {
+  const values = points.map((p) => Number(formatBaseUnits(p.balance, decimals, false)))
+  const max = Math.max(...values, 0)
+  const min = Math.min(...values, 0)
+  const start = points[0].timestamp
+  const span = Math.max(points[points.length - 1].timestamp - start, 1)
+
+  const x = (timestamp: number) => PADDING + ((timestamp - start) / span) * (WIDTH - 2 * PADDING)
+  const y = (value: number) => HEIGHT - PADDING - ((value - min) / (max - min || 1)) * (HEIGHT - 2 * PADDING)
+
+  // Balances only change at rounds, so draw horizontal runs joined by vertical steps
+  const path = points.map((p, i) => (i === 0 ? `M${x(p.timestamp)},${y(values[i])}` : `H${x(p.timestamp)} V${y(values[i])}`)).join(' ')
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 font-mono">
+        <span>
+          max {formatBaseUnits(points[values.indexOf(max)]?.balance ?? 0n, decimals)} {unit}
+        </span>
+        <span>
+          now {formatBaseUnits(points[points.length - 1].balance, decimals)} {unit}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40 bg-base-100 rounded" preserveAspectRatio="none">
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={2} className="text-teal-600" vectorEffect="non-scaling-stroke" />
+        {points.map(
+          (p, i) =>
+            p.round != null && (
+              <circle key={p.round} cx={x(p.timestamp)} cy={y(values[i])} r={3} className="fill-teal-700">
+                <title>
+                  {formatDate(p.timestamp)} · round {p.round}: {formatBaseUnits(p.balance, decimals)} {unit}
+                </title>
+              </circle>
+            ),
+        )}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{formatDate(start)}</span>
+        <span>Now</span>
+      </div>
+    </div>
+  )
+}
+
+const BalanceHistoryChart: React.FC<Props> = ({ address, account, holdings, refreshKey }) => {
+  const { algorand, assetCache, network } = useAppNetwork()
+
+  const [key, setKey] = useState<BalanceKey>('algo')
+  const [days, setDays] = useState(30)
+  const [history, setHistory] = useState<BalanceHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string>()
+  const [pastAssets, setPastAssets] = useState<Map<number, AssetDetails>>(new Map())
+
+  const storage = useMemo(() => localBalanceHistoryStorage(network.id), [network.id])
+  const since = rangeStart(days)
+
+  useEffect(() => {
+    setHistory(null)
+    setError(undefined)
+    if (!address || refreshKey === 0) return
+
+    let cancelled = false
+    const cached = storage.read(address)
+    if (cached) setHistory(cached)
+    setLoading(true)
+    loadBalanceHistory(algorand.client.indexer, address, since, cached)
+      .then((loaded) => {
+        storage.write(address, loaded)
+        if (!cancelled) setHistory(loaded)
+      })
+      .catch((e) => !cancelled && setError(classifyError(e).message))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [address, algorand, storage, since, refreshKey])
+
+  // Assets the account has opted out of since still have history worth showing
+  const assetIds = useMemo(
+    () => [...new Set([...holdings.map((h) => h.assetId), ...assetsInHistory(history?.rounds ?? [])])],
+    [holdings, history],
+  )
+  useEffect(() => {
+    let cancelled = false
+    void assetCache
+      .getMany(assetIds.filter((id) => !holdings.some((h) => h.assetId === id)))
+      .then((found) => !cancelled && setPastAssets(found))
+    return () => {
+      cancelled = true
+    }
+  }, [assetCache, assetIds, holdings])
+
+  const assetMeta = (assetId: number) => {
+    const holding = holdings.find((h) => h.assetId === assetId)
+    const cached = pastAssets.get(assetId)
+    return {
+      decimals: holding?.decimals ?? cached?.decimals ?? 0,
+      unit: holding?.unitName ?? cached?.unitName ?? `#${assetId}`,
+      label: holding?.name ?? cached?.name ?? `Asset ${assetId}`,
+    }
+  }
+
+  const points = useMemo(() => {
+    if (!account || !history) return []
+    const current = key === 'algo' ? account.amount - account.pendingRewards : (holdings.find((h) => h.assetId === key)?.amount ?? 0n)
+    return balanceSeries(current, history.rounds, key, {
+      since: since ? Date.parse(`${since}T00:00:00`) / 1000 : undefined,
+      now: Math.floor(Date.now() / 1000),
+    })
+  }, [account, history, holdings, key, since])
+
+  const { decimals, unit } = key === 'algo' ? { decimals: 6, unit: 'ALGO' } : assetMeta(key)
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center justify-between">
+        <span className="flex items-center gap-2">
+          Balance History
+          {loading && <span className="loading loading-spinner loading-xs" />}
+        </span>
+        <span className="flex items-center gap-2">
+          <select
+            className="select select-bordered select-xs"
+            value={String(key)}
+            onChange={(e) => setKey(e.target.value === 'algo' ? 'algo' : Number(e.target.value))}
+          >
+            <option value="algo">ALGO</option>
+            {assetIds.map((id) => (
+              <option key={id} value={id}>
+                {assetMeta(id).label} ({id})
+              </option>
+            ))}
+          </select>
+          <select className="select select-bordered select-xs" value={days} onChange={(e) => setDays(Number(e.target.value))}>
+            {RANGES.map((r) => (
+              <option key={r.days} value={r.days}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </span>
+      </h3>
+      <div className="card bg-teal-50 shadow-sm">
+        <div className="card-body p-4">
+          {error && <p className="text-sm text-error">Could not reconstruct the history: {error}</p>}
+          {!error && points.length > 0 && <StepChart points={points} decimals={decimals} unit={unit} />}
+          {!error && points.length === 0 && <p className="text-sm text-gray-400">{loading ? 'Loading history...' : 'No history yet.'}</p>}
+          {points.length > 0 && points.every((p) => p.round == null) && (
+            <p className="text-xs text-gray-400">No balance changes in this range.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default BalanceHistoryChart
@@ -0,0 +1,377 @@
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { useWallet } from '@txnlab/use-wallet-react'
+import algosdk from 'algosdk'
+import { useSnackbar } from 'notistack'
+import React, { useState } from 'react'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { AssetHolding } from '../interfaces/portfolio'
+import { getAssetHolding } from '../services/algorandData'
+import { simulateTransactions, SimulationResult } from '../services/simulation'
+import { formatBaseUnits } from '../utils/amounts'
+import { chunk, parseBatchInput, validateBatchRows, ValidatedBatchRow } from '../utils/batch'
+import { createLimiter } from '../utils/concurrency'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { ClassifiedError, classifyError } from '../utils/errors'
+import SimulationPreview from './SimulationPreview'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+  onSent: () => void
+  holdings: AssetHolding[]
+  /** ALGO the sender can spend above its minimum balance, in microAlgo */
+  spendable?: bigint
+}
+
+/** A group built and simulated ahead of signing; the exact transactions are what gets signed */
+interface PreparedGroup {
+  rows: BatchRowState[]
+  transactions: algosdk.Transaction[]
+  result: SimulationResult
+}
+
+/** Adds up the per-group simulations for the summary shown before sending. */
+function combineResults(results: SimulationResult[]): SimulationResult {
+  const assets = new Map<number, bigint>()
+  results.forEach((r) => r.deltas.assets.forEach((delta, id) => assets.set(id, (assets.get(id) ?? 0n) + delta)))
+  return {
+    ok: results.every((r) => r.ok),
+    failure: results.find((r) => !r.ok)?.failure,
+    action: results.find((r) => !r.ok)?.action,
+    rawFailure: results.find((r) => !r.ok)?.rawFailure,
+    fee: results.reduce((sum, r) => sum + r.fee, 0n),
+    deltas: { algo: results.reduce((sum, r) => sum + r.deltas.algo, 0n), assets },
+  }
+}
+
+interface BatchRowState extends ValidatedBatchRow {
+  status?: 'sent' | 'failed'
+  txId?: string
+  sendError?: string
+}
+
+const BatchSendModal: React.FC<Props> = ({ open, onClose, onSent, holdings, spendable }) => {
+  const { activeAddress, transactionSigner } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const { sendTracked } = useActivity()
+  const { algorand, networkName } = useAppNetwork()
+
+  const [input, setInput] = useState('')
+  const [rows, setRows] = useState<BatchRowState[]>([])
+  const [parseErrors, setParseErrors] = useState<{ line: number; message: string }[]>([])
+  const [validating, setValidating] = useState(false)
+  const [sending, setSending] = useState(false)
+  const [prepared, setPrepared] = useState<PreparedGroup[] | null>(null)
+  const [simulating, setSimulating] = useState(false)
+  const [simulateError, setSimulateError] = useState<ClassifiedError>()
+
+  const pending = rows.filter((r) => !r.error && r.status !== 'sent')
+  const hasErrors = parseErrors.length > 0 || rows.some((r) => r.error)
+  const groups = chunk(pending)
+
+  const reset = () => {
+    setInput('')
+    setRows([])
+    setParseErrors([])
+    setPrepared(null)
+  }
+
+  const close = () => {
+    if (sending) return
+    reset()
+    onClose()
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setInput(await file.text())
+    setRows([])
+    setPrepared(null)
+  }
+
+  const handleValidate = async () => {
+    const parsed = parseBatchInput(input)
+    setParseErrors(parsed.errors)
+    const validated = validateBatchRows(parsed.rows, holdings, spendable ?? 0n)
+
+    // Receivers must be opted in to ASAs; look each receiver/asset pair up once, a few at a time.
+    setPrepared(null)
+    setValidating(true)
+    try {
+      const limit = createLimiter(4)
+      const optIns = new Map<string, Promise<string | undefined>>()
+      const checkOptIn = (receiver: string, assetId: number) => {
+        const key = `${receiver}:${assetId}`
+        if (!optIns.has(key)) {
+          optIns.set(
+            key,
+            limit(() => getAssetHolding(algorand.client.algod, receiver, assetId)).then(
+              (holding) =>
+                !holding ? 'Receiver is not opted in to this asset' : holding.isFrozen ? 'Receiver holding is frozen' : undefined,
+              () => 'Could not verify the receiver opt-in',
+            ),
+          )
+        }
+        return optIns.get(key)!
+      }
+
+      setRows(
+        await Promise.all(
+          validated.map(async (row) =>
+            row.error || row.assetId == null ? row : { ...row, error: await checkOptIn(row.receiver, row.assetId) },
+          ),
+        ),
+      )
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  /**
+   * Builds every group and runs it through simulate, so failures show up per row before the wallet is involved.
+   * The row that makes a group fail is marked invalid; dropping it and simulating again clears the group.
+   */
+  const handleSimulate = async () => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Please connect your wallet first', { variant: 'warning' })
+      return
+    }
+
+    setSimulating(true)
+    setSimulateError(undefined)
+    try {
+      const results: PreparedGroup[] = []
+      for (const group of groups) {
+        const composer = algorand.newGroup()
+        group.forEach((row) => {
+          if (row.assetId == null) {
+            composer.addPayment({
+              sender: activeAddress,
+              signer: transactionSigner,
+              receiver: row.receiver,
+              amount: microAlgo(row.baseUnits!),
+            })
+          } else {
+            composer.addAssetTransfer({
+              sender: activeAddress,
+              signer: transactionSigner,
+              receiver: row.receiver,
+              assetId: BigInt(row.assetId),
+              amount: row.baseUnits!,
+            })
+          }
+        })
+        const { transactions } = await composer.buildTransactions()
+        results.push({ rows: group, transactions, result: await simulateTransactions(algorand.client.algod, transactions, activeAddress) })
+      }
+
+      const failedLines = new Map<number, string>()
+      results.forEach(({ rows: groupRows, result }) => {
+        if (!result.ok) failedLines.set(groupRows[result.failedAt ?? 0].line, result.failure ?? 'Simulation failed')
+      })
+      if (failedLines.size > 0)
+        setRows((prev) => prev.map((row) => (failedLines.has(row.line) ? { ...row, error: failedLines.get(row.line) } : row)))
+      setPrepared(failedLines.size > 0 ? null : results)
+    } catch (e) {
+      setSimulateError(classifyError(e))
+    } finally {
+      setSimulating(false)
+    }
+  }
+
+  const handleSend = async () => {
+    if (!activeAddress || !transactionSigner || !prepared) return
+
+    setSending(true)
+    let sent = 0
+    try {
+      for (const [index, { rows: group, transactions }] of prepared.entries()) {
+        enqueueSnackbar(`Signing group ${index + 1} of ${prepared.length}...`, { variant: 'info' })
+        const composer = algorand.newGroup()
+        transactions.forEach((txn) => composer.addTransaction(txn, transactionSigner))
+
+        // Groups are atomic: either every row in it succeeds or none does.
+        let update: (row: BatchRowState, position: number) => BatchRowState
+        try {
+          const result = await sendTracked(composer, {
+            kind: 'Batch send',
+            summary: `${group.length} transfer${group.length === 1 ? '' : 's'}, group ${index + 1} of ${prepared.length}`,
+          })
+          sent += group.length
+          update = (row, position) => ({ ...row, status: 'sent', txId: result.txIds[position], sendError: undefined })
+        } catch (e) {
+          const message = reportError(`Group ${index + 1} failed`, e).message
+          update = (row) => ({ ...row, status: 'failed', sendError: message })
+        }
+        setRows((prev) =>
+          prev.map((row) => {
+            const position = group.findIndex((g) => g.line === row.line)
+            return position === -1 ? row : update(row, position)
+          }),
+        )
+      }
+    } finally {
+      setSending(false)
+      setPrepared(null)
+    }
+
+    enqueueSnackbar(`Sent ${sent} of ${pending.length} transfers`, { variant: sent === pending.length ? 'success' : 'warning' })
+    if (sent > 0) onSent()
+  }
+
+  const statusCell = (row: BatchRowState) => {
+    if (row.error) return <span className="text-error">{row.error}</span>
+    if (row.status === 'sent' && row.txId) {
+      return (
+        <a
+          className="link link-success font-mono"
+          target="_blank"
+          rel="noreferrer"
+          href={`https://lora.algokit.io/${networkName}/transaction/${row.txId}`}
+        >
+          {ellipseAddress(row.txId, 4)}
+        </a>
+      )
+    }
+    if (row.status === 'failed') return <span className="text-error">Failed: {row.sendError}</span>
+    return <span className="text-gray-400">Ready</span>
+  }
+
+  return (
+    <dialog className={`modal ${open ? 'modal-open' : ''}`}>
+      <form method="dialog" className="modal-box max-w-3xl" onSubmit={(e) => e.preventDefault()}>
+        <h3 className="font-bold text-lg mb-2">Batch Send</h3>
+        <p className="text-sm text-gray-500 mb-2">
+          One transfer per line as <span className="font-mono">address,amount[,asset]</span>. Leave the asset empty or use ALGO for
+          payments. Transfers are sent in atomic groups of up to 16, one wallet prompt per group.
+        </p>
+
+        <textarea
+          className="textarea textarea-bordered w-full font-mono text-xs"
+          rows={6}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value)
+            setRows([])
+            setPrepared(null)
+          }}
+          placeholder={'ADDRESS1,1.5\nADDRESS2,100,123456'}
+        />
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="file-input file-input-bordered file-input-sm"
+            onChange={(e) => void handleFile(e.target.files?.[0])}
+          />
+          <button
+            type="button"
+            className={`btn btn-sm ${!input.trim() || validating || sending ? 'btn-disabled' : ''}`}
+            onClick={() => void handleValidate()}
+          >
+            {validating ? <span className="loading loading-spinner loading-xs" /> : 'Validate'}
+          </button>
+        </div>
+
+        {parseErrors.length > 0 && (
+          <div className="alert alert-error text-sm mb-2 flex flex-col items-start">
+            {parseErrors.map((e) => (
+              <span key={e.line}>
+                Line {e.line}: {e.message}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="overflow-x-auto max-h-72 mb-2">
+            <table className="table table-xs">
+              <thead>
+                <tr>
+                  <th>Line</th>
+                  <th>Receiver</th>
+                  <th className="text-right">Amount</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.line}>
+                    <td>{row.line}</td>
+                    <td className="font-mono" title={row.receiver}>
+                      {ellipseAddress(row.receiver, 4)}
+                    </td>
+                    <td className="text-right font-mono">
+                      {row.baseUnits != null ? formatBaseUnits(row.baseUnits, row.decimals) : row.amount} {row.unitName}
+                    </td>
+                    <td>{statusCell(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {rows.some((r) => r.error) && (
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-error">{rows.filter((r) => r.error).length} rows need fixing before sending.</span>
+            <button
+              type="button"
+              className="btn btn-ghost btn-xs"
+              onClick={() => {
+                setRows((prev) => prev.filter((r) => !r.error))
+                setParseErrors([])
+                setPrepared(null)
+              }}
+            >
+              Drop invalid rows
+            </button>
+          </div>
+        )}
+
+        {(prepared || simulating || simulateError) && (
+          <SimulationPreview
+            simulation={{
+              loading: simulating,
+              error: simulateError,
+              result: prepared ? combineResults(prepared.map((p) => p.result)) : undefined,
+            }}
+            describeAsset={(assetId) => {
+              const holding = holdings.find((h) => h.assetId === assetId)
+              return holding?.decimals != null ? { decimals: holding.decimals, unit: holding.unitName ?? '' } : undefined
+            }}
+            onRetry={() => void handleSimulate()}
+          />
+        )}
+
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={close}>
+            Close
+          </button>
+          {prepared ? (
+            <button type="button" className={`btn btn-primary ${sending ? 'btn-disabled' : ''}`} onClick={() => void handleSend()}>
+              {sending ? (
+                <span className="loading loading-spinner" />
+              ) : (
+                `Send ${pending.length} in ${prepared.length} group${prepared.length === 1 ? '' : 's'}`
+              )}
+            </button>
+          ) : (
+            <button
+              type="button"
+              className={`btn btn-primary ${pending.length === 0 || hasErrors || validating || simulating ? 'btn-disabled' : ''}`}
+              onClick={() => void handleSimulate()}
+            >
+              {simulating ? <span className="loading loading-spinner" /> : 'Simulate'}
+            </button>
+          )}
+        </div>
+      </form>
+    </dialog>
+  )
+}
+
+export default BatchSendModal
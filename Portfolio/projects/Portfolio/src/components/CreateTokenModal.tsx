@@ -1,26 +1,168 @@
-import { AlgorandClient } from '@algorandfoundation/algokit-utils'
 import { useWallet } from '@txnlab/use-wallet-react'
+import algosdk from 'algosdk'
 import { useSnackbar } from 'notistack'
-import React, { useState } from 'react'
-import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { useSimulation } from '../hooks/useSimulation'
+import { memoryNftStorage, nftStoragesFor, prepareNftMint, PreparedNft } from '../services/nftStorage'
+import { formatBaseUnits } from '../utils/amounts'
+import { ASA_LIMITS, ASA_ROLES, AsaConfigForm, AsaCreateFields, AsaRole, utf8Length, validateAsaConfig } from '../utils/asaParams'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { ASSET_MIN_BALANCE } from '../utils/minBalance'
+import { EMPTY_NFT_FORM, nftAsaConfig, NftMintForm, validateNftMint } from '../utils/nftMint'
+import { CreatePrefill } from '../utils/routes'
+import NftMintFields from './NftMintFields'
+import SimulationPreview from './SimulationPreview'
 
 interface Props {
   open: boolean
   onClose: () => void
+  /** Mode and fields to fill in when the modal opens, e.g. from a shared link */
+  prefill?: CreatePrefill
 }
 
-const CreateTokenModal: React.FC<Props> = ({ open, onClose }) => {
+const ROLE_HINTS: Record<AsaRole, string> = {
+  manager: 'Can reconfigure role addresses and destroy the asset',
+  reserve: 'Holds non-circulating supply (informational only)',
+  freeze: 'Can freeze and unfreeze holdings',
+  clawback: 'Can revoke holdings from any account',
+}
+
+const initialForm = (creator: string): AsaConfigForm => ({
+  assetName: 'Dash Token',
+  unitName: 'DASH',
+  total: '1000000',
+  decimals: '0',
+  url: '',
+  metadataHash: '',
+  defaultFrozen: false,
+  manager: creator,
+  reserve: creator,
+  freeze: creator,
+  clawback: creator,
+  note: 'Created with Token Dashboard',
+})
+
+const CreateTokenModal: React.FC<Props> = ({ open, onClose, prefill }) => {
   const { activeAddress, transactionSigner } = useWallet()
   const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const { sendTracked } = useActivity()
 
-  const [name, setName] = useState('Dash Token')
-  const [unit, setUnit] = useState('DASH')
-  const [supply, setSupply] = useState('1000000')
-  const [decimals] = useState(0)
+  const [form, setForm] = useState<AsaConfigForm>(() => initialForm(activeAddress ?? ''))
+  const [immutable, setImmutable] = useState(false)
+  const [step, setStep] = useState<'edit' | 'review'>('edit')
   const [loading, setLoading] = useState(false)
+  const [txn, setTxn] = useState<algosdk.Transaction | null>(null)
+
+  const [mode, setMode] = useState<'token' | 'nft'>('token')
+  const [nftForm, setNftForm] = useState<NftMintForm>(EMPTY_NFT_FORM)
+  const [imageFile, setImageFile] = useState<File | null>(null)
+  const [prepared, setPrepared] = useState<PreparedNft | null>(null)
+  /** Entered by the user rather than read from the environment, which Vite would inline into the public bundle */
+  const [pinataJwt, setPinataJwt] = useState('')
+  const [storageId, setStorageId] = useState('pinata')
+  /** Last upload and what it was made from; reviewing the same form again reuses it instead of uploading again */
+  const uploadRef = useRef<{ key: string; storageId: string; nft: PreparedNft } | null>(null)
+
+  const { algorand, networkName } = useAppNetwork()
+  // Created once so the local stub keeps its uploads for the lifetime of the modal. Its URLs only resolve in
+  // this tab, so it is not offered where a minted asset would outlive the page.
+  const memoryStorage = useMemo(() => memoryNftStorage(), [])
+  const storages = useMemo(
+    () => nftStoragesFor({ pinataJwt, memory: networkName === 'localnet' ? memoryStorage : undefined }),
+    [pinataJwt, networkName, memoryStorage],
+  )
+  const storage = storages.find((s) => s.id === storageId) ?? storages[0]
+  const simulation = useSimulation(algorand.client.algod, activeAddress)
+
+  // Role addresses default to the creator, so refresh them whenever the connected account changes.
+  useEffect(() => {
+    setForm(initialForm(activeAddress ?? ''))
+    setImmutable(false)
+    setStep('edit')
+  }, [activeAddress])
+
+  // Runs after the reset above, so a wallet reconnecting after a shared link was opened keeps the prefill
+  useEffect(() => {
+    if (!open || !prefill || Object.keys(prefill).length === 0) return
+    setMode(prefill.kind ?? 'token')
+    if (prefill.kind === 'nft') {
+      setNftForm({ ...EMPTY_NFT_FORM, name: prefill.name ?? '', unitName: prefill.unit ?? '', decimals: prefill.decimals ?? '0' })
+    } else {
+      const base = initialForm(activeAddress ?? '')
+      setForm({
+        ...base,
+        assetName: prefill.name ?? base.assetName,
+        unitName: prefill.unit ?? base.unitName,
+        total: prefill.total ?? base.total,
+        decimals: prefill.decimals ?? base.decimals,
+      })
+    }
+  }, [open, prefill, activeAddress])
+
+  const { errors, fields: tokenFields } = useMemo(() => {
+    const roles = { ...form, manager: immutable ? '' : form.manager }
+    if (mode === 'token') return validateAsaConfig(roles)
+    return validateAsaConfig(nftAsaConfig(nftForm, roles))
+  }, [form, immutable, mode, nftForm])
+  const nftErrors = useMemo(() => (mode === 'nft' ? validateNftMint(nftForm, !!imageFile) : {}), [mode, nftForm, imageFile])
+  const needsUpload = mode === 'nft' && (nftForm.standard === 'arc3' || !!imageFile)
+  const canReview = !!tokenFields && Object.keys(nftErrors).length === 0 && (!needsUpload || !!storage)
+
+  const fields: AsaCreateFields | undefined =
+    tokenFields && prepared ? { ...tokenFields, url: prepared.url, metadataHash: prepared.metadataHash, note: prepared.note } : tokenFields
 
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const algorand = AlgorandClient.fromConfig({ algodConfig })
+  const update = <K extends keyof AsaConfigForm>(key: K, value: AsaConfigForm[K]) => setForm((prev) => ({ ...prev, [key]: value }))
+
+  const backToEdit = () => {
+    setStep('edit')
+    setTxn(null)
+    setPrepared(null)
+    simulation.reset()
+  }
+
+  const close = () => {
+    if (loading) return
+    backToEdit()
+    onClose()
+  }
+
+  const handleReview = async () => {
+    if (!activeAddress || !tokenFields || !canReview) return
+    setLoading(true)
+    try {
+      let createFields = tokenFields
+      if (mode === 'nft') {
+        const key = JSON.stringify({
+          form: nftForm,
+          storage: storage?.id,
+          image: imageFile && [imageFile.name, imageFile.size, imageFile.lastModified],
+        })
+        let nft = uploadRef.current?.key === key ? uploadRef.current.nft : null
+        if (!nft) {
+          const image = imageFile
+            ? { name: imageFile.name, type: imageFile.type, bytes: new Uint8Array(await imageFile.arrayBuffer()) }
+            : undefined
+          // ARC-69 with an image URL uploads nothing, so it needs no storage
+          nft = await prepareNftMint(nftForm, storage ?? memoryStorage, image)
+          uploadRef.current = { key, storageId: storage?.id ?? '', nft }
+        }
+        setPrepared(nft)
+        createFields = { ...tokenFields, url: nft.url, metadataHash: nft.metadataHash, note: nft.note }
+      }
+      const built = await algorand.createTransaction.assetCreate({ sender: activeAddress, ...createFields })
+      setTxn(built)
+      setStep('review')
+      await simulation.run([built])
+    } catch (e) {
+      reportError(mode === 'nft' ? 'Could not prepare the NFT' : 'Could not prepare the token', e)
+    } finally {
+      setLoading(false)
+    }
+  }
 
   const handleCreate = async () => {
     if (!activeAddress || !transactionSigner) {
@@ -28,67 +170,319 @@ const CreateTokenModal: React.FC<Props> = ({ open, onClose }) => {
       return
     }
 
+    if (!fields || !txn || !simulation.canSign) {
+      backToEdit()
+      return
+    }
+
+    // Switching away from LocalNet after reviewing would otherwise mint an asset pointing at this tab's memory
+    if (mode === 'nft' && needsUpload && !storages.some((s) => s.id === uploadRef.current?.storageId)) {
+      enqueueSnackbar('The files were uploaded to storage this network cannot use; review again', { variant: 'warning' })
+      backToEdit()
+      return
+    }
+
     setLoading(true)
 
     try {
-      enqueueSnackbar('Creating token...', { variant: 'info' })
-
-      const result = await algorand.send.assetCreate({
-        sender: activeAddress,
-        signer: transactionSigner,
-
-        // ASA parameters
-        total: BigInt(supply),
-        decimals: decimals,
-        unitName: unit,
-        assetName: name,
-        note: new Uint8Array(Buffer.from('Created with Token Dashboard')),
-      })
+      enqueueSnackbar(mode === 'nft' ? 'Minting NFT...' : 'Creating token...', { variant: 'info' })
+
+      const result = await sendTracked(
+        algorand.newGroup().addTransaction(txn, transactionSigner),
+        mode === 'nft'
+          ? { kind: 'NFT mint', summary: `${fields.assetName ?? 'Unnamed'} (${nftForm.standard.toUpperCase()})` }
+          : {
+              kind: 'Asset creation',
+              summary: `${fields.assetName ?? 'Unnamed'} (${fields.unitName ?? 'no unit'}), ${formatBaseUnits(fields.total, fields.decimals ?? 0)} total`,
+            },
+      )
 
-      const assetId = result.confirmation?.assetIndex
-      enqueueSnackbar(`Token created! Asset ID: ${assetId}`, { variant: 'success' })
-      
-      console.log("Created asset:", assetId)
+      const assetId = result.confirmations[0]?.assetIndex
+      enqueueSnackbar(`${mode === 'nft' ? 'NFT minted' : 'Token created'}! Asset ID: ${assetId}`, { variant: 'success' })
 
+      setForm(initialForm(activeAddress))
+      setNftForm(EMPTY_NFT_FORM)
+      setImageFile(null)
+      setImmutable(false)
+      uploadRef.current = null
+      backToEdit()
       onClose()
     } catch (e) {
-      console.error(e)
-      enqueueSnackbar('Failed to create token', { variant: 'error' })
+      reportError(mode === 'nft' ? 'Failed to mint NFT' : 'Failed to create token', e)
     }
 
     setLoading(false)
   }
 
+  const fieldError = (key: keyof AsaConfigForm) =>
+    errors[key] && (
+      <label className="label">
+        <span className="label-text-alt text-error">{errors[key]}</span>
+      </label>
+    )
+
+  const byteCounter = (value: string, limit: number) => (
+    <span className="label-text-alt text-gray-400">
+      {utf8Length(value)}/{limit} bytes
+    </span>
+  )
+
+  const reviewRows: [string, React.ReactNode][] = fields
+    ? [
+        ['Name', fields.assetName ?? '—'],
+        ['Unit name', fields.unitName ?? '—'],
+        ['Total supply', `${formatBaseUnits(fields.total, fields.decimals ?? 0)} (${fields.total.toString()} base units)`],
+        ['Decimals', fields.decimals],
+        ['URL', fields.url ?? '—'],
+        ['Metadata hash', fields.metadataHash ? Buffer.from(fields.metadataHash).toString('hex') : '—'],
+        ['Default frozen', fields.defaultFrozen ? 'Yes' : 'No'],
+        ...ASA_ROLES.map((role): [string, React.ReactNode] => {
+          const address = fields[role]?.toString()
+          return [role.charAt(0).toUpperCase() + role.slice(1), address ? ellipseAddress(address) : 'None (permanently disabled)']
+        }),
+        ['Note', mode === 'nft' ? (fields.note ? `ARC-69 metadata (${fields.note.length} bytes)` : '—') : form.note || '—'],
+      ]
+    : []
+
   return (
     <dialog className={`modal ${open ? 'modal-open' : ''}`}>
-      <form method="dialog" className="modal-box">
-        <h3 className="font-bold text-lg mb-2">Create Dash Token</h3>
-
-        <div className="form-control mb-2">
-          <label className="label">Name</label>
-          <input className="input input-bordered" value={name} onChange={(e) => setName(e.target.value)} />
+      <form method="dialog" className="modal-box max-w-2xl">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="font-bold text-lg">
+            {step === 'edit' ? 'Create' : 'Review'} {mode === 'nft' ? 'NFT' : 'Token'}
+          </h3>
+          {step === 'edit' && (
+            <div className="join">
+              {(['token', 'nft'] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  className={`btn btn-sm join-item ${mode === m ? 'btn-active' : ''}`}
+                  onClick={() => setMode(m)}
+                >
+                  {m === 'nft' ? 'NFT' : 'Token'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
-        <div className="form-control mb-2">
-          <label className="label">Unit Name</label>
-          <input className="input input-bordered" value={unit} onChange={(e) => setUnit(e.target.value)} />
-        </div>
+        {step === 'edit' && mode === 'nft' && (
+          <NftMintFields
+            form={nftForm}
+            errors={nftErrors}
+            onChange={setNftForm}
+            imageFile={imageFile}
+            onImageFile={setImageFile}
+            storages={storages}
+            storageId={storage?.id ?? ''}
+            onStorage={setStorageId}
+            pinataJwt={pinataJwt}
+            onPinataJwt={setPinataJwt}
+          />
+        )}
 
-        <div className="form-control mb-4">
-          <label className="label">Total Supply</label>
-          <input className="input input-bordered" type="number" value={supply} onChange={(e) => setSupply(e.target.value)} />
-        </div>
+        {step === 'edit' && mode === 'token' && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+              <div className="form-control mb-2">
+                <label className="label">
+                  <span className="label-text">Name</span>
+                  {byteCounter(form.assetName, ASA_LIMITS.assetName)}
+                </label>
+                <input className="input input-bordered" value={form.assetName} onChange={(e) => update('assetName', e.target.value)} />
+                {fieldError('assetName')}
+              </div>
+
+              <div className="form-control mb-2">
+                <label className="label">
+                  <span className="label-text">Unit Name</span>
+                  {byteCounter(form.unitName, ASA_LIMITS.unitName)}
+                </label>
+                <input className="input input-bordered" value={form.unitName} onChange={(e) => update('unitName', e.target.value)} />
+                {fieldError('unitName')}
+              </div>
+
+              <div className="form-control mb-2">
+                <label className="label">
+                  <span className="label-text">Total Supply</span>
+                </label>
+                <input
+                  className="input input-bordered"
+                  inputMode="decimal"
+                  value={form.total}
+                  onChange={(e) => update('total', e.target.value)}
+                />
+                {fieldError('total')}
+              </div>
+
+              <div className="form-control mb-2">
+                <label className="label">
+                  <span className="label-text">Decimals</span>
+                </label>
+                <input
+                  className="input input-bordered"
+                  type="number"
+                  min={0}
+                  max={ASA_LIMITS.maxDecimals}
+                  value={form.decimals}
+                  onChange={(e) => update('decimals', e.target.value)}
+                />
+                {fieldError('decimals')}
+              </div>
+            </div>
+
+            <div className="form-control mb-2">
+              <label className="label">
+                <span className="label-text">URL</span>
+                {byteCounter(form.url, ASA_LIMITS.url)}
+              </label>
+              <input
+                className="input input-bordered"
+                value={form.url}
+                onChange={(e) => update('url', e.target.value)}
+                placeholder="https://..."
+              />
+              {fieldError('url')}
+            </div>
+
+            <div className="form-control mb-2">
+              <label className="label">
+                <span className="label-text">Metadata Hash</span>
+                <span className="label-text-alt text-gray-400">32 bytes, hex or base64</span>
+              </label>
+              <input
+                className="input input-bordered font-mono text-xs"
+                value={form.metadataHash}
+                onChange={(e) => update('metadataHash', e.target.value)}
+              />
+              {fieldError('metadataHash')}
+            </div>
+          </>
+        )}
+
+        {step === 'edit' && (
+          <>
+            <div className="form-control mb-2">
+              <label className="label cursor-pointer justify-start gap-2">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm"
+                  checked={form.defaultFrozen}
+                  onChange={(e) => update('defaultFrozen', e.target.checked)}
+                />
+                <span className="label-text">Default frozen (holders must be unfrozen before transferring)</span>
+              </label>
+            </div>
+
+            <div className="divider my-1">Role addresses</div>
+            <p className="text-xs text-gray-500 mb-2">Leave a role empty to disable it permanently.</p>
+
+            {ASA_ROLES.map((role) => (
+              <div className="form-control mb-2" key={role}>
+                <label className="label">
+                  <span className="label-text capitalize">{role}</span>
+                  <span className="label-text-alt text-gray-400">{ROLE_HINTS[role]}</span>
+                </label>
+                <input
+                  className="input input-bordered input-sm font-mono text-xs"
+                  value={role === 'manager' && immutable ? '' : form[role]}
+                  disabled={role === 'manager' && immutable}
+                  onChange={(e) => update(role, e.target.value)}
+                  placeholder="No address"
+                />
+                {fieldError(role)}
+              </div>
+            ))}
+
+            <div className="form-control mb-2">
+              <label className="label cursor-pointer justify-start gap-2">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm checkbox-warning"
+                  checked={immutable}
+                  onChange={(e) => setImmutable(e.target.checked)}
+                />
+                <span className="label-text">
+                  Make immutable (no manager: configuration can never change and the asset cannot be destroyed)
+                </span>
+              </label>
+            </div>
+          </>
+        )}
+
+        {step === 'edit' && mode === 'token' && (
+          <div className="form-control mb-4">
+            <label className="label">
+              <span className="label-text">Note</span>
+              {byteCounter(form.note, ASA_LIMITS.note)}
+            </label>
+            <textarea className="textarea textarea-bordered" rows={2} value={form.note} onChange={(e) => update('note', e.target.value)} />
+            {fieldError('note')}
+          </div>
+        )}
+
+        {step === 'review' && (
+          <>
+            <table className="table table-sm mb-4">
+              <tbody>
+                {reviewRows.map(([label, value]) => (
+                  <tr key={label}>
+                    <th className="w-40">{label}</th>
+                    <td className="break-all">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {prepared && (
+              <div className="mb-4">
+                <div className="text-sm font-semibold mb-1">
+                  {nftForm.standard === 'arc3'
+                    ? 'ARC-3 metadata (uploaded, pinned by the metadata hash)'
+                    : 'ARC-69 metadata (creation note)'}
+                </div>
+                <pre className="bg-base-200 rounded p-2 text-xs overflow-x-auto max-h-48">{JSON.stringify(prepared.metadata, null, 2)}</pre>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mb-2">
+              Creating the asset raises your minimum balance by {formatBaseUnits(ASSET_MIN_BALANCE, 6)} ALGO.
+            </p>
+            <SimulationPreview
+              simulation={simulation}
+              describeAsset={() => (fields ? { decimals: fields.decimals ?? 0, unit: fields.unitName ?? '' } : undefined)}
+              onRetry={() => txn && void simulation.run([txn])}
+            />
+          </>
+        )}
 
         <div className="modal-action">
-          <button type="button" className="btn" onClick={onClose}>Close</button>
-
-          <button
-            type="button"
-            className={`btn btn-primary ${loading ? 'btn-disabled' : ''}`}
-            onClick={() => void handleCreate()}
-          >
-            {loading ? <span className="loading loading-spinner" /> : 'Create'}
-          </button>
+          {step === 'edit' ? (
+            <>
+              <button type="button" className="btn" onClick={close}>
+                Close
+              </button>
+              <button
+                type="button"
+                className={`btn btn-primary ${canReview && !loading ? '' : 'btn-disabled'}`}
+                onClick={() => void handleReview()}
+              >
+                {loading ? <span className="loading loading-spinner" /> : 'Review'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button type="button" className={`btn ${loading ? 'btn-disabled' : ''}`} onClick={backToEdit}>
+                Back
+              </button>
+              <button
+                type="button"
+                className={`btn btn-primary ${loading || !simulation.canSign ? 'btn-disabled' : ''}`}
+                onClick={() => void handleCreate()}
+              >
+                {loading ? <span className="loading loading-spinner" /> : mode === 'nft' ? 'Sign & Mint' : 'Sign & Create'}
+              </button>
+            </>
+          )}
         </div>
       </form>
     </dialog>
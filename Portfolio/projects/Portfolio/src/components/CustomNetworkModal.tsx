@@ -0,0 +1,127 @@
+import { useSnackbar } from 'notistack'
+import React, { useState } from 'react'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { customNetworkId } from '../utils/network/networkPresets'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+}
+
+const NETWORK_TYPES = ['localnet', 'testnet', 'mainnet', 'betanet', 'fnet']
+
+const CustomNetworkModal: React.FC<Props> = ({ open, onClose }) => {
+  const { saveCustomNetwork, setNetworkId } = useAppNetwork()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const [label, setLabel] = useState('')
+  const [networkType, setNetworkType] = useState('localnet')
+  const [algodServer, setAlgodServer] = useState('')
+  const [algodPort, setAlgodPort] = useState('')
+  const [algodToken, setAlgodToken] = useState('')
+  const [indexerServer, setIndexerServer] = useState('')
+  const [indexerPort, setIndexerPort] = useState('')
+  const [indexerToken, setIndexerToken] = useState('')
+
+  const handleSave = () => {
+    if (!label.trim() || !algodServer.trim() || !indexerServer.trim()) {
+      enqueueSnackbar('Name, algod server and indexer server are required', { variant: 'warning' })
+      return
+    }
+
+    try {
+      new URL(algodServer)
+      new URL(indexerServer)
+    } catch {
+      enqueueSnackbar('Servers must be full URLs, e.g. https://my-node.example.com', { variant: 'warning' })
+      return
+    }
+
+    const id = customNetworkId(label)
+    saveCustomNetwork({
+      id,
+      label: label.trim(),
+      algod: { server: algodServer.trim(), port: algodPort.trim(), token: algodToken, network: networkType },
+      indexer: { server: indexerServer.trim(), port: indexerPort.trim(), token: indexerToken, network: networkType },
+    })
+    setNetworkId(id)
+    enqueueSnackbar(`Switched to ${label.trim()}`, { variant: 'success' })
+    onClose()
+  }
+
+  return (
+    <dialog className={`modal ${open ? 'modal-open' : ''}`}>
+      <form method="dialog" className="modal-box">
+        <h3 className="font-bold text-lg mb-2">Add Custom Network</h3>
+
+        <div className="form-control mb-2">
+          <label className="label">
+            <span className="label-text">Name</span>
+          </label>
+          <input
+            className="input input-bordered w-full"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. My node"
+          />
+        </div>
+
+        <div className="form-control mb-2">
+          <label className="label">
+            <span className="label-text">Network type</span>
+          </label>
+          <select className="select select-bordered w-full" value={networkType} onChange={(e) => setNetworkType(e.target.value)}>
+            {NETWORK_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          <input
+            className="input input-bordered col-span-2"
+            value={algodServer}
+            onChange={(e) => setAlgodServer(e.target.value)}
+            placeholder="Algod server"
+          />
+          <input className="input input-bordered" value={algodPort} onChange={(e) => setAlgodPort(e.target.value)} placeholder="Port" />
+          <input
+            className="input input-bordered col-span-3"
+            value={algodToken}
+            onChange={(e) => setAlgodToken(e.target.value)}
+            placeholder="Algod token (optional)"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          <input
+            className="input input-bordered col-span-2"
+            value={indexerServer}
+            onChange={(e) => setIndexerServer(e.target.value)}
+            placeholder="Indexer server"
+          />
+          <input className="input input-bordered" value={indexerPort} onChange={(e) => setIndexerPort(e.target.value)} placeholder="Port" />
+          <input
+            className="input input-bordered col-span-3"
+            value={indexerToken}
+            onChange={(e) => setIndexerToken(e.target.value)}
+            placeholder="Indexer token (optional)"
+          />
+        </div>
+
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={onClose}>
+            Close
+          </button>
+          <button type="button" className="btn btn-primary" onClick={handleSave}>
+            Save &amp; Switch
+          </button>
+        </div>
+      </form>
+    </dialog>
+  )
+}
+
+export default CustomNetworkModal
@@ -1,4 +1,5 @@
 import React, { ReactNode } from 'react'
+import { classifyError } from '../utils/errors'
 
 interface ErrorBoundaryProps {
   children: ReactNode
@@ -22,17 +23,24 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
 
   render(): ReactNode {
     if (this.state.hasError) {
+      const { message, action, detail } = classifyError(this.state.error)
       // You can render any custom fallback UI
       return (
         <div className="hero min-h-screen bg-teal-400">
           <div className="hero-content text-center rounded-lg p-6 max-w-md bg-white mx-auto">
             <div className="max-w-md">
               <h1 className="text-4xl">Error occured</h1>
-              <p className="py-6">
-                {this.state.error?.message.includes('Attempt to get default algod configuration')
-                  ? 'Please make sure to set up your environment variables correctly. Create a .env file based on .env.template and fill in the required values. This controls the network and credentials for connections with Algod and Indexer.'
-                  : this.state.error?.message}
-              </p>
+              <p className="pt-6">{message}</p>
+              {action && <p className="pt-2 text-sm">{action}</p>}
+              {detail !== message && (
+                <details className="pt-2 text-xs text-left">
+                  <summary className="cursor-pointer">Details</summary>
+                  <span className="break-all">{detail}</span>
+                </details>
+              )}
+              <button className="btn btn-sm mt-6" onClick={() => window.location.reload()}>
+                Reload
+              </button>
             </div>
           </div>
         </div>
@@ -0,0 +1,43 @@
+import React from 'react'
+import { ExportFormat } from '../utils/exportData'
+
+interface Props {
+  onExport: (format: ExportFormat) => void
+  /** Shows a spinner (with optional progress text) instead of the menu */
+  busy?: boolean
+  progress?: string
+  disabled?: boolean
+}
+
+const ExportMenu: React.FC<Props> = ({ onExport, busy, progress, disabled }) => {
+  if (busy) {
+    return (
+      <span className="btn btn-xs btn-outline btn-disabled gap-1">
+        <span className="loading loading-spinner loading-xs" />
+        {progress}
+      </span>
+    )
+  }
+
+  return (
+    <div className="dropdown dropdown-end">
+      <label tabIndex={0} className={`btn btn-xs btn-outline ${disabled ? 'btn-disabled' : ''}`}>
+        Export
+      </label>
+      <ul tabIndex={0} className="dropdown-content menu menu-xs z-20 bg-base-100 rounded-box shadow w-28">
+        <li>
+          <button type="button" onClick={() => onExport('csv')}>
+            CSV
+          </button>
+        </li>
+        <li>
+          <button type="button" onClick={() => onExport('json')}>
+            JSON
+          </button>
+        </li>
+      </ul>
+    </div>
+  )
+}
+
+export default ExportMenu
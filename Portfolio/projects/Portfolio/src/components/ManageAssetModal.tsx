@@ -0,0 +1,362 @@
+import type { TransactionComposer } from '@algorandfoundation/algokit-utils/types/composer'
+import { useWallet } from '@txnlab/use-wallet-react'
+import algosdk from 'algosdk'
+import { useSnackbar } from 'notistack'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { AssetDetails, AssetHolding } from '../interfaces/portfolio'
+import { getAssetHolding } from '../services/algorandData'
+import { formatBaseUnits, parseAmountToBaseUnits } from '../utils/amounts'
+import { ASA_ROLES, AsaRole } from '../utils/asaParams'
+import { ellipseAddress } from '../utils/ellipseAddress'
+
+interface Props {
+  /** Asset to manage; the modal is closed while this is null */
+  asset: AssetDetails | null
+  /** The connected account's holding of the asset, if opted in */
+  holding?: AssetHolding
+  onClose: () => void
+  onChanged: () => void
+}
+
+type Tab = 'configure' | 'freeze' | 'clawback' | 'destroy'
+
+interface HolderStatus {
+  amount: bigint
+  isFrozen: boolean
+}
+
+const ManageAssetModal: React.FC<Props> = ({ asset, holding, onClose, onChanged }) => {
+  const { activeAddress, transactionSigner } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const { sendTracked } = useActivity()
+  const { algorand, assetCache } = useAppNetwork()
+
+  const [tab, setTab] = useState<Tab>('configure')
+  const [roles, setRoles] = useState<Record<AsaRole, string>>({ manager: '', reserve: '', freeze: '', clawback: '' })
+  const [holder, setHolder] = useState('')
+  const [holderStatus, setHolderStatus] = useState<HolderStatus | null>(null)
+  const [clawbackReceiver, setClawbackReceiver] = useState('')
+  const [clawbackAmount, setClawbackAmount] = useState('')
+  /** Creator balance read from algod, for when the connected account is not the creator */
+  const [fetchedCreatorBalance, setFetchedCreatorBalance] = useState<bigint | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const isManager = !!asset && asset.manager === activeAddress
+  const canFreeze = !!asset && asset.freeze === activeAddress
+  const canClawback = !!asset && asset.clawback === activeAddress
+
+  const tabs: { id: Tab; label: string; enabled: boolean }[] = [
+    { id: 'configure', label: 'Reconfigure', enabled: isManager },
+    { id: 'freeze', label: 'Freeze', enabled: canFreeze },
+    { id: 'clawback', label: 'Clawback', enabled: canClawback },
+    { id: 'destroy', label: 'Destroy', enabled: isManager },
+  ]
+
+  // The holding is live when the creator is connected, so it is read on every render rather than copied into state.
+  const creatorBalance = asset && asset.creator === activeAddress && holding ? holding.amount : fetchedCreatorBalance
+
+  // Live refresh replaces `asset` on every new round; only a different asset or account resets what is being edited.
+  const assetRef = useRef(asset)
+  assetRef.current = asset
+  const selectedId = asset?.assetId
+
+  useEffect(() => {
+    const asset = assetRef.current
+    if (!asset) return
+    setRoles({ manager: asset.manager ?? '', reserve: asset.reserve ?? '', freeze: asset.freeze ?? '', clawback: asset.clawback ?? '' })
+    setHolder('')
+    setHolderStatus(null)
+    setClawbackReceiver(activeAddress ?? '')
+    setClawbackAmount('')
+    setFetchedCreatorBalance(null)
+    setTab(asset.manager === activeAddress ? 'configure' : asset.freeze === activeAddress ? 'freeze' : 'clawback')
+  }, [selectedId, activeAddress])
+
+  // Destroying requires the whole supply back in the creator account, so check its balance when that tab opens.
+  useEffect(() => {
+    if (!asset || tab !== 'destroy' || creatorBalance != null) return
+    getAssetHolding(algorand.client.algod, asset.creator, asset.assetId)
+      .then((status) => setFetchedCreatorBalance(status?.amount ?? 0n))
+      .catch(() => setFetchedCreatorBalance(0n))
+  }, [asset, tab, creatorBalance, algorand])
+
+  // Look up the holder's balance and frozen flag once a valid address is entered.
+  useEffect(() => {
+    setHolderStatus(null)
+    if (selectedId == null || !algosdk.isValidAddress(holder)) return
+    let cancelled = false
+    getAssetHolding(algorand.client.algod, holder, selectedId)
+      .then((status) => {
+        if (!cancelled) setHolderStatus(status)
+      })
+      .catch(() => {
+        if (!cancelled) setHolderStatus(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId, holder, algorand])
+
+  const roleErrors = useMemo(() => {
+    const errors: Partial<Record<AsaRole, string>> = {}
+    ASA_ROLES.forEach((role) => {
+      if (roles[role] && !algosdk.isValidAddress(roles[role])) errors[role] = 'Not a valid Algorand address'
+    })
+    return errors
+  }, [roles])
+
+  const clawbackValue = useMemo<{ value: bigint | null; error: string | null }>(() => {
+    if (!asset || !clawbackAmount) return { value: null, error: null }
+    try {
+      const value = parseAmountToBaseUnits(clawbackAmount, asset.decimals)
+      if (value <= 0n) return { value: null, error: 'Amount must be greater than zero' }
+      if (holderStatus && value > holderStatus.amount) return { value: null, error: 'Exceeds the holder balance' }
+      return { value, error: null }
+    } catch (e) {
+      return { value: null, error: (e as Error).message }
+    }
+  }, [asset, clawbackAmount, holderStatus])
+
+  if (!asset) return null
+
+  const close = () => {
+    if (!loading) onClose()
+  }
+
+  const run = async (label: string, kind: string, build: (sender: string, signer: algosdk.TransactionSigner) => TransactionComposer) => {
+    if (!activeAddress || !transactionSigner) {
+      enqueueSnackbar('Please connect your wallet first', { variant: 'warning' })
+      return
+    }
+
+    setLoading(true)
+    try {
+      enqueueSnackbar(`${label}...`, { variant: 'info' })
+      const result = await sendTracked(build(activeAddress, transactionSigner), {
+        kind,
+        summary: `${asset.name ?? 'Asset'} #${asset.assetId}`,
+      })
+      enqueueSnackbar(`${label} confirmed: ${result.txIds[0]}`, { variant: 'success' })
+      assetCache.invalidate(asset.assetId)
+      onChanged()
+      onClose()
+    } catch (e) {
+      reportError(`${label} failed`, e)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const assetId = BigInt(asset.assetId)
+  const clearsManager = !!asset.manager && !roles.manager
+  const holderValid = algosdk.isValidAddress(holder)
+  const canDestroy = creatorBalance != null && creatorBalance === asset.total
+
+  return (
+    <dialog className="modal modal-open">
+      <form method="dialog" className="modal-box max-w-2xl">
+        <h3 className="font-bold text-lg">
+          Manage {asset.name ?? 'Asset'} <span className="text-sm text-gray-400">#{asset.assetId}</span>
+        </h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Supply {formatBaseUnits(asset.total, asset.decimals)} {asset.unitName} · creator {ellipseAddress(asset.creator)}
+        </p>
+
+        <div role="tablist" className="tabs tabs-boxed mb-4">
+          {tabs.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              role="tab"
+              className={`tab ${tab === t.id ? 'tab-active' : ''} ${t.enabled ? '' : 'tab-disabled'}`}
+              disabled={!t.enabled}
+              onClick={() => setTab(t.id)}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'configure' && (
+          <div>
+            <p className="text-xs text-gray-500 mb-2">Clear a field to remove the role. Removed roles can never be set again.</p>
+            {ASA_ROLES.map((role) => (
+              <div className="form-control mb-2" key={role}>
+                <label className="label">
+                  <span className="label-text capitalize">{role}</span>
+                  {!asset[role] && <span className="label-text-alt text-gray-400">Permanently cleared</span>}
+                </label>
+                <input
+                  className="input input-bordered input-sm font-mono text-xs"
+                  value={roles[role]}
+                  disabled={!asset[role]}
+                  onChange={(e) => setRoles((prev) => ({ ...prev, [role]: e.target.value.trim() }))}
+                  placeholder="No address"
+                />
+                {roleErrors[role] && <span className="text-xs text-error mt-1">{roleErrors[role]}</span>}
+              </div>
+            ))}
+            {clearsManager && (
+              <div className="alert alert-warning text-sm mt-2">
+                Clearing the manager makes the asset immutable and impossible to destroy.
+              </div>
+            )}
+          </div>
+        )}
+
+        {(tab === 'freeze' || tab === 'clawback') && (
+          <div className="form-control mb-2">
+            <label className="label">
+              <span className="label-text">Holder address</span>
+              {holderStatus && (
+                <span className="label-text-alt">
+                  Balance {formatBaseUnits(holderStatus.amount, asset.decimals)} · {holderStatus.isFrozen ? 'frozen' : 'not frozen'}
+                </span>
+              )}
+            </label>
+            <input
+              className="input input-bordered input-sm font-mono text-xs"
+              value={holder}
+              onChange={(e) => setHolder(e.target.value.trim())}
+              placeholder="Account holding the asset"
+            />
+            {holder && !holderValid && <span className="text-xs text-error mt-1">Not a valid Algorand address</span>}
+            {holderValid && !holderStatus && <span className="text-xs text-gray-400 mt-1">Account is not opted in to this asset</span>}
+          </div>
+        )}
+
+        {tab === 'clawback' && (
+          <>
+            <div className="form-control mb-2">
+              <label className="label">
+                <span className="label-text">Send clawed back funds to</span>
+              </label>
+              <input
+                className="input input-bordered input-sm font-mono text-xs"
+                value={clawbackReceiver}
+                onChange={(e) => setClawbackReceiver(e.target.value.trim())}
+              />
+            </div>
+            <div className="form-control mb-2">
+              <label className="label">
+                <span className="label-text">Amount{asset.unitName ? ` (${asset.unitName})` : ''}</span>
+              </label>
+              <input
+                className="input input-bordered input-sm"
+                inputMode="decimal"
+                value={clawbackAmount}
+                onChange={(e) => setClawbackAmount(e.target.value)}
+              />
+              {clawbackValue.error && <span className="text-xs text-error mt-1">{clawbackValue.error}</span>}
+            </div>
+          </>
+        )}
+
+        {tab === 'destroy' && (
+          <div className="text-sm">
+            {creatorBalance == null ? (
+              <span className="loading loading-spinner loading-sm" />
+            ) : canDestroy ? (
+              <div className="alert alert-warning">Destroying removes the asset permanently. This cannot be undone.</div>
+            ) : (
+              <div className="alert">
+                The creator holds {formatBaseUnits(creatorBalance, asset.decimals)} of {formatBaseUnits(asset.total, asset.decimals)}. An
+                asset can only be destroyed once the creator holds the entire supply.
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={close}>
+            Close
+          </button>
+
+          {tab === 'configure' && (
+            <button
+              type="button"
+              className={`btn btn-primary ${loading || !isManager || Object.keys(roleErrors).length > 0 ? 'btn-disabled' : ''}`}
+              onClick={() =>
+                void run('Reconfiguring asset', 'Asset reconfiguration', (sender, signer) =>
+                  algorand.newGroup().addAssetConfig({
+                    sender,
+                    signer,
+                    assetId,
+                    manager: roles.manager || undefined,
+                    reserve: roles.reserve || undefined,
+                    freeze: roles.freeze || undefined,
+                    clawback: roles.clawback || undefined,
+                  }),
+                )
+              }
+            >
+              {loading ? <span className="loading loading-spinner" /> : 'Update Roles'}
+            </button>
+          )}
+
+          {tab === 'freeze' && (
+            <button
+              type="button"
+              className={`btn btn-primary ${loading || !canFreeze || !holderStatus ? 'btn-disabled' : ''}`}
+              onClick={() =>
+                void run(
+                  holderStatus?.isFrozen ? 'Unfreezing holder' : 'Freezing holder',
+                  holderStatus?.isFrozen ? 'Unfreeze' : 'Freeze',
+                  (sender, signer) =>
+                    algorand.newGroup().addAssetFreeze({ sender, signer, assetId, account: holder, frozen: !holderStatus?.isFrozen }),
+                )
+              }
+            >
+              {loading ? <span className="loading loading-spinner" /> : holderStatus?.isFrozen ? 'Unfreeze' : 'Freeze'}
+            </button>
+          )}
+
+          {tab === 'clawback' && (
+            <button
+              type="button"
+              className={`btn btn-primary ${
+                loading || !canClawback || !holderStatus || clawbackValue.value == null || !algosdk.isValidAddress(clawbackReceiver)
+                  ? 'btn-disabled'
+                  : ''
+              }`}
+              onClick={() =>
+                void run('Clawing back', 'Clawback', (sender, signer) =>
+                  algorand.newGroup().addAssetTransfer({
+                    sender,
+                    signer,
+                    assetId,
+                    amount: clawbackValue.value ?? 0n,
+                    receiver: clawbackReceiver,
+                    clawbackTarget: holder,
+                  }),
+                )
+              }
+            >
+              {loading ? <span className="loading loading-spinner" /> : 'Clawback'}
+            </button>
+          )}
+
+          {tab === 'destroy' && (
+            <button
+              type="button"
+              className={`btn btn-error ${loading || !isManager || !canDestroy ? 'btn-disabled' : ''}`}
+              onClick={() =>
+                void run('Destroying asset', 'Asset destruction', (sender, signer) =>
+                  algorand.newGroup().addAssetDestroy({ sender, signer, assetId }),
+                )
+              }
+            >
+              {loading ? <span className="loading loading-spinner" /> : 'Destroy Asset'}
+            </button>
+          )}
+        </div>
+      </form>
+    </dialog>
+  )
+}
+
+export default ManageAssetModal
@@ -0,0 +1,90 @@
+import React, { useState } from 'react'
+import { AssetDetails, AssetHolding } from '../interfaces/portfolio'
+import { formatBaseUnits } from '../utils/amounts'
+import { managedRoles } from '../utils/asaParams'
+import AssetLink from './AssetLink'
+import ManageAssetModal from './ManageAssetModal'
+
+interface Props {
+  address: string
+  /** Hides the manage actions, e.g. for watched accounts that cannot sign */
+  readOnly?: boolean
+  assets: AssetDetails[]
+  holdings: AssetHolding[]
+  onChanged: () => void
+}
+
+const ManagedAssets: React.FC<Props> = ({ address, readOnly, assets, holdings, onChanged }) => {
+  const [selected, setSelected] = useState<AssetDetails | null>(null)
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center justify-between">
+        <span>{readOnly ? 'Managed Assets' : 'Assets I Manage'}</span>
+        <span className="text-sm text-gray-500">{assets.length} assets</span>
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Asset</th>
+              <th className="hidden md:table-cell">Asset ID</th>
+              <th>Roles</th>
+              <th className="text-right">Total Supply</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {assets.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-center text-gray-400">
+                  No assets where this account is creator, manager, freeze or clawback.
+                </td>
+              </tr>
+            )}
+
+            {assets.map((asset) => (
+              <tr key={asset.assetId}>
+                <td>
+                  <AssetLink assetId={asset.assetId} className="font-semibold no-underline">
+                    {asset.name ?? 'Unknown'}
+                  </AssetLink>
+                  <div className="text-xs text-gray-400">{asset.unitName}</div>
+                </td>
+                <td className="hidden md:table-cell">
+                  <AssetLink assetId={asset.assetId}>{asset.assetId}</AssetLink>
+                </td>
+                <td>
+                  <div className="flex flex-wrap gap-1">
+                    {managedRoles(asset, address).map((role) => (
+                      <span key={role} className="badge badge-outline badge-sm capitalize">
+                        {role}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="text-right font-mono">{formatBaseUnits(asset.total, asset.decimals)}</td>
+                <td className="text-right">
+                  {!readOnly && (
+                    <button className="btn btn-xs btn-outline" onClick={() => setSelected(asset)}>
+                      Manage
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <ManageAssetModal
+        asset={selected}
+        holding={holdings.find((h) => h.assetId === selected?.assetId)}
+        onClose={() => setSelected(null)}
+        onChanged={onChanged}
+      />
+    </div>
+  )
+}
+
+export default ManagedAssets
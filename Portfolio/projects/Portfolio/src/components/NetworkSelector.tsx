@@ -0,0 +1,48 @@
+import React, { useState } from 'react'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import CustomNetworkModal from './CustomNetworkModal'
+
+const ADD_CUSTOM = '__add-custom__'
+
+const NetworkSelector: React.FC = () => {
+  const { network, networks, setNetworkId, removeCustomNetwork } = useAppNetwork()
+  const [openCustomModal, setOpenCustomModal] = useState(false)
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        className="select select-bordered select-xs"
+        value={network.id}
+        title="Network"
+        onChange={(e) => {
+          if (e.target.value === ADD_CUSTOM) setOpenCustomModal(true)
+          else setNetworkId(e.target.value)
+        }}
+      >
+        {networks.map((n) => (
+          <option key={n.id} value={n.id}>
+            {n.label}
+          </option>
+        ))}
+        <option value={ADD_CUSTOM}>Custom endpoint…</option>
+      </select>
+
+      {network.custom && (
+        <button
+          className="btn btn-ghost btn-xs"
+          title="Remove this custom network"
+          onClick={() => {
+            removeCustomNetwork(network.id)
+            setNetworkId(networks[0].id)
+          }}
+        >
+          ✕
+        </button>
+      )}
+
+      <CustomNetworkModal open={openCustomModal} onClose={() => setOpenCustomModal(false)} />
+    </div>
+  )
+}
+
+export default NetworkSelector
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { AssetDetails, AssetHolding } from '../interfaces/portfolio'
+import { createNftMetadataResolver, networkNftMetadataSource, NftMetadataResolver } from '../services/nftMetadata'
+import { formatBaseUnits } from '../utils/amounts'
+import { createLimiter } from '../utils/concurrency'
+import { isNft, NftMetadata } from '../utils/nft'
+
+interface Props {
+  holdings: AssetHolding[]
+  /** Overrides where metadata is loaded from; defaults to IPFS/HTTP and the network's indexer */
+  resolver?: NftMetadataResolver
+}
+
+/** Metadata links are often slow IPFS gateways; a few at a time keeps the first images coming in quickly. */
+const METADATA_CONCURRENCY = 4
+
+const NftImage: React.FC<{ src?: string; alt: string; fallback: string; className?: string }> = ({ src, alt, fallback, className }) => {
+  const [broken, setBroken] = useState(false)
+  useEffect(() => setBroken(false), [src])
+
+  if (!src || broken) {
+    return <div className={`bg-slate-100 flex items-center justify-center text-slate-500 font-semibold ${className ?? ''}`}>{fallback}</div>
+  }
+  return (
+    <img src={src} alt={alt} loading="lazy" className={`object-cover bg-slate-100 ${className ?? ''}`} onError={() => setBroken(true)} />
+  )
+}
+
+/** Held NFTs as image cards, with metadata resolved from ARC-3, ARC-19 and ARC-69. */
+const NftGallery: React.FC<Props> = ({ holdings, resolver }) => {
+  const { algorand, assetCache, networkName } = useAppNetwork()
+  const [items, setItems] = useState<AssetDetails[] | null>(null)
+  const [metadata, setMetadata] = useState<Map<number, NftMetadata>>(new Map())
+  const [selected, setSelected] = useState<AssetDetails | null>(null)
+
+  const defaultResolver = useMemo(() => createNftMetadataResolver(networkNftMetadataSource(algorand.client.indexer)), [algorand])
+  const activeResolver = resolver ?? defaultResolver
+
+  const heldIds = holdings
+    .filter((h) => h.amount > 0n)
+    .map((h) => h.assetId)
+    .join(',')
+
+  useEffect(() => {
+    let cancelled = false
+    setItems(null)
+    setMetadata(new Map())
+    const ids = heldIds ? heldIds.split(',').map(Number) : []
+
+    assetCache.getMany(ids).then((details) => {
+      if (cancelled) return
+      const nfts = ids.flatMap((id) => {
+        const asset = details.get(id)
+        return asset && isNft(asset) ? [asset] : []
+      })
+      setItems(nfts)
+
+      const limit = createLimiter(METADATA_CONCURRENCY)
+      nfts.forEach((asset) =>
+        limit(() => activeResolver.resolve(asset)).then(
+          (resolved) => !cancelled && setMetadata((prev) => new Map(prev).set(asset.assetId, resolved)),
+        ),
+      )
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [heldIds, assetCache, activeResolver])
+
+  if (!items) {
+    return (
+      <div className="flex justify-center py-6">
+        <span className="loading loading-spinner" />
+      </div>
+    )
+  }
+
+  if (items.length === 0) {
+    return <div className="text-center text-gray-400 py-6">No NFTs in this account.</div>
+  }
+
+  const selectedMeta = selected ? metadata.get(selected.assetId) : undefined
+  const fallbackLabel = (asset: AssetDetails) => (asset.unitName ?? 'NFT').slice(0, 4)
+  const fraction = (asset: AssetDetails) => {
+    const amount = holdings.find((h) => h.assetId === asset.assetId)?.amount ?? 0n
+    return asset.decimals > 0 ? `${formatBaseUnits(amount, asset.decimals)} of 1` : null
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+        {items.map((asset) => {
+          const meta = metadata.get(asset.assetId)
+          return (
+            <button
+              key={asset.assetId}
+              type="button"
+              className="card bg-base-100 shadow-sm text-left hover:shadow-md transition-shadow"
+              onClick={() => setSelected(asset)}
+            >
+              <figure className="aspect-square">
+                {meta ? (
+                  <NftImage
+                    src={meta.image}
+                    alt={meta.name ?? asset.name ?? ''}
+                    fallback={fallbackLabel(asset)}
+                    className="w-full h-full"
+                  />
+                ) : (
+                  <div className="w-full h-full bg-slate-100 flex items-center justify-center">
+                    <span className="loading loading-spinner loading-sm" />
+                  </div>
+                )}
+              </figure>
+              <div className="p-2">
+                <div className="font-semibold text-sm truncate" title={meta?.error}>
+                  {meta?.error && <span className="text-warning mr-1">⚠</span>}
+                  {meta?.name ?? asset.name ?? 'Unnamed'}
+                </div>
+                <div className="text-xs text-gray-400 flex justify-between">
+                  <span>#{asset.assetId}</span>
+                  <span>{fraction(asset)}</span>
+                </div>
+              </div>
+            </button>
+          )
+        })}
+      </div>
+
+      {selected && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <NftImage
+                src={selectedMeta?.image}
+                alt={selectedMeta?.name ?? selected.name ?? ''}
+                fallback={fallbackLabel(selected)}
+                className="w-full sm:w-64 aspect-square rounded-lg shrink-0"
+              />
+              <div className="min-w-0 flex-1">
+                <h3 className="font-bold text-lg">{selectedMeta?.name ?? selected.name ?? 'Unnamed'}</h3>
+                <div className="text-xs text-gray-400 mb-2 flex flex-wrap gap-1 items-center">
+                  <a
+                    className="link"
+                    target="_blank"
+                    rel="noreferrer"
+                    href={`https://lora.algokit.io/${networkName}/asset/${selected.assetId}`}
+                  >
+                    Asset #{selected.assetId}
+                  </a>
+                  {selectedMeta?.standards.map((s) => (
+                    <span key={s} className="badge badge-outline badge-xs uppercase">
+                      {s}
+                    </span>
+                  ))}
+                  {fraction(selected) && <span>· {fraction(selected)}</span>}
+                </div>
+                {selectedMeta?.error && <div className="alert alert-warning text-xs py-2 mb-2">{selectedMeta.error}</div>}
+                {selectedMeta?.description && <p className="text-sm mb-2 whitespace-pre-wrap">{selectedMeta.description}</p>}
+                {selectedMeta && Object.keys(selectedMeta.properties).length > 0 && (
+                  <table className="table table-xs">
+                    <tbody>
+                      {Object.entries(selectedMeta.properties).map(([key, value]) => (
+                        <tr key={key}>
+                          <th>{key}</th>
+                          <td className="break-all">{value}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+            <div className="modal-action">
+              <button type="button" className="btn" onClick={() => setSelected(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </dialog>
+      )}
+    </>
+  )
+}
+
+export default NftGallery
@@ -0,0 +1,258 @@
+import React from 'react'
+import { NftStorage } from '../services/nftStorage'
+import { ASA_LIMITS, utf8Length } from '../utils/asaParams'
+import { NftMintForm, NftMintStandard } from '../utils/nftMint'
+
+interface Props {
+  form: NftMintForm
+  errors: Partial<Record<keyof NftMintForm, string>>
+  onChange: (form: NftMintForm) => void
+  imageFile: File | null
+  onImageFile: (file: File | null) => void
+  storages: NftStorage[]
+  storageId: string
+  onStorage: (id: string) => void
+  pinataJwt: string
+  onPinataJwt: (jwt: string) => void
+}
+
+const STANDARD_HINTS: Record<NftMintStandard, string> = {
+  arc3: 'Metadata JSON is uploaded and pinned by hash; the asset URL points at it.',
+  arc69: 'Metadata lives in the creation note and can be updated by the manager; the asset URL points at the media.',
+}
+
+/** NFT-specific inputs of the create modal: standard, media, descriptive metadata and properties. */
+const NftMintFields: React.FC<Props> = ({
+  form,
+  errors,
+  onChange,
+  imageFile,
+  onImageFile,
+  storages,
+  storageId,
+  onStorage,
+  pinataJwt,
+  onPinataJwt,
+}) => {
+  const update = <K extends keyof NftMintForm>(key: K, value: NftMintForm[K]) => onChange({ ...form, [key]: value })
+
+  const updateProperty = (index: number, key: 'key' | 'value', value: string) =>
+    update(
+      'properties',
+      form.properties.map((p, i) => (i === index ? { ...p, [key]: value } : p)),
+    )
+
+  const fieldError = (key: keyof NftMintForm) =>
+    errors[key] && (
+      <label className="label">
+        <span className="label-text-alt text-error">{errors[key]}</span>
+      </label>
+    )
+
+  const needsUpload = form.standard === 'arc3' || !!imageFile
+  const storage = storages.find((s) => s.id === storageId)
+
+  return (
+    <>
+      <div className="form-control mb-2">
+        <label className="label">
+          <span className="label-text">Standard</span>
+        </label>
+        <div className="join">
+          {(['arc3', 'arc69'] as const).map((standard) => (
+            <button
+              key={standard}
+              type="button"
+              className={`btn btn-sm join-item ${form.standard === standard ? 'btn-active' : ''}`}
+              onClick={() => onChange({ ...form, standard, decimals: standard === 'arc69' ? '0' : form.decimals })}
+            >
+              {standard.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <label className="label">
+          <span className="label-text-alt text-gray-500">{STANDARD_HINTS[form.standard]}</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+        <div className="form-control mb-2">
+          <label className="label">
+            <span className="label-text">Name</span>
+            <span className="label-text-alt text-gray-400">
+              {utf8Length(form.name)}/{ASA_LIMITS.assetName} bytes
+            </span>
+          </label>
+          <input className="input input-bordered" value={form.name} onChange={(e) => update('name', e.target.value)} />
+          {fieldError('name')}
+        </div>
+
+        <div className="form-control mb-2">
+          <label className="label">
+            <span className="label-text">Unit Name</span>
+            <span className="label-text-alt text-gray-400">
+              {utf8Length(form.unitName)}/{ASA_LIMITS.unitName} bytes
+            </span>
+          </label>
+          <input className="input input-bordered" value={form.unitName} onChange={(e) => update('unitName', e.target.value)} />
+          {fieldError('unitName')}
+        </div>
+      </div>
+
+      <div className="form-control mb-2">
+        <label className="label">
+          <span className="label-text">Description</span>
+        </label>
+        <textarea
+          className="textarea textarea-bordered"
+          rows={2}
+          value={form.description}
+          onChange={(e) => update('description', e.target.value)}
+        />
+      </div>
+
+      <div className="form-control mb-2">
+        <label className="label">
+          <span className="label-text">Image</span>
+          <span className="label-text-alt text-gray-400">Link it, or choose a file to upload</span>
+        </label>
+        <input
+          className="input input-bordered mb-1"
+          value={imageFile ? '' : form.imageUrl}
+          disabled={!!imageFile}
+          onChange={(e) => update('imageUrl', e.target.value)}
+          placeholder={imageFile ? imageFile.name : 'ipfs://... or https://...'}
+        />
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            accept="image/*,video/*"
+            className="file-input file-input-bordered file-input-sm flex-1"
+            onChange={(e) => {
+              const file = e.target.files?.[0] ?? null
+              onImageFile(file)
+              if (file?.type) update('imageMimetype', file.type)
+            }}
+          />
+          <input
+            className="input input-bordered input-sm w-36"
+            value={form.imageMimetype}
+            onChange={(e) => update('imageMimetype', e.target.value)}
+            placeholder="image/png"
+          />
+        </div>
+        {fieldError('imageUrl')}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+        <div className="form-control mb-2">
+          <label className="label">
+            <span className="label-text">External URL</span>
+          </label>
+          <input
+            className="input input-bordered"
+            value={form.externalUrl}
+            onChange={(e) => update('externalUrl', e.target.value)}
+            placeholder="https://..."
+          />
+          {fieldError('externalUrl')}
+        </div>
+
+        <div className="form-control mb-2">
+          <label className="label">
+            <span className="label-text">Decimals</span>
+            <span className="label-text-alt text-gray-400">
+              {form.standard === 'arc3' ? '> 0 splits one NFT into fractions' : 'Always 0'}
+            </span>
+          </label>
+          <input
+            className="input input-bordered"
+            type="number"
+            min={0}
+            max={form.standard === 'arc3' ? ASA_LIMITS.maxDecimals : 0}
+            disabled={form.standard !== 'arc3'}
+            value={form.decimals}
+            onChange={(e) => update('decimals', e.target.value)}
+          />
+          {fieldError('decimals')}
+        </div>
+      </div>
+
+      <div className="form-control mb-2">
+        <label className="label">
+          <span className="label-text">Properties</span>
+          <button type="button" className="btn btn-xs" onClick={() => update('properties', [...form.properties, { key: '', value: '' }])}>
+            Add property
+          </button>
+        </label>
+        {form.properties.map((property, index) => (
+          <div className="flex gap-2 mb-1" key={index}>
+            <input
+              className="input input-bordered input-sm flex-1"
+              value={property.key}
+              onChange={(e) => updateProperty(index, 'key', e.target.value)}
+              placeholder="Name"
+            />
+            <input
+              className="input input-bordered input-sm flex-1"
+              value={property.value}
+              onChange={(e) => updateProperty(index, 'value', e.target.value)}
+              placeholder="Value"
+            />
+            <button
+              type="button"
+              className="btn btn-sm btn-ghost"
+              onClick={() =>
+                update(
+                  'properties',
+                  form.properties.filter((_, i) => i !== index),
+                )
+              }
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {fieldError('properties')}
+      </div>
+
+      {needsUpload && (
+        <div className="form-control mb-2">
+          <label className="label">
+            <span className="label-text">Upload to</span>
+          </label>
+          {storages.length > 0 && (
+            <select className="select select-bordered select-sm mb-1" value={storageId} onChange={(e) => onStorage(e.target.value)}>
+              {storages.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="password"
+            autoComplete="off"
+            className="input input-bordered input-sm font-mono text-xs"
+            value={pinataJwt}
+            onChange={(e) => onPinataJwt(e.target.value)}
+            placeholder="Pinata JWT with pinning rights"
+          />
+          <label className="label">
+            {storage?.id === 'memory' ? (
+              <span className="label-text-alt text-warning">
+                Uploads stay in this tab only; wallets and explorers will not be able to load them. Enter a Pinata JWT to pin to IPFS.
+              </span>
+            ) : (
+              <span className="label-text-alt text-gray-400">
+                {storage ? 'Kept in this tab only and sent to Pinata with the upload.' : 'Enter a Pinata JWT to upload to IPFS.'}
+              </span>
+            )}
+          </label>
+        </div>
+      )}
+    </>
+  )
+}
+
+export default NftMintFields
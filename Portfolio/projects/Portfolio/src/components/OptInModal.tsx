@@ -0,0 +1,191 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import React, { useState } from 'react'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { AssetDetails, AssetHolding } from '../interfaces/portfolio'
+import { getAssetDetails, searchAssetsByName } from '../services/algorandData'
+import { formatBaseUnits } from '../utils/amounts'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { ASSET_MIN_BALANCE } from '../utils/minBalance'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+  onOptedIn: () => void
+  /** Current holdings, used to flag assets the account is already opted in to */
+  holdings: AssetHolding[]
+}
+
+const OptInModal: React.FC<Props> = ({ open, onClose, onOptedIn, holdings }) => {
+  const { activeAddress, transactionSigner } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const { sendTracked } = useActivity()
+  const { algorand } = useAppNetwork()
+
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<AssetDetails[]>([])
+  const [selected, setSelected] = useState<AssetDetails | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const reset = () => {
+    setQuery('')
+    setResults([])
+    setSelected(null)
+  }
+
+  const close = () => {
+    if (loading) return
+    reset()
+    onClose()
+  }
+
+  const handleSearch = async () => {
+    const q = query.trim()
+    if (!q) return
+
+    setSearching(true)
+    setSelected(null)
+    setResults([])
+    try {
+      if (/^\d+$/.test(q)) {
+        const asset = await getAssetDetails(algorand.client.algod, BigInt(q))
+        setResults([asset])
+        setSelected(asset)
+      } else {
+        const found = await searchAssetsByName(algorand.client.indexer, q)
+        setResults(found)
+        if (found.length === 1) setSelected(found[0])
+        if (found.length === 0) enqueueSnackbar(`No assets named "${q}" found`, { variant: 'info' })
+      }
+    } catch (e) {
+      reportError('Asset lookup failed', e)
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const handleOptIn = async () => {
+    if (!activeAddress || !transactionSigner || !selected) {
+      enqueueSnackbar('Please connect your wallet first', { variant: 'warning' })
+      return
+    }
+
+    setLoading(true)
+    try {
+      enqueueSnackbar(`Opting in to ${selected.name ?? selected.assetId}...`, { variant: 'info' })
+      const result = await sendTracked(
+        algorand.newGroup().addAssetOptIn({ sender: activeAddress, signer: transactionSigner, assetId: BigInt(selected.assetId) }),
+        { kind: 'Opt-in', summary: `${selected.name ?? 'Asset'} #${selected.assetId}` },
+      )
+      enqueueSnackbar(`Opted in: ${result.txIds[0]}`, { variant: 'success' })
+      reset()
+      onOptedIn()
+      onClose()
+    } catch (e) {
+      reportError('Opt-in failed', e)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const alreadyOptedIn = !!selected && holdings.some((h) => h.assetId === selected.assetId)
+
+  return (
+    <dialog className={`modal ${open ? 'modal-open' : ''}`}>
+      <form method="dialog" className="modal-box" onSubmit={(e) => e.preventDefault()}>
+        <h3 className="font-bold text-lg mb-2">Add Asset</h3>
+
+        <div className="join w-full mb-2">
+          <input
+            className="input input-bordered join-item w-full"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') void handleSearch()
+            }}
+            placeholder="Asset ID or name"
+          />
+          <button type="button" className={`btn join-item ${searching ? 'btn-disabled' : ''}`} onClick={() => void handleSearch()}>
+            {searching ? <span className="loading loading-spinner loading-xs" /> : 'Search'}
+          </button>
+        </div>
+
+        {results.length > 1 && (
+          <ul className="menu bg-base-200 rounded-box mb-2 max-h-48 overflow-y-auto flex-nowrap">
+            {results.map((a) => (
+              <li key={a.assetId}>
+                <button type="button" className={selected?.assetId === a.assetId ? 'active' : ''} onClick={() => setSelected(a)}>
+                  {a.name ?? 'Unnamed'}{' '}
+                  <span className="text-xs text-gray-400">
+                    {a.unitName} · #{a.assetId}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selected && (
+          <table className="table table-sm mb-2">
+            <tbody>
+              <tr>
+                <th>Name</th>
+                <td>
+                  {selected.name ?? '—'} ({selected.unitName ?? '—'})
+                </td>
+              </tr>
+              <tr>
+                <th>Asset ID</th>
+                <td>{selected.assetId}</td>
+              </tr>
+              <tr>
+                <th>Total supply</th>
+                <td>{formatBaseUnits(selected.total, selected.decimals)}</td>
+              </tr>
+              <tr>
+                <th>Decimals</th>
+                <td>{selected.decimals}</td>
+              </tr>
+              <tr>
+                <th>Creator</th>
+                <td className="font-mono text-xs">{ellipseAddress(selected.creator)}</td>
+              </tr>
+              <tr>
+                <th>Min balance increase</th>
+                <td>{formatBaseUnits(ASSET_MIN_BALANCE, 6)} ALGO</td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+
+        {selected && (selected.defaultFrozen || selected.clawback) && (
+          <div className="alert alert-warning text-sm mb-2">
+            {selected.defaultFrozen && 'Holdings start frozen until the freeze account unfreezes them. '}
+            {selected.clawback && 'The clawback account can revoke this asset from any holder.'}
+          </div>
+        )}
+
+        {alreadyOptedIn && <div className="alert text-sm mb-2">This account is already opted in to this asset.</div>}
+
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={close}>
+            Close
+          </button>
+          <button
+            type="button"
+            className={`btn btn-primary ${loading || !selected || alreadyOptedIn ? 'btn-disabled' : ''}`}
+            onClick={() => void handleOptIn()}
+          >
+            {loading ? <span className="loading loading-spinner" /> : 'Opt In'}
+          </button>
+        </div>
+      </form>
+    </dialog>
+  )
+}
+
+export default OptInModal
@@ -0,0 +1,152 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import algosdk from 'algosdk'
+import { useSnackbar } from 'notistack'
+import React, { useEffect, useState } from 'react'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { AssetHolding } from '../interfaces/portfolio'
+import { formatBaseUnits } from '../utils/amounts'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { ASSET_MIN_BALANCE } from '../utils/minBalance'
+import AddressInput from './AddressInput'
+
+interface Props {
+  /** Holding to remove; the modal is closed while this is null */
+  holding: AssetHolding | null
+  onClose: () => void
+  onOptedOut: () => void
+}
+
+const OptOutModal: React.FC<Props> = ({ holding, onClose, onOptedOut }) => {
+  const { activeAddress, transactionSigner } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const { sendTracked } = useActivity()
+  const { algorand, assetCache } = useAppNetwork()
+
+  const [creator, setCreator] = useState<string | null>(null)
+  const [closeToCreator, setCloseToCreator] = useState(true)
+  const [closeTo, setCloseTo] = useState('')
+  const [confirmed, setConfirmed] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setCreator(null)
+    setCloseToCreator(true)
+    setCloseTo('')
+    setConfirmed(false)
+    if (!holding) return
+    assetCache
+      .get(holding.assetId)
+      .then((asset) => setCreator(asset?.creator ?? null))
+      .catch(() => setCreator(null))
+  }, [holding, assetCache])
+
+  if (!holding) return null
+
+  const hasBalance = holding.amount > 0n
+  const receiver = closeToCreator ? creator : closeTo.trim()
+  const receiverValid = !!receiver && algosdk.isValidAddress(receiver)
+  const canSubmit = receiverValid && (!hasBalance || confirmed) && !loading
+
+  const close = () => {
+    if (!loading) onClose()
+  }
+
+  const handleOptOut = async () => {
+    if (!activeAddress || !transactionSigner || !receiver) {
+      enqueueSnackbar('Please connect your wallet first', { variant: 'warning' })
+      return
+    }
+
+    setLoading(true)
+    try {
+      enqueueSnackbar(`Removing ${holding.name ?? holding.assetId}...`, { variant: 'info' })
+      // A zero-amount transfer with closeAssetTo moves any remaining balance and removes the holding.
+      const result = await sendTracked(
+        algorand.newGroup().addAssetTransfer({
+          sender: activeAddress,
+          signer: transactionSigner,
+          assetId: BigInt(holding.assetId),
+          amount: 0n,
+          receiver,
+          closeAssetTo: receiver,
+        }),
+        { kind: 'Opt-out', summary: `${holding.name ?? 'Asset'} #${holding.assetId}, remainder to ${ellipseAddress(receiver)}` },
+      )
+      enqueueSnackbar(`Asset removed: ${result.txIds[0]}`, { variant: 'success' })
+      onOptedOut()
+      onClose()
+    } catch (e) {
+      reportError('Opt-out failed', e)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <dialog className="modal modal-open">
+      <form method="dialog" className="modal-box">
+        <h3 className="font-bold text-lg mb-2">Remove {holding.name ?? 'Asset'}</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Opting out closes your holding of asset #{holding.assetId} and releases {formatBaseUnits(ASSET_MIN_BALANCE, 6)} ALGO of minimum
+          balance.
+        </p>
+
+        <div className="form-control mb-2">
+          <label className="label cursor-pointer justify-start gap-2">
+            <input type="radio" className="radio radio-sm" checked={closeToCreator} onChange={() => setCloseToCreator(true)} />
+            <span className="label-text">
+              Close to the asset creator {creator ? <span className="font-mono text-xs">({ellipseAddress(creator)})</span> : '(loading...)'}
+            </span>
+          </label>
+          <label className="label cursor-pointer justify-start gap-2">
+            <input type="radio" className="radio radio-sm" checked={!closeToCreator} onChange={() => setCloseToCreator(false)} />
+            <span className="label-text">Close to another address</span>
+          </label>
+          {!closeToCreator && (
+            <>
+              <AddressInput
+                className="input-sm"
+                value={closeTo}
+                onChange={setCloseTo}
+                placeholder="Receiver address or name (must be opted in)"
+              />
+              {closeTo && !receiverValid && <span className="text-xs text-error mt-1">Not a valid Algorand address</span>}
+            </>
+          )}
+        </div>
+
+        {hasBalance && (
+          <div className="alert alert-warning text-sm mb-2 flex flex-col items-start">
+            <span>
+              You still hold {formatBaseUnits(holding.amount, holding.decimals ?? 0)} {holding.unitName}. The entire balance will be sent to
+              the close-out address.
+            </span>
+            <label className="label cursor-pointer justify-start gap-2 p-0">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={confirmed}
+                onChange={(e) => setConfirmed(e.target.checked)}
+              />
+              <span className="label-text">I understand</span>
+            </label>
+          </div>
+        )}
+
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={close}>
+            Close
+          </button>
+          <button type="button" className={`btn btn-error ${canSubmit ? '' : 'btn-disabled'}`} onClick={() => void handleOptOut()}>
+            {loading ? <span className="loading loading-spinner" /> : 'Remove Asset'}
+          </button>
+        </div>
+      </form>
+    </dialog>
+  )
+}
+
+export default OptOutModal
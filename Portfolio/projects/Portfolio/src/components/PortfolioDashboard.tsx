@@ -1,257 +1,250 @@
 // src/components/PortfolioDashboard.tsx
-import { AlgorandClient } from '@algorandfoundation/algokit-utils'
 import { useWallet } from '@txnlab/use-wallet-react'
 import { useSnackbar } from 'notistack'
-import React, { useEffect, useMemo, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useRouter } from '../contexts/RouterContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { usePrices } from '../hooks/usePrices'
+import { LiveSource, useRoundWatcher } from '../hooks/useRoundWatcher'
+import { AssetDetails, AssetHolding, WatchedAccount } from '../interfaces/portfolio'
+import { AccountSummary, fetchPortfolio } from '../services/algorandData'
+import { ALGO_ASSET_ID } from '../services/prices'
+import { formatBaseUnits } from '../utils/amounts'
+import { ALGO_BALANCE_KEY, changedBalances } from '../utils/balanceChanges'
 import { ellipseAddress } from '../utils/ellipseAddress'
-import {
-  getAlgodConfigFromViteEnvironment,
-  getIndexerConfigFromViteEnvironment,
-} from '../utils/network/getAlgoClientConfigs'
-import CreateTokenModal from './CreateTokenModal'
+import { describeError } from '../utils/errors'
+import { downloadFile, exportFilename, holdingExportRows, serializeRows } from '../utils/exportData'
+import { spendableBalance } from '../utils/minBalance'
+import { readJson, storageKey, writeJson } from '../utils/storage'
+import { formatFiat, formatShare, valuePortfolio } from '../utils/valuation'
+import { loadWatchList, saveWatchList } from '../utils/watchList'
+import ActivityCenter from './ActivityCenter'
+import AddressBookModal from './AddressBookModal'
+import AggregatedPortfolio from './AggregatedPortfolio'
+import AlgoBalanceCard from './AlgoBalanceCard'
+import AssetLink from './AssetLink'
+import BalanceHistoryChart from './BalanceHistoryChart'
+import BatchSendModal from './BatchSendModal'
+import ExportMenu from './ExportMenu'
+import ManagedAssets from './ManagedAssets'
+import NftGallery from './NftGallery'
+import OptInModal from './OptInModal'
+import OptOutModal from './OptOutModal'
+import PortfolioValueCard from './PortfolioValueCard'
 import SendAssetModal from './SendAssetModal'
+import TransactionHistory from './TransactionHistory'
+import WatchListModal from './WatchListModal'
 
-interface AssetHolding {
-  assetId: number
-  amount: number
-  decimals?: number
-  name?: string
-  unitName?: string
+interface LiveSettings {
+  enabled: boolean
+  source: LiveSource
 }
 
-interface Txn {
-  id: string
-  type: string
-  assetId?: number
-  amount?: number
-  decimals?: number
-  round?: number
-  timestamp?: number
-}
+const LIVE_SETTINGS_KEY = storageKey('live-updates')
+const LIVE_SOURCES: { value: LiveSource; label: string }[] = [
+  { value: 'block', label: 'Every block' },
+  { value: 10_000, label: 'Every 10 s' },
+  { value: 30_000, label: 'Every 30 s' },
+  { value: 60_000, label: 'Every minute' },
+]
+/** How long changed balances stay highlighted */
+const HIGHLIGHT_MS = 4000
+/** Selection value for the combined view of every connected and watched account */
+const ALL_ACCOUNTS = 'all'
 
 interface Props {
-  onOpenCreateModal?: () => void
+  /** Bumped by flows outside the dashboard, such as the ALGO payment form, after they change the account's balances */
+  reloadKey?: number
 }
 
-const PortfolioDashboard: React.FC<Props> = ({ onOpenCreateModal }) => {
-  const { activeAddress } = useWallet()
+const PortfolioDashboard: React.FC<Props> = ({ reloadKey = 0 }) => {
+  const { activeAddress, wallets } = useWallet()
+  const { route, page, navigate, back } = useRouter()
   const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+
+  const [watchList, setWatchList] = useState<WatchedAccount[]>(loadWatchList)
+  const [viewed, setViewed] = useState<string | null>(null)
+  const [openWatchListModal, setOpenWatchListModal] = useState(false)
+  const [openAddressBookModal, setOpenAddressBookModal] = useState(false)
+  const [openActivity, setOpenActivity] = useState(false)
+  const [assetView, setAssetView] = useState<'table' | 'gallery'>('table')
 
-  const [algoBalance, setAlgoBalance] = useState<number | null>(null)
+  const [account, setAccount] = useState<AccountSummary | null>(null)
   const [assets, setAssets] = useState<AssetHolding[]>([])
-  const [txns, setTxns] = useState<Txn[]>([])
+  const [managedAssets, setManagedAssets] = useState<AssetDetails[]>([])
+  const [historyKey, setHistoryKey] = useState(0)
+  /** Bumped instead of historyKey when a live refresh found changed balances, so the history only adds new rows */
+  const [liveKey, setLiveKey] = useState(0)
   const [loading, setLoading] = useState(false)
-  const [openSendAssetModal, setOpenSendAssetModal] = useState(false)
-  const [openCreateTokenModalLocal, setOpenCreateTokenModalLocal] = useState(false)
-
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const indexerConfig = getIndexerConfigFromViteEnvironment()
-
-  const algorand = useMemo(
-    () =>
-      AlgorandClient.fromConfig({
-        algodConfig,
-        indexerConfig,
-      }),
-    [algodConfig, indexerConfig],
-  )
+  const [openBatchSendModal, setOpenBatchSendModal] = useState(false)
+  const [openOptInModal, setOpenOptInModal] = useState(false)
+  const [optOutHolding, setOptOutHolding] = useState<AssetHolding | null>(null)
+  const [live, setLive] = useState<LiveSettings>(() => readJson<LiveSettings>(LIVE_SETTINGS_KEY, { enabled: false, source: 'block' }))
+  const [changedKeys, setChangedKeys] = useState<Set<string>>(new Set())
+  /** Why the last live refresh failed; live refreshes are silent, so this is shown next to the Live toggle */
+  const [liveError, setLiveError] = useState<string | null>(null)
+
+  // Last loaded balances, compared against on each refresh to find what changed
+  const balancesRef = useRef<{ amount: bigint; holdings: AssetHolding[] } | null>(null)
+  const refreshingRef = useRef(false)
+  // Bumped by every load and by account or network changes, so a slower earlier response is dropped
+  const loadRef = useRef(0)
+
+  const { algorand, assetCache, networkName, network } = useAppNetwork()
+  const { pendingCount } = useActivity()
+
+  const connectedAccounts: WatchedAccount[] = (wallets ?? [])
+    .filter((w) => w.isConnected)
+    .flatMap((w) => w.accounts.map((a) => ({ address: a.address, label: a.name || ellipseAddress(a.address) })))
+    .filter((a, i, all) => all.findIndex((other) => other.address === a.address) === i)
+  const allAccounts = [...connectedAccounts, ...watchList.filter((w) => !connectedAccounts.some((c) => c.address === w.address))]
+
+  /** Account opened by URL; it does not need to be connected or watched */
+  const linkedAddress = page.name === 'account' ? page.address : null
+  // Fall back to the wallet's account when the viewed one was removed from the watch list or disconnected
+  const selection =
+    linkedAddress ??
+    (viewed && (viewed === ALL_ACCOUNTS || allAccounts.some((a) => a.address === viewed))
+      ? viewed
+      : (activeAddress ?? allAccounts[0]?.address ?? null))
+  /** Account shown on the dashboard; null in the combined view */
+  const address = selection === ALL_ACCOUNTS ? null : selection
+  /** Accounts other than the wallet's active one cannot sign, so their actions are hidden */
+  const readOnly = address !== activeAddress
+
+  // The send modal signs with the wallet's account and checks that account's balances, so a send link opened
+  // over a read-only account is refused rather than offered with the viewed account's holdings. Without an
+  // active account the wallet may still be reconnecting, so the link waits for it.
+  useEffect(() => {
+    if (route.name !== 'send' || !readOnly || !activeAddress) return
+    enqueueSnackbar('Switch to your wallet account to send from it', { variant: 'warning' })
+    navigate(page, { replace: true })
+  }, [route.name, readOnly, activeAddress])
+
+  const select = (value: string) => {
+    setViewed(value)
+    navigate(value === ALL_ACCOUNTS ? { name: 'dashboard' } : { name: 'account', address: value })
+  }
 
-  const networkName = useMemo(
-    () => (algodConfig.network === '' ? 'localnet' : algodConfig.network.toLowerCase()),
-    [algodConfig.network],
-  )
+  const updateWatchList = (accounts: WatchedAccount[]) => {
+    setWatchList(accounts)
+    saveWatchList(accounts)
+  }
 
-  const loadPortfolio = async () => {
-    if (!activeAddress) return
-    setLoading(true)
+  /** Loads the portfolio; silent refreshes (live updates) skip the spinner and only touch state when a balance changed. */
+  const loadPortfolio = async (silent = false) => {
+    if (!address || (silent && refreshingRef.current)) return
+    const request = ++loadRef.current
+    const isStale = () => request !== loadRef.current
+    refreshingRef.current = true
+    if (!silent) setLoading(true)
+    let reloadHistory = !silent
 
     try {
-      // ==========================
-      // 1) Load account info (ALGO + raw ASA holdings)
-      // ==========================
-      const acct = await algorand.client.algod.accountInformation(activeAddress).do()
-
-      const algoRaw = typeof acct.amount === 'bigint' ? Number(acct.amount) : acct.amount ?? 0
-      setAlgoBalance(algoRaw / 1e6)
-
-      // Debug: inspect raw assets structure returned by algod
-      console.debug('account.assets:', acct.assets)
-
-      // Be permissive about the shape of asset entries. Some responses may use
-      // different key casing or string IDs — coerce to Number and skip invalid.
-      const rawAssets: AssetHolding[] = (acct.assets ?? [])
-        .map((a: any) => {
-          const assetIdRaw = a['asset-id'] ?? a.assetId ?? a['assetId']
-          const assetId = typeof assetIdRaw === 'number' ? assetIdRaw : Number(assetIdRaw)
-          if (!Number.isFinite(assetId)) return null
-
-          const amountRaw = a.amount ?? a['amount'] ?? 0
-          const amount = typeof amountRaw === 'bigint' ? Number(amountRaw) : Number(amountRaw)
-
-          return {
-            assetId,
-            amount,
-          }
-        })
-        .filter((x): x is AssetHolding => x != null)
-
-      // ==========================
-      // 2) Fetch ASA metadata
-      // ==========================
-      const enriched: AssetHolding[] = await Promise.all(
-        rawAssets.map(async (asset) => {
-          try {
-            const res = await algorand.client.algod.getAssetByID(asset.assetId).do()
-            const params = res.params as Record<string, any>
-
-            // Support multiple possible metadata fields returned by different SDKs
-            const name = params.name ?? params['asset-name'] ?? params.assetName ?? 'Unknown'
-            const unitName = params['unit-name'] ?? params.unitName ?? params.unit ?? 'N/A'
-            const decimals = Number.isFinite(Number(params.decimals)) ? Number(params.decimals) : 0
-
-            return {
-              ...asset,
-              decimals,
-              name,
-              unitName,
-            }
-          } catch (err) {
-            console.error('ASA metadata fetch failed for:', asset.assetId, err)
-            return {
-              ...asset,
-              decimals: 0,
-              name: 'Unknown',
-              unitName: 'N/A',
-            }
-          }
-        }),
-      )
-
-      setAssets(enriched)
-
-      // Build a helper map for tx decoding (assetId -> decimals)
-      const assetMetaById = new Map<number, AssetHolding>()
-      enriched.forEach((a) => {
-        assetMetaById.set(a.assetId, a)
-      })
-
-      // ==========================
-      // 3) Fetch recent transactions
-      // ==========================
-      try {
-        const txRes = await algorand.client.indexer
-          .searchForTransactions()
-          .address(activeAddress)
-          .limit(20)
-          .do()
-
-        const mapped: Txn[] =
-          txRes.transactions?.map((t: any, index: number) => {
-            // tolerant parsing of indexer transaction fields
-            const txTypeRaw = (t['tx-type'] ?? t.type ?? t['transaction-type'] ?? '').toString().toLowerCase()
-
-            // Normalize to friendly types for UI
-            let txType = 'Unknown'
-            if (txTypeRaw.includes('pay') || txTypeRaw.includes('payment')) txType = 'ALGO'
-            else if (txTypeRaw.includes('axfer') || txTypeRaw.includes('asset')) txType = 'ASA'
-            else if (txTypeRaw) txType = txTypeRaw.toUpperCase()
-
-            let amount: number | bigint = 0
-            let decimals = 0
-            let assetId: number | undefined = undefined
-
-            // try to extract common payment/asset-transfer shapes
-            const pay = t['payment-transaction'] ?? t.payment ?? null
-            const axfer = t['asset-transfer-transaction'] ?? t['asset-transfer'] ?? t.asset_transfer_transaction ?? null
-
-            if (txType === 'pay' || pay) {
-              // ALGO payment
-              amount = (pay?.amount ?? t.amount ?? 0)
-              decimals = 6
-            } else if (txType === 'axfer' || axfer) {
-              // ASA transfer
-              assetId = (axfer?.['asset-id'] ?? axfer?.['assetId'] ?? axfer?.assetId)
-              amount = axfer?.amount ?? t.amount ?? 0
-              const meta = assetMetaById.get(Number(assetId ?? -1))
-              if (meta && typeof meta.decimals === 'number') {
-                decimals = meta.decimals
-              }
-            }
-
-            if (typeof amount === 'bigint') amount = Number(amount)
-            if (typeof amount === 'string') amount = Number(amount)
-
-            // Tx ID may not be unique in inner txs; add index/round for React key safety
-            const id = t.id ?? t.txid ?? `${t.group ?? 'grp'}-${t['confirmed-round'] ?? t.round ?? 0}-${index}`
-
-            const roundRaw = t['confirmed-round'] ?? t.confirmedRound ?? t.round
-            const round = Number.isFinite(Number(roundRaw)) ? Number(roundRaw) : undefined
-
-            return {
-              id,
-              type: txType,
-              assetId: assetId ? Number(assetId) : undefined,
-              amount: typeof amount === 'number' ? amount : Number(amount),
-              decimals,
-              round,
-              timestamp: t['round-time'] ?? t.roundTime ?? t['round-time'],
-            }
-          }) ?? []
-
-        setTxns(mapped)
-      } catch (e) {
-        console.error(e)
-        enqueueSnackbar('Failed to load recent transactions from indexer', {
-          variant: 'warning',
-        })
-      }
-    } catch (e: any) {
-      console.error('ALGOD ERROR:', e)
-      enqueueSnackbar(`Failed to load portfolio data: ${e?.message ?? e}`, {
-        variant: 'error',
-      })
+      const snapshot = await fetchPortfolio(algorand.client.algod, assetCache, address)
+      if (isStale()) return
+      const balances = { amount: snapshot.account.amount, holdings: snapshot.holdings }
+      const changed = balancesRef.current ? changedBalances(balancesRef.current, balances) : new Set<string>()
+      balancesRef.current = balances
+      setLiveError(null)
+      if (silent && changed.size === 0) return
+
+      setAccount(snapshot.account)
+      setAssets(snapshot.holdings)
+      setManagedAssets(snapshot.managedAssets)
+      if (changed.size > 0) setChangedKeys(changed)
+      reloadHistory = true
+    } catch (e) {
+      if (isStale()) return
+      if (silent) setLiveError(describeError('Live refresh failed', e))
+      else reportError('Failed to load portfolio data', e)
     } finally {
-      setLoading(false)
+      if (!isStale()) {
+        refreshingRef.current = false
+        if (!silent) setLoading(false)
+        // Reload the transaction history once holdings (and so ASA decimals) are known; live updates only add new rows
+        if (reloadHistory) (silent ? setLiveKey : setHistoryKey)((k) => k + 1)
+      }
     }
   }
 
+  const updateLive = (settings: LiveSettings) => {
+    setLive(settings)
+    writeJson(LIVE_SETTINGS_KEY, settings)
+  }
+
+  const watcherError = useRoundWatcher(algorand.client.algod, live.enabled && !!address, live.source, () => void loadPortfolio(true))
+  const liveProblem = live.enabled ? (watcherError ?? liveError) : null
+
   useEffect(() => {
-    if (activeAddress) {
+    if (changedKeys.size === 0) return
+    const timer = setTimeout(() => setChangedKeys(new Set()), HIGHLIGHT_MS)
+    return () => clearTimeout(timer)
+  }, [changedKeys])
+
+  useEffect(() => {
+    loadRef.current++
+    refreshingRef.current = false
+    setLoading(false)
+    balancesRef.current = null
+    setChangedKeys(new Set())
+    setLiveError(null)
+    setAccount(null)
+    setAssets([])
+    setManagedAssets([])
+    if (address) {
       void loadPortfolio()
-    } else {
-      setAlgoBalance(null)
-      setAssets([])
-      setTxns([])
     }
-  }, [activeAddress])
+  }, [address, algorand])
+
+  useEffect(() => {
+    if (reloadKey > 0) void loadPortfolio()
+  }, [reloadKey])
 
-  if (!activeAddress) return null
+  const validAssetsCount = useMemo(() => assets.filter((a) => a.amount > 0n).length, [assets])
 
-  const validAssetsCount = useMemo(
-    () => assets.filter((a) => Number.isFinite(a.assetId) && (a.amount ?? 0) > 0).length,
-    [assets],
+  const priceIds = useMemo(() => [ALGO_ASSET_ID, ...assets.map((a) => a.assetId)], [assets])
+  const prices = usePrices(networkName, priceIds)
+  const valuation = useMemo(
+    () => (account ? valuePortfolio(account.amount, assets, prices.prices) : null),
+    [account, assets, prices.prices],
+  )
+  const showValues = !!valuation && !prices.loading && !prices.error && !!prices.provider
+
+  const watchListModal = (
+    <WatchListModal
+      open={openWatchListModal}
+      onClose={() => setOpenWatchListModal(false)}
+      watched={watchList}
+      connected={connectedAccounts.map((a) => a.address)}
+      onChange={updateWatchList}
+    />
   )
 
+  if (!selection) {
+    return (
+      <div className="mt-4">
+        <button className="btn btn-sm btn-ghost" onClick={() => setOpenWatchListModal(true)}>
+          Or watch an address without connecting
+        </button>
+        {watchListModal}
+      </div>
+    )
+  }
+
   const copyAddress = async () => {
     try {
-      await navigator.clipboard.writeText(activeAddress ?? '')
+      await navigator.clipboard.writeText(address ?? '')
       enqueueSnackbar('Address copied to clipboard', { variant: 'success' })
     } catch (e) {
       enqueueSnackbar('Failed to copy address', { variant: 'warning' })
     }
   }
 
-  const formatTxnAmount = (t: Txn) => {
-    if (t.amount == null) return '—'
-    const dec = t.decimals ?? 0
-    return (t.amount / Math.pow(10, dec)).toLocaleString()
-  }
-
-  const formatAssetAmount = (asset: AssetHolding) => {
-    const dec = asset.decimals ?? 0
-    const amount = dec > 0 ? asset.amount / Math.pow(10, dec) : asset.amount
-    return amount.toLocaleString(undefined, { maximumFractionDigits: Math.max(0, dec) })
-  }
+  const formatAssetAmount = (asset: AssetHolding) => formatBaseUnits(asset.amount, asset.decimals ?? 0)
 
   return (
     <div className="mt-8 text-left">
@@ -259,173 +252,291 @@ const PortfolioDashboard: React.FC<Props> = ({ onOpenCreateModal }) => {
       <div className="flex justify-between items-center mb-4">
         <div className="flex items-center gap-4">
           <div className="w-12 h-12 rounded-full bg-gradient-to-br from-teal-300 to-teal-600 flex items-center justify-center text-white font-bold">
-            {ellipseAddress(activeAddress).slice(0, 2).toUpperCase()}
+            {address ? ellipseAddress(address).slice(0, 2).toUpperCase() : 'ALL'}
           </div>
 
           <div>
             <div className="text-sm text-gray-500 flex items-center gap-2">
-              <span>Connected</span>
-              <span className="text-xs badge badge-ghost">{networkName}</span>
-            </div>
-
-            <div className="flex items-center gap-2">
-              <a
-                className="font-mono font-semibold text-sm"
-                target="_blank"
-                rel="noreferrer"
-                href={`https://lora.algokit.io/${networkName}/account/${activeAddress}/`}
-              >
-                {ellipseAddress(activeAddress)}
-              </a>
-              <button className="btn btn-ghost btn-xs" onClick={copyAddress} title="Copy address">
-                Copy
+              <select className="select select-ghost select-xs -ml-2" value={selection} onChange={(e) => select(e.target.value)}>
+                {connectedAccounts.map((a) => (
+                  <option key={a.address} value={a.address}>
+                    {a.label} {a.address === activeAddress ? '(active)' : '(connected)'}
+                  </option>
+                ))}
+                {allAccounts.slice(connectedAccounts.length).map((a) => (
+                  <option key={a.address} value={a.address}>
+                    {a.label} (watched)
+                  </option>
+                ))}
+                {linkedAddress && !allAccounts.some((a) => a.address === linkedAddress) && (
+                  <option value={linkedAddress}>{ellipseAddress(linkedAddress)} (linked)</option>
+                )}
+                {allAccounts.length > 1 && <option value={ALL_ACCOUNTS}>All accounts</option>}
+              </select>
+              <button className="btn btn-ghost btn-xs" onClick={() => setOpenWatchListModal(true)}>
+                Watch list
+              </button>
+              <button className="btn btn-ghost btn-xs" onClick={() => setOpenAddressBookModal(true)}>
+                Address book
               </button>
+              {activeAddress && (
+                <button className="btn btn-ghost btn-xs" onClick={() => setOpenActivity(true)}>
+                  Activity
+                  {pendingCount > 0 && <span className="badge badge-warning badge-xs">{pendingCount}</span>}
+                </button>
+              )}
+              {address && readOnly && <span className="text-xs badge badge-outline">Read-only</span>}
+              <span className="text-xs badge badge-ghost">{network.label}</span>
             </div>
-            <div className="text-xs text-gray-400 mt-1">Network: {networkName}</div>
+
+            {address && (
+              <div className="flex items-center gap-2">
+                <a
+                  className="font-mono font-semibold text-sm"
+                  target="_blank"
+                  rel="noreferrer"
+                  href={`https://lora.algokit.io/${networkName}/account/${address}/`}
+                >
+                  {ellipseAddress(address)}
+                </a>
+                <button className="btn btn-ghost btn-xs" onClick={copyAddress} title="Copy address">
+                  Copy
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
-        <button
-          className={`btn btn-sm btn-outline ${loading ? 'btn-disabled' : ''}`}
-          onClick={() => void loadPortfolio()}
-        >
-          {loading ? <span className="loading loading-spinner loading-xs" /> : 'Refresh'}
-        </button>
+        <div className={`flex items-center gap-2 ${address ? '' : 'hidden'}`}>
+          <label className="label cursor-pointer gap-1 p-0" title="Update balances automatically as new rounds arrive">
+            <span className="label-text text-xs">Live</span>
+            <input
+              type="checkbox"
+              className="toggle toggle-xs toggle-success"
+              checked={live.enabled}
+              onChange={(e) => updateLive({ ...live, enabled: e.target.checked })}
+            />
+          </label>
+          {live.enabled && (
+            <select
+              className="select select-bordered select-xs"
+              value={String(live.source)}
+              onChange={(e) => updateLive({ ...live, source: e.target.value === 'block' ? 'block' : Number(e.target.value) })}
+            >
+              {LIVE_SOURCES.map((o) => (
+                <option key={o.value} value={String(o.value)}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {liveProblem && (
+            <span className="badge badge-warning badge-sm" title={liveProblem}>
+              Retrying
+            </span>
+          )}
+          <button className={`btn btn-sm btn-outline ${loading ? 'btn-disabled' : ''}`} onClick={() => void loadPortfolio()}>
+            {loading ? <span className="loading loading-spinner loading-xs" /> : 'Refresh'}
+          </button>
+        </div>
       </div>
 
-      {/* BALANCE CARDS */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-        <div className="card bg-teal-50 shadow-sm">
-          <div className="card-body">
-            <h2 className="card-title text-sm text-gray-500">ALGO Balance</h2>
-            <p className="text-2xl font-bold">{algoBalance?.toLocaleString() ?? '—'} ALGO</p>
-          </div>
-        </div>
+      {!address ? (
+        <AggregatedPortfolio accounts={allAccounts} onSelect={select} />
+      ) : (
+        <>
+          {/* BALANCE CARDS */}
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 mb-6">
+            <AlgoBalanceCard account={account} highlighted={changedKeys.has(ALGO_BALANCE_KEY)} />
+
+            <PortfolioValueCard valuation={valuation} prices={prices} />
+
+            <div className="card bg-teal-50 shadow-sm">
+              <div className="card-body">
+                <h2 className="card-title text-sm text-gray-500">Number of Assets</h2>
+                <p className="text-2xl font-bold">{validAssetsCount}</p>
+              </div>
+            </div>
 
-        <div className="card bg-teal-50 shadow-sm">
-          <div className="card-body">
-            <h2 className="card-title text-sm text-gray-500">Number of Assets</h2>
-            <p className="text-2xl font-bold">{validAssetsCount}</p>
+            {readOnly ? (
+              <div className="card bg-teal-50 shadow-sm">
+                <div className="card-body">
+                  <h2 className="card-title text-sm text-gray-500">Watching</h2>
+                  <p className="text-sm text-gray-500">
+                    This account is shown read-only. Connect its wallet and make it active to send or manage tokens.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="card bg-teal-50 shadow-sm">
+                <div className="card-body flex flex-col gap-2 overflow-hidden">
+                  <h2 className="card-title text-sm text-gray-500">Token Actions</h2>
+                  <div className="flex flex-wrap items-center justify-end gap-2">
+                    <button className="btn btn-sm btn-primary" onClick={() => navigate({ name: 'send', prefill: {} })}>
+                      Send ASA Token
+                    </button>
+
+                    <button className="btn btn-sm btn-outline" onClick={() => setOpenBatchSendModal(true)}>
+                      Batch Send
+                    </button>
+
+                    <button className="btn btn-sm btn-outline" onClick={() => navigate({ name: 'create', prefill: {} })}>
+                      Create Token
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
-        </div>
 
-        <div className="card bg-teal-50 shadow-sm">
-          <div className="card-body flex flex-col gap-2 overflow-hidden">
-            <h2 className="card-title text-sm text-gray-500">Token Actions</h2>
-            <div className="flex flex-wrap items-center justify-end gap-2">
-              <button
-                className="btn btn-sm btn-primary"
-                onClick={() => setOpenSendAssetModal(true)}
-              >
-                Send ASA Token
-              </button>
-
-              <button
-                className="btn btn-sm btn-outline"
-                onClick={() => {
-                  if (onOpenCreateModal) onOpenCreateModal()
-                  else setOpenCreateTokenModalLocal(true)
-                }}
-              >
-                Create Token
-              </button>
+          {/* ASA TABLE */}
+          <div className="mb-6">
+            <h3 className="text-lg font-semibold mb-2 flex items-center justify-between">
+              <span>Assets in Wallet</span>
+              <span className="flex items-center gap-2">
+                <span className="text-sm text-gray-500">{validAssetsCount} assets</span>
+                <div className="join">
+                  {(['table', 'gallery'] as const).map((view) => (
+                    <button
+                      key={view}
+                      className={`btn btn-xs join-item ${assetView === view ? 'btn-active' : ''}`}
+                      onClick={() => setAssetView(view)}
+                    >
+                      {view === 'table' ? 'Table' : 'NFTs'}
+                    </button>
+                  ))}
+                </div>
+                <ExportMenu
+                  disabled={assets.length === 0}
+                  onExport={(format) =>
+                    downloadFile(exportFilename('holdings', address, format), serializeRows(holdingExportRows(assets), format), format)
+                  }
+                />
+                {!readOnly && (
+                  <button className="btn btn-xs btn-outline" onClick={() => setOpenOptInModal(true)}>
+                    Add asset
+                  </button>
+                )}
+              </span>
+            </h3>
+            {assetView === 'gallery' && <NftGallery holdings={assets} />}
+            <div className={`overflow-x-auto ${assetView === 'table' ? '' : 'hidden'}`}>
+              <table className="table table-zebra table-sm">
+                <thead>
+                  <tr>
+                    <th>Asset</th>
+                    <th className="hidden md:table-cell">Asset ID</th>
+                    <th className="hidden sm:table-cell">Unit</th>
+                    <th className="text-right">Amount</th>
+                    <th className="text-right">Value</th>
+                    <th className="text-right hidden sm:table-cell">Share</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {assets.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="text-center text-gray-400">
+                        No ASAs found.
+                      </td>
+                    </tr>
+                  )}
+
+                  {assets.map((asset, index) => {
+                    const value = valuation?.assets.get(asset.assetId)
+                    return (
+                      <tr
+                        key={asset.assetId ?? index}
+                        className={`transition-colors ${changedKeys.has(String(asset.assetId)) ? '!bg-warning/30' : ''}`}
+                      >
+                        <td className="flex items-center gap-3">
+                          <div className="w-8 h-8 rounded-md bg-slate-100 flex items-center justify-center text-sm font-semibold text-slate-700">
+                            {(asset.unitName ?? 'T').slice(0, 3)}
+                          </div>
+                          <div>
+                            <AssetLink assetId={asset.assetId} className="font-semibold no-underline">
+                              {asset.name ?? 'Unknown'}
+                            </AssetLink>
+                            <div className="text-xs text-gray-400">{asset.unitName}</div>
+                          </div>
+                        </td>
+                        <td className="hidden md:table-cell">
+                          <AssetLink assetId={asset.assetId}>{asset.assetId}</AssetLink>
+                        </td>
+                        <td className="hidden sm:table-cell">{asset.unitName ?? 'N/A'}</td>
+                        <td className="text-right font-mono">{formatAssetAmount(asset)}</td>
+                        <td className="text-right font-mono">
+                          {!showValues ? (
+                            '—'
+                          ) : value?.value != null ? (
+                            formatFiat(value.value, prices.settings.currency)
+                          ) : (
+                            <span className="text-xs text-gray-400">No price</span>
+                          )}
+                        </td>
+                        <td className="text-right font-mono hidden sm:table-cell">
+                          {showValues && value?.share != null ? formatShare(value.share) : ''}
+                        </td>
+                        <td className="text-right">
+                          {/* The creator account can never opt out of its own asset */}
+                          {!readOnly && !managedAssets.some((m) => m.assetId === asset.assetId && m.creator === address) && (
+                            <button className="btn btn-ghost btn-xs" onClick={() => setOptOutHolding(asset)}>
+                              Remove
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
             </div>
           </div>
-        </div>
-      </div>
 
-      {/* ASA TABLE */}
-      <div className="mb-6">
-        <h3 className="text-lg font-semibold mb-2 flex items-center justify-between">
-          <span>Assets in Wallet</span>
-          <span className="text-sm text-gray-500">{validAssetsCount} assets</span>
-        </h3>
-        <div className="overflow-x-auto">
-          <table className="table table-zebra table-sm">
-            <thead>
-              <tr>
-                <th>Asset</th>
-                <th className="hidden md:table-cell">Asset ID</th>
-                <th className="hidden sm:table-cell">Unit</th>
-                <th className="text-right">Amount</th>
-              </tr>
-            </thead>
-            <tbody>
-              {assets.length === 0 && (
-                <tr>
-                  <td colSpan={4} className="text-center text-gray-400">
-                    No ASAs found.
-                  </td>
-                </tr>
-              )}
+          {/* BALANCE HISTORY */}
+          {/* The chart caches what it has loaded, so every refresh only fetches new rounds */}
+          <BalanceHistoryChart address={address} account={account} holdings={assets} refreshKey={historyKey + liveKey} />
 
-              {assets.map((asset, index) => {
-                return (
-                  <tr key={asset.assetId ?? index}>
-                    <td className="flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-md bg-slate-100 flex items-center justify-center text-sm font-semibold text-slate-700">{(asset.unitName ?? 'T').slice(0,3)}</div>
-                      <div>
-                        <div className="font-semibold">{asset.name}</div>
-                        <div className="text-xs text-gray-400">{asset.unitName}</div>
-                      </div>
-                    </td>
-                    <td className="hidden md:table-cell">{asset.assetId}</td>
-                    <td className="hidden sm:table-cell">{asset.unitName}</td>
-                    <td className="text-right font-mono">{formatAssetAmount(asset)}</td>
-                  </tr>
-                )
-              })}
-            </tbody>
-          </table>
-        </div>
-      </div>
+          {/* MANAGED ASSETS */}
+          <ManagedAssets
+            address={address}
+            readOnly={readOnly}
+            assets={managedAssets}
+            holdings={assets}
+            onChanged={() => void loadPortfolio()}
+          />
 
-      {/* TRANSACTION TABLE */}
-      <h3 className="text-lg font-semibold mb-2">Recent Transactions</h3>
-      <div className="overflow-x-auto mb-10">
-        <table className="table table-sm">
-          <thead>
-            <tr>
-              <th>Type</th>
-              <th>Amount</th>
-              <th>Asset</th>
-              <th>Round</th>
-              <th>Tx ID</th>
-            </tr>
-          </thead>
-          <tbody>
-            {txns.length === 0 && (
-              <tr>
-                <td colSpan={5} className="text-center text-gray-400">
-                  No transactions found.
-                </td>
-              </tr>
-            )}
+          {/* TRANSACTION HISTORY */}
+          <TransactionHistory address={address} holdings={assets} refreshKey={historyKey} updateKey={liveKey} />
+        </>
+      )}
 
-            {txns.map((t, index) => (
-              <tr key={`${t.id}-${t.round ?? 'r'}-${index}`}>
-                <td className="capitalize">{t.type ?? 'Unknown'}</td>
-                <td>{formatTxnAmount(t)}</td>
-                <td>{t.assetId ?? 'ALGO'}</td>
-                <td>{t.round ?? '—'}</td>
-                <td className="font-mono text-[10px]">{ellipseAddress(t.id)}</td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
+      {watchListModal}
+      <AddressBookModal open={openAddressBookModal} onClose={() => setOpenAddressBookModal(false)} />
+      <ActivityCenter open={openActivity} onClose={() => setOpenActivity(false)} />
 
       {/* SEND ASA MODAL */}
       <SendAssetModal
-        open={openSendAssetModal}
-        onClose={() => setOpenSendAssetModal(false)}
+        open={route.name === 'send' && !readOnly}
+        onClose={back}
+        onSent={() => void loadPortfolio()}
+        prefill={route.name === 'send' ? route.prefill : undefined}
+        holdings={assets}
+        spendable={account ? spendableBalance(account.amount, account.minBalance) : undefined}
       />
 
-      {/* Local fallback modal for creating tokens if parent doesn't render one */}
-      <CreateTokenModal
-        open={openCreateTokenModalLocal}
-        onClose={() => setOpenCreateTokenModalLocal(false)}
+      {/* BATCH SEND MODAL */}
+      <BatchSendModal
+        open={openBatchSendModal}
+        onClose={() => setOpenBatchSendModal(false)}
+        onSent={() => void loadPortfolio()}
+        holdings={assets}
+        spendable={account ? spendableBalance(account.amount, account.minBalance) : undefined}
       />
+
+      {/* OPT-IN / OPT-OUT MODALS */}
+      <OptInModal open={openOptInModal} onClose={() => setOpenOptInModal(false)} onOptedIn={() => void loadPortfolio()} holdings={assets} />
+      <OptOutModal holding={optOutHolding} onClose={() => setOptOutHolding(null)} onOptedOut={() => void loadPortfolio()} />
     </div>
   )
 }
@@ -0,0 +1,72 @@
+import React from 'react'
+import { PricesState } from '../hooks/usePrices'
+import { Currency, SUPPORTED_CURRENCIES } from '../services/prices'
+import { formatFiat, formatShare, PortfolioValuation } from '../utils/valuation'
+
+interface Props {
+  valuation: PortfolioValuation | null
+  prices: PricesState
+}
+
+const PortfolioValueCard: React.FC<Props> = ({ valuation, prices }) => {
+  const { settings, updateSettings, providers, provider, loading, error } = prices
+
+  return (
+    <div className="card bg-teal-50 shadow-sm">
+      <div className="card-body gap-1">
+        <h2 className="card-title text-sm text-gray-500 justify-between">
+          <span>Portfolio Value</span>
+          <select
+            className="select select-ghost select-xs"
+            value={settings.currency}
+            onChange={(e) => updateSettings({ ...settings, currency: e.target.value as Currency })}
+          >
+            {SUPPORTED_CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c.toUpperCase()}
+              </option>
+            ))}
+          </select>
+        </h2>
+        <p className="text-2xl font-bold">
+          {loading ? (
+            <span className="loading loading-dots loading-sm" />
+          ) : valuation && !error && provider ? (
+            formatFiat(valuation.total, settings.currency)
+          ) : (
+            '—'
+          )}
+        </p>
+        {valuation?.algo.share != null && !loading && !error && (
+          <p className="text-xs text-gray-500">ALGO is {formatShare(valuation.algo.share)} of the priced total.</p>
+        )}
+        {error && <p className="text-xs text-error">Prices unavailable: {error}</p>}
+        {!provider && <p className="text-xs text-gray-500">No price source for this network.</p>}
+        {valuation && !loading && !error && valuation.unpriced > 0 && (
+          <p className="text-xs text-gray-500">
+            {valuation.unpriced} asset{valuation.unpriced === 1 ? '' : 's'} without a price {valuation.unpriced === 1 ? 'is' : 'are'} not
+            included.
+          </p>
+        )}
+        {providers.length > 0 && (
+          <label className="flex items-center justify-between text-xs text-gray-500">
+            <span>Prices from</span>
+            <select
+              className="select select-ghost select-xs"
+              value={provider?.id}
+              onChange={(e) => updateSettings({ ...settings, providerId: e.target.value })}
+            >
+              {providers.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default PortfolioValueCard
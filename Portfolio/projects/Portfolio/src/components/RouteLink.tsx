@@ -0,0 +1,38 @@
+import React from 'react'
+import { useRouter } from '../contexts/RouterContext'
+import { isOverlayRoute, Route, routeHref } from '../utils/routes'
+
+interface Props {
+  route: Route
+  children: React.ReactNode
+  /** Runs before navigating, e.g. to clear state of the modal the link is in; modal routes close by themselves */
+  onOpen?: () => void
+  className?: string
+  title?: string
+}
+
+/**
+ * In-app link; modified clicks open the route in a new tab like any other link. A link inside a modal route
+ * replaces that route, which closes the modal without a history.back() that could land after the navigation.
+ */
+const RouteLink: React.FC<Props> = ({ route, children, onOpen, className, title }) => {
+  const { route: current, navigate } = useRouter()
+  return (
+    <a
+      href={routeHref(route)}
+      className={`link link-hover ${className ?? ''}`}
+      title={title}
+      onClick={(e) => {
+        e.stopPropagation()
+        if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return
+        e.preventDefault()
+        onOpen?.()
+        navigate(route, { replace: isOverlayRoute(current) })
+      }}
+    >
+      {children}
+    </a>
+  )
+}
+
+export default RouteLink
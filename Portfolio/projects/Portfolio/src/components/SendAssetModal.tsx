@@ -1,28 +1,159 @@
 // src/components/SendAssetModal.tsx
-import { AlgorandClient } from '@algorandfoundation/algokit-utils'
 import { useWallet } from '@txnlab/use-wallet-react'
+import algosdk from 'algosdk'
 import { useSnackbar } from 'notistack'
-import React, { useState } from 'react'
-import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import React, { useEffect, useMemo, useState } from 'react'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useCopyLink } from '../hooks/useCopyLink'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { useSimulation } from '../hooks/useSimulation'
+import { AssetHolding } from '../interfaces/portfolio'
+import { formatBaseUnits, parseAmountToBaseUnits } from '../utils/amounts'
+import { ASA_LIMITS, utf8Length } from '../utils/asaParams'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { MIN_TXN_FEE } from '../utils/minBalance'
+import { TransferPrefill } from '../utils/routes'
+import AddressInput from './AddressInput'
+import AssetLink from './AssetLink'
+import SimulationPreview from './SimulationPreview'
 
 interface Props {
   open: boolean
   onClose: () => void
+  /** Called after the transfer is confirmed, e.g. to reload balances */
+  onSent?: () => void
+  /** Holdings of the connected account, used to validate the amount against the sender's balance */
+  holdings?: AssetHolding[]
+  /** ALGO the sender can spend above its minimum balance, in microAlgo; needed to pay the fee */
+  spendable?: bigint
+  /** Fields to fill in when the modal opens, e.g. from a shared link */
+  prefill?: TransferPrefill
 }
 
-const SendAssetModal: React.FC<Props> = ({ open, onClose }) => {
+interface AssetInfo {
+  decimals: number
+  name: string
+  unitName: string
+}
+
+const SendAssetModal: React.FC<Props> = ({ open, onClose, onSent, holdings = [], spendable, prefill }) => {
   const { activeAddress, transactionSigner } = useWallet()
   const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const { sendTracked } = useActivity()
+  const copyLink = useCopyLink()
 
   const [assetId, setAssetId] = useState('')
   const [receiver, setReceiver] = useState('')
   const [amount, setAmount] = useState('')
+  const [note, setNote] = useState('')
   const [loading, setLoading] = useState(false)
+  const [assetInfo, setAssetInfo] = useState<AssetInfo | null>(null)
+  const [assetLookupError, setAssetLookupError] = useState<string | null>(null)
+  /** Built transfer under review; editing any field discards it */
+  const [txn, setTxn] = useState<algosdk.Transaction | null>(null)
 
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const algorand = AlgorandClient.fromConfig({ algodConfig })
+  const { algorand, assetCache } = useAppNetwork()
+  const simulation = useSimulation(algorand.client.algod, activeAddress)
 
-  const handleSend = async () => {
+  useEffect(() => {
+    setTxn(null)
+    simulation.reset()
+  }, [assetId, receiver, amount, note, simulation.reset])
+
+  // An empty prefill keeps whatever was typed before the modal was last closed
+  useEffect(() => {
+    if (!open || !prefill || Object.keys(prefill).length === 0) return
+    setAssetId(prefill.asset != null ? String(prefill.asset) : '')
+    setReceiver(prefill.to ?? '')
+    setAmount(prefill.amount ?? '')
+    setNote(prefill.note ?? '')
+  }, [open, prefill])
+
+  const holding = useMemo(() => holdings.find((h) => String(h.assetId) === assetId.trim()), [holdings, assetId])
+  const receiverValid = algosdk.isValidAddress(receiver)
+
+  // Resolve decimals/unit/name once an Asset ID is entered, preferring the metadata the dashboard already loaded.
+  useEffect(() => {
+    setAssetInfo(null)
+    setAssetLookupError(null)
+
+    const id = assetId.trim()
+    if (!/^\d+$/.test(id)) return
+
+    if (holding?.decimals != null) {
+      setAssetInfo({ decimals: holding.decimals, name: holding.name ?? 'Unknown', unitName: holding.unitName ?? '' })
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const asset = await assetCache.get(Number(id))
+        if (cancelled) return
+        if (!asset || asset.deleted) {
+          setAssetLookupError(asset ? 'This asset has been destroyed' : 'Asset not found on this network')
+          return
+        }
+        setAssetInfo({ decimals: asset.decimals, name: asset.name ?? 'Unknown', unitName: asset.unitName ?? '' })
+      } catch {
+        if (!cancelled) setAssetLookupError('Asset not found on this network')
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [assetId, holding, assetCache])
+
+  const parsedAmount = useMemo<{ value: bigint | null; error: string | null }>(() => {
+    if (!amount || !assetInfo) return { value: null, error: null }
+    try {
+      const value = parseAmountToBaseUnits(amount, assetInfo.decimals)
+      if (value <= 0n) return { value: null, error: 'Amount must be greater than zero' }
+      if (!holding) return { value: null, error: 'You do not hold this asset' }
+      if (value > holding.amount) {
+        return {
+          value: null,
+          error: `Exceeds your balance of ${formatBaseUnits(holding.amount, assetInfo.decimals)} ${assetInfo.unitName}`,
+        }
+      }
+      return { value, error: null }
+    } catch (e) {
+      return { value: null, error: (e as Error).message }
+    }
+  }, [amount, assetInfo, holding])
+
+  const feeError =
+    spendable != null && spendable < MIN_TXN_FEE
+      ? `Not enough spendable ALGO to pay the ${formatBaseUnits(MIN_TXN_FEE, 6)} ALGO fee without going below the minimum balance`
+      : null
+  const noteError = utf8Length(note) > ASA_LIMITS.note ? `Note is limited to ${ASA_LIMITS.note} bytes` : null
+
+  const reset = () => {
+    setAssetId('')
+    setReceiver('')
+    setAmount('')
+    setNote('')
+    setTxn(null)
+    simulation.reset()
+  }
+
+  const discardReview = () => {
+    setTxn(null)
+    simulation.reset()
+  }
+
+  const close = () => {
+    if (loading) return
+    discardReview()
+    onClose()
+  }
+
+  /** Builds the transfer and simulates it; the wallet is only asked to sign once simulation passes. */
+  const handleReview = async () => {
     if (!activeAddress || !transactionSigner) {
       enqueueSnackbar('Please connect your wallet first', { variant: 'warning' })
       return
@@ -33,85 +164,65 @@ const SendAssetModal: React.FC<Props> = ({ open, onClose }) => {
       return
     }
 
-    if (Number(amount) <= 0) {
-      enqueueSnackbar('Amount must be greater than zero', { variant: 'warning' })
+    if (!receiverValid) {
+      enqueueSnackbar('Receiver is not a valid Algorand address', { variant: 'warning' })
+      return
+    }
+
+    if (!assetInfo) {
+      enqueueSnackbar(assetLookupError ?? 'Asset details are still loading', { variant: 'warning' })
+      return
+    }
+
+    if (parsedAmount.value == null) {
+      enqueueSnackbar(parsedAmount.error ?? 'Invalid amount', { variant: 'warning' })
+      return
+    }
+
+    if (feeError) {
+      enqueueSnackbar(feeError, { variant: 'warning' })
+      return
+    }
+
+    if (noteError) {
+      enqueueSnackbar(noteError, { variant: 'warning' })
       return
     }
 
     setLoading(true)
     try {
-      // Optional pre-check: ensure the receiver has opted-in to this ASA
-      try {
-        const recvAcct = await algorand.client.algod.accountInformation(receiver).do()
-        const recvAssets = recvAcct.assets ?? []
-        const hasOptIn = recvAssets.some((a: any) => {
-          const idRaw = a['asset-id'] ?? a.assetId ?? a['assetId']
-          const id = typeof idRaw === 'number' ? idRaw : Number(idRaw)
-          return Number(id) === Number(assetId)
-        })
-
-        if (!hasOptIn) {
-          enqueueSnackbar('Receiver must opt-in to receive this asset.', { variant: 'warning' })
-          setLoading(false)
-          return
-        }
-      } catch (e) {
-        // Couldn't verify; show a helpful warning and abort to avoid failed tx
-        enqueueSnackbar('Unable to verify receiver opt-in status. Aborting send.', { variant: 'warning' })
-        setLoading(false)
-        return
-      }
+      const built = await algorand.createTransaction.assetTransfer({
+        sender: activeAddress,
+        receiver,
+        assetId: BigInt(assetId),
+        amount: parsedAmount.value,
+        note: note ? new TextEncoder().encode(note) : undefined,
+      })
+      setTxn(built)
+      await simulation.run([built])
+    } catch (e) {
+      reportError('Could not prepare the transfer', e)
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      enqueueSnackbar('Sending ASA transfer...', { variant: 'info' })
+  const handleSend = async () => {
+    if (!activeAddress || !transactionSigner || !txn || !simulation.canSign) return
 
-      let result: any = null
-      let attempt = 0
-      while (attempt < 2) {
-        try {
-          result = await algorand.send.assetTransfer({
-            sender: activeAddress,
-            receiver,
-            assetId: BigInt(Number(assetId)),
-            amount: BigInt(amount), // amount in base units
-            signer: transactionSigner,
-          })
-
-          // success
-          enqueueSnackbar(`Asset transfer sent: ${result.txIds?.[0] ?? 'sent'}`, {
-            variant: 'success',
-          })
-          break
-        } catch (err: any) {
-          const em = String(err)
-          // If txn dead (stale rounds), retry once after a short delay
-          if (em.toLowerCase().includes('txn dead') && attempt === 0) {
-            enqueueSnackbar('Stale tx params detected, retrying...', { variant: 'info' })
-            // wait a bit for algod to advance rounds / for fresh params
-            await new Promise((r) => setTimeout(r, 1100))
-            attempt += 1
-            continue
-          }
-
-          // rethrow the error to be handled by outer catch
-          throw err
-        }
-      }
-      setAssetId('')
-      setReceiver('')
-      setAmount('')
+    setLoading(true)
+    try {
+      enqueueSnackbar('Sending ASA transfer...', { variant: 'info' })
+      const result = await sendTracked(algorand.newGroup().addTransaction(txn, transactionSigner), {
+        kind: 'Asset transfer',
+        summary: `${amount} ${assetInfo?.unitName || `of asset #${assetId}`} to ${ellipseAddress(receiver)}`,
+      })
+      enqueueSnackbar(`Asset transfer sent: ${result.txIds[0]}`, { variant: 'success' })
+      reset()
+      onSent?.()
       onClose()
-    } catch (e: any) {
-      console.error(e)
-      const msg = String(e)
-
-      if (msg.includes('must optin')) {
-        enqueueSnackbar(
-          'Receiver must opt-in to this ASA in their wallet before they can receive it.',
-          { variant: 'warning' },
-        )
-      } else {
-        enqueueSnackbar('Failed to send asset transfer', { variant: 'error' })
-      }
+    } catch (e) {
+      reportError('Failed to send asset transfer', e)
     } finally {
       setLoading(false)
     }
@@ -133,51 +244,130 @@ const SendAssetModal: React.FC<Props> = ({ open, onClose }) => {
             onChange={(e) => setAssetId(e.target.value)}
             placeholder="e.g. 123456"
           />
+          {(assetInfo || assetLookupError) && (
+            <label className="label">
+              {assetInfo ? (
+                <span className="label-text-alt">
+                  {assetInfo.name} ({assetInfo.unitName || 'no unit'}) · {assetInfo.decimals} decimals
+                  {holding && ` · balance ${formatBaseUnits(holding.amount, assetInfo.decimals)}`} ·{' '}
+                  <AssetLink assetId={Number(assetId.trim())} onOpen={discardReview}>
+                    details
+                  </AssetLink>
+                </span>
+              ) : (
+                <span className="label-text-alt text-error">{assetLookupError}</span>
+              )}
+            </label>
+          )}
         </div>
 
         <div className="form-control mb-2">
           <label className="label">
             <span className="label-text">Receiver Address</span>
           </label>
-          <input
-            type="text"
-            className="input input-bordered w-full"
+          <AddressInput
             value={receiver}
-            onChange={(e) => setReceiver(e.target.value)}
-            placeholder="Wallet address"
+            onChange={setReceiver}
+            placeholder="Wallet address, saved label or name"
+            className={receiver && !receiverValid ? 'input-error' : ''}
           />
+          {receiver && !receiverValid && <span className="text-xs text-error mt-1">Not a valid Algorand address</span>}
         </div>
 
         <div className="form-control mb-4">
           <label className="label">
-            <span className="label-text">Amount (base units)</span>
+            <span className="label-text">Amount{assetInfo?.unitName ? ` (${assetInfo.unitName})` : ''}</span>
+            {holding && assetInfo && (
+              <button
+                type="button"
+                className="label-text-alt link"
+                onClick={() => setAmount(formatBaseUnits(holding.amount, assetInfo.decimals, false))}
+              >
+                Max
+              </button>
+            )}
           </label>
           <input
-            type="number"
-            className="input input-bordered w-full"
+            type="text"
+            inputMode="decimal"
+            className={`input input-bordered w-full ${parsedAmount.error ? 'input-error' : ''}`}
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
-            placeholder="e.g. 1000"
+            placeholder="e.g. 1.5"
           />
+          {parsedAmount.error && (
+            <label className="label">
+              <span className="label-text-alt text-error">{parsedAmount.error}</span>
+            </label>
+          )}
+          {parsedAmount.value != null && assetInfo && assetInfo.decimals > 0 && (
+            <label className="label">
+              <span className="label-text-alt text-gray-400">= {parsedAmount.value.toString()} base units</span>
+            </label>
+          )}
         </div>
 
+        <div className="form-control mb-4">
+          <label className="label">
+            <span className="label-text">Note (optional)</span>
+          </label>
+          <textarea
+            className={`textarea textarea-bordered ${noteError ? 'textarea-error' : ''}`}
+            rows={2}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          {noteError && (
+            <label className="label">
+              <span className="label-text-alt text-error">{noteError}</span>
+            </label>
+          )}
+        </div>
+
+        {feeError && <div className="alert alert-warning text-sm">{feeError}</div>}
+
+        {txn && (
+          <SimulationPreview
+            simulation={simulation}
+            describeAsset={() => (assetInfo ? { decimals: assetInfo.decimals, unit: assetInfo.unitName } : undefined)}
+            onRetry={() => void simulation.run([txn])}
+          />
+        )}
+
         <div className="modal-action">
           <button
             type="button"
-            className="btn"
-            onClick={() => {
-              if (!loading) onClose()
-            }}
+            className="btn btn-ghost mr-auto"
+            title="Copy a link that opens this form pre-filled"
+            onClick={() =>
+              void copyLink({
+                name: 'send',
+                prefill: { asset: /^\d+$/.test(assetId.trim()) ? Number(assetId) : undefined, to: receiver, amount, note },
+              })
+            }
           >
-            Close
+            Copy link
           </button>
-          <button
-            type="button"
-            className={`btn btn-primary ${loading ? 'btn-disabled' : ''}`}
-            onClick={() => void handleSend()}
-          >
-            {loading ? <span className="loading loading-spinner" /> : 'Send'}
+          <button type="button" className="btn" onClick={close}>
+            Close
           </button>
+          {txn ? (
+            <button
+              type="button"
+              className={`btn btn-primary ${loading || !simulation.canSign ? 'btn-disabled' : ''}`}
+              onClick={() => void handleSend()}
+            >
+              {loading ? <span className="loading loading-spinner" /> : 'Sign & Send'}
+            </button>
+          ) : (
+            <button
+              type="button"
+              className={`btn btn-primary ${loading || (receiver && !receiverValid) ? 'btn-disabled' : ''}`}
+              onClick={() => void handleReview()}
+            >
+              {loading ? <span className="loading loading-spinner" /> : 'Review'}
+            </button>
+          )}
         </div>
       </form>
     </dialog>
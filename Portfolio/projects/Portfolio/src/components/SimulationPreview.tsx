@@ -0,0 +1,94 @@
+import React from 'react'
+import { SimulationState } from '../hooks/useSimulation'
+import { formatBaseUnits } from '../utils/amounts'
+
+interface Props {
+  simulation: SimulationState
+  /** Decimals and unit of an ASA, when known; otherwise amounts are shown in base units */
+  describeAsset?: (assetId: number) => { decimals: number; unit: string } | undefined
+  onRetry?: () => void
+}
+
+const formatSigned = (value: bigint, decimals: number) =>
+  `${value > 0n ? '+' : value < 0n ? '−' : ''}${formatBaseUnits(value < 0n ? -value : value, decimals)}`
+
+/** Outcome of simulating a transaction group: failure reason, or the fee and balance changes it would cause. */
+const SimulationPreview: React.FC<Props> = ({ simulation, describeAsset, onRetry }) => {
+  const { loading, result, error } = simulation
+
+  if (loading) {
+    return (
+      <div className="alert text-sm mb-2">
+        <span className="loading loading-spinner loading-xs" /> Simulating on the network...
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="alert alert-warning text-sm mb-2 flex justify-between">
+        <span>
+          Could not simulate the transaction: {error.message}
+          {error.action && <span className="block text-xs">{error.action}</span>}
+        </span>
+        {onRetry && (
+          <button type="button" className="btn btn-xs" onClick={onRetry}>
+            Retry
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  if (!result) return null
+
+  if (!result.ok) {
+    return (
+      <div className="alert alert-error text-sm mb-2 flex flex-col items-start">
+        <span className="font-semibold">
+          This would fail{result.failedAt != null ? ` at transaction ${result.failedAt + 1}` : ''}: {result.failure}
+        </span>
+        {result.action && <span>{result.action}</span>}
+        {result.rawFailure !== result.failure && (
+          <details className="text-xs">
+            <summary className="cursor-pointer">Node message</summary>
+            <span className="break-all">{result.rawFailure}</span>
+          </details>
+        )}
+      </div>
+    )
+  }
+
+  const assetRows = [...result.deltas.assets].filter(([, delta]) => delta !== 0n)
+
+  return (
+    <div className="alert alert-success text-sm mb-2 flex flex-col items-stretch">
+      <span className="font-semibold">Simulation passed</span>
+      <table className="table table-xs">
+        <tbody>
+          <tr>
+            <td>Network fee</td>
+            <td className="text-right font-mono">{formatBaseUnits(result.fee, 6)} ALGO</td>
+          </tr>
+          <tr>
+            <td>Your ALGO balance</td>
+            <td className="text-right font-mono">{formatSigned(result.deltas.algo, 6)} ALGO</td>
+          </tr>
+          {assetRows.map(([assetId, delta]) => {
+            const asset = describeAsset?.(assetId)
+            return (
+              <tr key={assetId}>
+                <td>Your balance of asset {assetId}</td>
+                <td className="text-right font-mono">
+                  {formatSigned(delta, asset?.decimals ?? 0)} {asset?.unit ?? 'base units'}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default SimulationPreview
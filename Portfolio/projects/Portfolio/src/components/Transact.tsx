@@ -1,76 +1,337 @@
-import { algo, AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
 import { useWallet } from '@txnlab/use-wallet-react'
+import algosdk from 'algosdk'
 import { useSnackbar } from 'notistack'
-import { useState } from 'react'
-import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import React, { useEffect, useMemo, useState } from 'react'
+import { useAddressBook } from '../contexts/AddressBookContext'
+import { useActivity } from '../contexts/ActivityContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useCopyLink } from '../hooks/useCopyLink'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { useSimulation } from '../hooks/useSimulation'
+import { AccountSummary, getAccountSummary } from '../services/algorandData'
+import { formatBaseUnits } from '../utils/amounts'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { MIN_TXN_FEE, spendableBalance } from '../utils/minBalance'
+import { CLOSE_CONFIRMATION, EMPTY_PAYMENT_FORM, PaymentForm, validatePayment } from '../utils/payment'
+import { TransferPrefill } from '../utils/routes'
+import AddressInput from './AddressInput'
+import SimulationPreview from './SimulationPreview'
 
 interface TransactInterface {
   openModal: boolean
   setModalState: (value: boolean) => void
+  onSent?: () => void
+  /** Receiver, amount and note to fill in when the modal opens, e.g. from a shared link */
+  prefill?: TransferPrefill
 }
 
-const Transact = ({ openModal, setModalState }: TransactInterface) => {
+const Transact = ({ openModal, setModalState, onSent, prefill }: TransactInterface) => {
+  const [form, setForm] = useState<PaymentForm>(EMPTY_PAYMENT_FORM)
+  const [step, setStep] = useState<'edit' | 'review'>('edit')
+  const [txn, setTxn] = useState<algosdk.Transaction | null>(null)
+  const [account, setAccount] = useState<AccountSummary | null>(null)
   const [loading, setLoading] = useState<boolean>(false)
-  const [receiverAddress, setReceiverAddress] = useState<string>('')
 
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const algorand = AlgorandClient.fromConfig({ algodConfig })
+  const { algorand } = useAppNetwork()
+  const { labelFor } = useAddressBook()
 
   const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const { sendTracked } = useActivity()
+  const copyLink = useCopyLink()
 
   const { transactionSigner, activeAddress } = useWallet()
+  const simulation = useSimulation(algorand.client.algod, activeAddress)
 
-  const handleSubmitAlgo = async () => {
+  useEffect(() => {
+    setAccount(null)
+    if (!openModal || !activeAddress) return
+    getAccountSummary(algorand.client.algod, activeAddress)
+      .then(setAccount)
+      .catch(() => enqueueSnackbar('Could not load your balance', { variant: 'warning' }))
+  }, [openModal, activeAddress, algorand, enqueueSnackbar])
+
+  useEffect(() => {
+    if (!openModal || !prefill || Object.keys(prefill).length === 0) return
+    setForm({ ...EMPTY_PAYMENT_FORM, receiver: prefill.to ?? '', amount: prefill.amount ?? '', note: prefill.note ?? '' })
+  }, [openModal, prefill])
+
+  const spendable = account ? spendableBalance(account.amount, account.minBalance) : undefined
+  const { errors, fields } = useMemo(() => validatePayment(form, activeAddress ?? '', spendable), [form, activeAddress, spendable])
+
+  // Closing an account fails while it still holds assets or app state, so point that out before signing.
+  const closeBlocker =
+    form.closeAccount && account
+      ? account.minBalanceUsage.totalAssetsOptedIn > 0
+        ? `Opt out of your ${account.minBalanceUsage.totalAssetsOptedIn} assets before closing the account.`
+        : account.minBalanceUsage.totalAppsOptedIn + account.minBalanceUsage.totalCreatedApps > 0
+          ? 'Clear your app opt-ins and delete created apps before closing the account.'
+          : null
+      : null
+
+  const update = <K extends keyof PaymentForm>(key: K, value: PaymentForm[K]) => setForm((prev) => ({ ...prev, [key]: value }))
+
+  const reset = () => {
+    setForm(EMPTY_PAYMENT_FORM)
+    setStep('edit')
+    setTxn(null)
+    simulation.reset()
+  }
+
+  const close = () => {
+    if (loading) return
+    reset()
+    setModalState(false)
+  }
+
+  const handleReview = async () => {
+    if (!activeAddress || !fields) return
     setLoading(true)
+    try {
+      // Build the exact transaction now so the review shows its real fee and that is what gets signed.
+      const built = await algorand.createTransaction.payment({
+        sender: activeAddress,
+        receiver: fields.receiver,
+        amount: microAlgo(fields.amount),
+        note: fields.note,
+        closeRemainderTo: fields.closeRemainderTo,
+      })
+      setTxn(built)
+      setStep('review')
+      await simulation.run([built])
+    } catch (e) {
+      reportError('Could not prepare the payment', e)
+    } finally {
+      setLoading(false)
+    }
+  }
 
+  const handleSubmitAlgo = async () => {
     if (!transactionSigner || !activeAddress) {
       enqueueSnackbar('Please connect wallet first', { variant: 'warning' })
       return
     }
+    if (!txn || !simulation.canSign) return
 
+    setLoading(true)
     try {
       enqueueSnackbar('Sending transaction...', { variant: 'info' })
-      const result = await algorand.send.payment({
-        signer: transactionSigner,
-        sender: activeAddress,
-        receiver: receiverAddress,
-        amount: algo(1),
+      const receiver = fields?.receiver ?? ''
+      const result = await sendTracked(algorand.newGroup().addTransaction(txn, transactionSigner), {
+        kind: fields?.closeRemainderTo ? 'Close account' : 'Payment',
+        summary: `${formatBaseUnits(fields?.amount ?? 0n, 6)} ALGO to ${labelFor(receiver) ?? ellipseAddress(receiver)}`,
       })
       enqueueSnackbar(`Transaction sent: ${result.txIds[0]}`, { variant: 'success' })
-      setReceiverAddress('')
+      reset()
+      setModalState(false)
+      onSent?.()
     } catch (e) {
-      enqueueSnackbar('Failed to send transaction', { variant: 'error' })
+      reportError('Failed to send transaction', e)
+    } finally {
+      setLoading(false)
     }
+  }
+
+  const fieldError = (key: keyof PaymentForm) =>
+    errors[key] && (
+      <label className="label">
+        <span className="label-text-alt text-error">{errors[key]}</span>
+      </label>
+    )
+
+  const fee = txn?.fee ?? 0n
+  const exceedsSpendable = !!fields && !fields.closeRemainderTo && spendable != null && fields.amount + fee > spendable
 
-    setLoading(false)
+  const reviewRows: [string, React.ReactNode][] =
+    fields && txn
+      ? [
+          ['From', <span className="font-mono text-xs">{activeAddress}</span>],
+          [
+            'To',
+            <>
+              {labelFor(fields.receiver) && <div className="font-semibold">{labelFor(fields.receiver)}</div>}
+              <span className="font-mono text-xs">{fields.receiver}</span>
+            </>,
+          ],
+          ['Amount', `${formatBaseUnits(fields.amount, 6)} ALGO`],
+          ['Fee', `${formatBaseUnits(fee, 6)} ALGO`],
+          ['Total', `${formatBaseUnits(fields.amount + fee, 6)} ALGO`],
+          ['Note', form.note || '—'],
+        ]
+      : []
+  if (fields?.closeRemainderTo) {
+    reviewRows.push(['Close remainder to', <span className="font-mono text-xs text-error">{fields.closeRemainderTo}</span>])
   }
 
   return (
     <dialog id="transact_modal" className={`modal ${openModal ? 'modal-open' : ''} bg-slate-200`}>
-      <form method="dialog" className="modal-box">
-        <h3 className="font-bold text-lg">Send payment transaction</h3>
-        <br />
-        <input
-          type="text"
-          data-test-id="receiver-address"
-          placeholder="Provide wallet address"
-          className="input input-bordered w-full"
-          value={receiverAddress}
-          onChange={(e) => {
-            setReceiverAddress(e.target.value)
-          }}
-        />
+      <form method="dialog" className="modal-box" onSubmit={(e) => e.preventDefault()}>
+        <h3 className="font-bold text-lg mb-2">{step === 'edit' ? 'Send ALGO' : 'Review Payment'}</h3>
+
+        {step === 'edit' && (
+          <>
+            <div className="form-control mb-2">
+              <label className="label">
+                <span className="label-text">Receiver</span>
+              </label>
+              <AddressInput
+                data-test-id="receiver-address"
+                placeholder="Wallet address, saved label or name"
+                className={form.receiver && errors.receiver ? 'input-error' : ''}
+                value={form.receiver}
+                onChange={(address) => update('receiver', address)}
+              />
+              {form.receiver && fieldError('receiver')}
+            </div>
+
+            <div className="form-control mb-2">
+              <label className="label">
+                <span className="label-text">Amount (ALGO)</span>
+                {spendable != null && (
+                  <button
+                    type="button"
+                    className="label-text-alt link"
+                    title="Spendable balance minus the minimum fee"
+                    onClick={() => update('amount', formatBaseUnits(spendable > MIN_TXN_FEE ? spendable - MIN_TXN_FEE : 0n, 6, false))}
+                  >
+                    Spendable: {formatBaseUnits(spendable, 6)}
+                  </button>
+                )}
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                className={`input input-bordered w-full ${form.amount && errors.amount ? 'input-error' : ''}`}
+                value={form.amount}
+                onChange={(e) => update('amount', e.target.value)}
+                placeholder={form.closeAccount ? '0 (optional when closing)' : 'e.g. 1.5'}
+              />
+              {form.amount && fieldError('amount')}
+            </div>
+
+            <div className="form-control mb-2">
+              <label className="label">
+                <span className="label-text">Note (optional)</span>
+              </label>
+              <textarea
+                className="textarea textarea-bordered"
+                rows={2}
+                value={form.note}
+                onChange={(e) => update('note', e.target.value)}
+              />
+              {fieldError('note')}
+            </div>
+
+            <div className="form-control mb-2">
+              <label className="label cursor-pointer justify-start gap-2">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm checkbox-error"
+                  checked={form.closeAccount}
+                  onChange={(e) => update('closeAccount', e.target.checked)}
+                />
+                <span className="label-text">Close my account and send all remaining ALGO to another address</span>
+              </label>
+            </div>
+
+            {form.closeAccount && (
+              <div className="alert alert-error flex flex-col items-stretch text-sm mb-2">
+                <span>
+                  After this payment your whole remaining balance, including the minimum balance, goes to the address below and this account
+                  is emptied. This cannot be undone.
+                </span>
+                <AddressInput
+                  className="input-sm text-base-content"
+                  value={form.closeRemainderTo}
+                  onChange={(address) => update('closeRemainderTo', address)}
+                  placeholder="Close remainder to address"
+                />
+                {form.closeRemainderTo && errors.closeRemainderTo && <span className="text-xs">{errors.closeRemainderTo}</span>}
+                <input
+                  className="input input-bordered input-sm text-base-content"
+                  value={form.closeConfirmation}
+                  onChange={(e) => update('closeConfirmation', e.target.value)}
+                  placeholder={`Type ${CLOSE_CONFIRMATION} to confirm`}
+                />
+                {closeBlocker && <span className="font-semibold">{closeBlocker}</span>}
+              </div>
+            )}
+          </>
+        )}
+
+        {step === 'review' && (
+          <>
+            <table className="table table-sm mb-2">
+              <tbody>
+                {reviewRows.map(([label, value]) => (
+                  <tr key={label}>
+                    <th className="w-32">{label}</th>
+                    <td className="break-all">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {fields?.closeRemainderTo && (
+              <div className="alert alert-error text-sm mb-2">
+                This account will be closed and its remaining balance sent to {ellipseAddress(fields.closeRemainderTo)}.
+              </div>
+            )}
+            {exceedsSpendable && <div className="alert alert-warning text-sm mb-2">Amount plus fee exceeds your spendable balance.</div>}
+            <SimulationPreview simulation={simulation} onRetry={() => txn && void simulation.run([txn])} />
+          </>
+        )}
+
         <div className="modal-action ">
-          <button className="btn" onClick={() => setModalState(!openModal)}>
-            Close
-          </button>
-          <button
-            data-test-id="send-algo"
-            className={`btn ${receiverAddress.length === 58 ? '' : 'btn-disabled'} lo`}
-            onClick={handleSubmitAlgo}
-          >
-            {loading ? <span className="loading loading-spinner" /> : 'Send 1 Algo'}
-          </button>
+          {step === 'edit' ? (
+            <>
+              <button
+                type="button"
+                className="btn btn-ghost mr-auto"
+                title="Copy a link that opens this form pre-filled"
+                onClick={() => void copyLink({ name: 'pay', prefill: { to: form.receiver, amount: form.amount, note: form.note } })}
+              >
+                Copy link
+              </button>
+              <button type="button" className="btn" onClick={close}>
+                Close
+              </button>
+              <button
+                type="button"
+                className={`btn btn-primary ${fields && !closeBlocker && !loading ? '' : 'btn-disabled'}`}
+                onClick={() => void handleReview()}
+              >
+                {loading ? <span className="loading loading-spinner" /> : 'Review'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                className={`btn ${loading ? 'btn-disabled' : ''}`}
+                onClick={() => {
+                  setStep('edit')
+                  simulation.reset()
+                }}
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                data-test-id="send-algo"
+                className={`btn ${fields?.closeRemainderTo ? 'btn-error' : 'btn-primary'} ${loading || exceedsSpendable || !simulation.canSign ? 'btn-disabled' : ''}`}
+                onClick={() => void handleSubmitAlgo()}
+              >
+                {loading ? (
+                  <span className="loading loading-spinner" />
+                ) : fields?.closeRemainderTo ? (
+                  'Sign, Send & Close Account'
+                ) : (
+                  'Sign & Send'
+                )}
+              </button>
+            </>
+          )}
         </div>
       </form>
     </dialog>
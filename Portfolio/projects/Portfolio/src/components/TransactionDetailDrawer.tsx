@@ -0,0 +1,205 @@
+import type { indexerModels } from 'algosdk'
+import React, { useState } from 'react'
+import { useAddressBook } from '../contexts/AddressBookContext'
+import { useCopyLink } from '../hooks/useCopyLink'
+import { Txn, TxnFlow } from '../interfaces/portfolio'
+import { formatBaseUnits } from '../utils/amounts'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { decodeNote } from '../utils/note'
+import AssetLink from './AssetLink'
+
+interface Props {
+  /** Transaction to show; the drawer is closed while this is null */
+  txn: Txn | null
+  onClose: () => void
+  /** Runs before a link in the drawer is followed; defaults to `onClose`, which a drawer shown for a route must not pop */
+  onOpenLink?: () => void
+}
+
+const DIRECTION_LABELS: Record<TxnFlow, string> = {
+  in: 'Incoming',
+  out: 'Outgoing',
+  self: 'To self',
+  other: 'Not sent or received by this account',
+}
+
+const formatSigned = (value: bigint, decimals: number) =>
+  `${value < 0n ? '−' : value > 0n ? '+' : ''}${formatBaseUnits(value < 0n ? -value : value, decimals)}`
+
+type NoteView = 'text' | 'json' | 'base64'
+
+const NoteBlock: React.FC<{ note: Uint8Array }> = ({ note }) => {
+  const decoded = decodeNote(note)
+  const available: NoteView[] = [
+    ...(decoded.json !== undefined ? ['json' as const] : []),
+    ...(decoded.text ? ['text' as const] : []),
+    'base64',
+  ]
+  const [view, setView] = useState<NoteView>(available[0])
+
+  const content = view === 'json' ? JSON.stringify(decoded.json, null, 2) : view === 'text' ? decoded.text : decoded.base64
+
+  return (
+    <div>
+      <div className="join mb-1">
+        {available.map((v) => (
+          <button key={v} type="button" className={`btn btn-xs join-item ${view === v ? 'btn-active' : ''}`} onClick={() => setView(v)}>
+            {v === 'json' ? 'JSON' : v === 'text' ? 'UTF-8' : 'Base64'}
+          </button>
+        ))}
+      </div>
+      <pre className="bg-base-200 rounded p-2 text-xs whitespace-pre-wrap break-all max-h-48 overflow-y-auto">{content}</pre>
+    </div>
+  )
+}
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="mb-2">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-sm break-all">{children}</div>
+  </div>
+)
+
+/** Full address, preceded by its address book label when saved */
+const AddressValue: React.FC<{ address: string }> = ({ address }) => {
+  const { labelFor } = useAddressBook()
+  const label = labelFor(address)
+  return (
+    <>
+      {label && <div className="font-semibold">{label}</div>}
+      <span className="font-mono text-xs">{address}</span>
+    </>
+  )
+}
+
+const InnerTxnRow: React.FC<{ t: indexerModels.Transaction }> = ({ t }) => {
+  const { labelFor } = useAddressBook()
+  const receiver = t.paymentTransaction?.receiver ?? t.assetTransferTransaction?.receiver
+  const amount = t.paymentTransaction?.amount ?? t.assetTransferTransaction?.amount
+  return (
+    <tr>
+      <td className="uppercase">{t.txType}</td>
+      <td className="font-mono text-xs">{labelFor(t.sender) ?? ellipseAddress(t.sender, 4)}</td>
+      <td className="font-mono text-xs">{receiver ? (labelFor(receiver) ?? ellipseAddress(receiver, 4)) : '—'}</td>
+      <td className="text-right font-mono text-xs">
+        {amount == null
+          ? '—'
+          : t.paymentTransaction
+            ? `${formatBaseUnits(amount, 6)} ALGO`
+            : `${amount} #${t.assetTransferTransaction?.assetId}`}
+      </td>
+    </tr>
+  )
+}
+
+const TransactionDetailDrawer: React.FC<Props> = ({ txn, onClose, onOpenLink }) => {
+  const copyLink = useCopyLink()
+  if (!txn) return null
+  const t = txn.raw
+
+  const pay = t.paymentTransaction
+  const axfer = t.assetTransferTransaction
+  const receiver = pay?.receiver ?? axfer?.receiver
+  const closeTo = pay?.closeRemainderTo ?? axfer?.closeTo
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <aside className="w-full max-w-md h-full overflow-y-auto bg-base-100 p-5 shadow-xl text-left" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-bold text-lg">Transaction Details</h3>
+          <div className="flex gap-1">
+            {t.id && (
+              <button className="btn btn-ghost btn-sm" onClick={() => void copyLink({ name: 'transaction', txId: t.id! })}>
+                Copy link
+              </button>
+            )}
+            <button className="btn btn-ghost btn-sm" onClick={onClose}>
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <Field label="Transaction ID">
+          <span className="font-mono text-xs">{t.id ?? '— (inner transaction)'}</span>
+        </Field>
+        <Field label="Type">{t.txType ?? txn.type}</Field>
+        <Field label="Round">
+          {txn.round ?? '—'}
+          {txn.timestamp ? ` · ${new Date(txn.timestamp * 1000).toLocaleString()}` : ''}
+        </Field>
+        <Field label="Sender">
+          <AddressValue address={t.sender} />
+        </Field>
+        {axfer?.sender && (
+          <Field label="Clawback target">
+            <AddressValue address={axfer.sender} />
+          </Field>
+        )}
+        {receiver && (
+          <Field label="Receiver">
+            <AddressValue address={receiver} />
+          </Field>
+        )}
+        {closeTo && (
+          <Field label="Close remainder to">
+            <AddressValue address={closeTo} />
+          </Field>
+        )}
+        {txn.amount != null && (
+          <Field label="Amount">
+            {formatBaseUnits(txn.amount, txn.decimals ?? 0)}{' '}
+            {txn.assetId ? (
+              <>
+                (asset <AssetLink assetId={txn.assetId} onOpen={onOpenLink ?? onClose} />)
+              </>
+            ) : (
+              'ALGO'
+            )}
+          </Field>
+        )}
+        <Field label="Fee">{formatBaseUnits(t.fee, 6)} ALGO</Field>
+        <Field label="Direction">{DIRECTION_LABELS[txn.direction]}</Field>
+        <Field label="Net effect on this account">
+          <div className="font-mono">{formatSigned(txn.algoDelta, 6)} ALGO</div>
+          {txn.assetId != null && txn.assetDelta != null && (
+            <div className="font-mono">
+              {formatSigned(txn.assetDelta, txn.decimals ?? 0)} (asset #{txn.assetId})
+            </div>
+          )}
+        </Field>
+        {t.group && (
+          <Field label="Group ID">
+            <span className="font-mono text-xs">{Buffer.from(t.group).toString('base64')}</span>
+          </Field>
+        )}
+        {t.note && t.note.length > 0 && (
+          <Field label="Note">
+            <NoteBlock key={txn.id} note={t.note} />
+          </Field>
+        )}
+
+        {t.innerTxns && t.innerTxns.length > 0 && (
+          <Field label={`Inner transactions (${t.innerTxns.length})`}>
+            <table className="table table-xs">
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>Sender</th>
+                  <th>Receiver</th>
+                  <th className="text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {t.innerTxns.map((inner, index) => (
+                  <InnerTxnRow key={index} t={inner} />
+                ))}
+              </tbody>
+            </table>
+          </Field>
+        )}
+      </aside>
+    </div>
+  )
+}
+
+export default TransactionDetailDrawer
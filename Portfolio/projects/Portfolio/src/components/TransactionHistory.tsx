@@ -0,0 +1,345 @@
+import type { indexerModels } from 'algosdk'
+import { useSnackbar } from 'notistack'
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { useAddressBook } from '../contexts/AddressBookContext'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { AssetHolding, Txn, TxnFilters } from '../interfaces/portfolio'
+import { searchTransactions } from '../services/algorandData'
+import { AssetMetadataCache } from '../services/assetMetadataCache'
+import { formatBaseUnits } from '../utils/amounts'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { downloadFile, ExportFormat, exportFilename, serializeRows, transactionExportRows } from '../utils/exportData'
+import { counterparties, displayAmount, EMPTY_TXN_FILTERS, toTxn, TX_TYPES } from '../utils/transactions'
+import AssetLink from './AssetLink'
+import ExportMenu from './ExportMenu'
+import TransactionDetailDrawer from './TransactionDetailDrawer'
+
+const PAGE_SIZE = 25
+/** Exports walk the whole history, so use the indexer's maximum page size */
+const EXPORT_PAGE_SIZE = 1000
+
+/** Applies the client-side counterparty filter and normalises a page of indexer transactions for display. */
+async function toTxns(
+  transactions: indexerModels.Transaction[],
+  address: string,
+  filters: TxnFilters,
+  holdings: AssetHolding[],
+  assetCache: AssetMetadataCache,
+): Promise<Txn[]> {
+  // Transfers of assets the account no longer holds still need decimals, so resolve those through the cache
+  const transferredIds = transactions.flatMap((t) => (t.assetTransferTransaction ? [Number(t.assetTransferTransaction.assetId)] : []))
+  await assetCache.getMany(transferredIds.filter((id) => !holdings.some((h) => h.assetId === id && h.decimals != null)))
+  const decimalsFor = (assetId: number) => holdings.find((h) => h.assetId === assetId)?.decimals ?? assetCache.peek(assetId)?.decimals
+
+  // The indexer cannot filter on a second address, so the counterparty filter is applied per page.
+  const counterparty = filters.counterparty.trim()
+  return transactions
+    .filter((t) => !counterparty || counterparties(t, address).includes(counterparty))
+    .map((t, index) => toTxn(t, index, address, decimalsFor))
+}
+
+interface Props {
+  /** Account whose history is shown */
+  address: string
+  /** Holdings of the account, used to resolve ASA decimals */
+  holdings: AssetHolding[]
+  /** Bumped by the dashboard after each portfolio load; history waits for the first bump so ASA decimals are known */
+  refreshKey: number
+  /** Bumped when a live update changed the balances; only transactions newer than the loaded ones are fetched */
+  updateKey: number
+}
+
+const TransactionHistory: React.FC<Props> = ({ address, holdings, refreshKey, updateKey }) => {
+  const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const { algorand, assetCache } = useAppNetwork()
+  const { labelFor } = useAddressBook()
+
+  const [txns, setTxns] = useState<Txn[]>([])
+  const [nextToken, setNextToken] = useState<string | undefined>()
+  const [loading, setLoading] = useState(false)
+  const [draftFilters, setDraftFilters] = useState<TxnFilters>(EMPTY_TXN_FILTERS)
+  const [filters, setFilters] = useState<TxnFilters>(EMPTY_TXN_FILTERS)
+  const [selected, setSelected] = useState<Txn | null>(null)
+  const [exported, setExported] = useState<number | null>(null)
+  /** Id of the latest page request; responses to older ones are for a previous account, network or filter and are dropped */
+  const requestRef = useRef(0)
+
+  const fetchPage = useCallback(
+    async (token?: string) => {
+      if (!address) return
+      const request = ++requestRef.current
+      const isStale = () => request !== requestRef.current
+      setLoading(true)
+
+      try {
+        const res = await searchTransactions(algorand.client.indexer, address, filters, { limit: PAGE_SIZE, nextToken: token })
+
+        const page = await toTxns(res.transactions, address, filters, holdings, assetCache)
+        if (isStale()) return
+
+        setTxns((prev) => (token ? [...prev, ...page] : page))
+        setNextToken(res.nextToken)
+      } catch (e) {
+        if (!isStale()) reportError('Failed to load transactions from indexer', e)
+      } finally {
+        if (!isStale()) setLoading(false)
+      }
+    },
+    [address, algorand, assetCache, filters, holdings, reportError],
+  )
+
+  useEffect(() => {
+    requestRef.current++
+    setTxns([])
+    setNextToken(undefined)
+    setLoading(false)
+  }, [address, algorand])
+
+  // The dashboard bumps refreshKey after every account or network change, so that alone drives reloads.
+  useEffect(() => {
+    if (refreshKey === 0) return
+    setTxns([])
+    setNextToken(undefined)
+    void fetchPage()
+  }, [filters, refreshKey])
+
+  /** Prepends transactions confirmed after the newest loaded one, keeping the pages loaded with "Load more". */
+  const fetchNewer = async () => {
+    const newest = txns.reduce((max, t) => Math.max(max, t.round ?? 0), 0)
+    if (!address || loading) return
+    if (newest === 0) return void fetchPage()
+    const minRound = Math.max(newest + 1, Number(filters.minRound || 0))
+    if (filters.maxRound && Number(filters.maxRound) < minRound) return
+
+    const request = requestRef.current
+    try {
+      const newer: indexerModels.Transaction[] = []
+      let token: string | undefined
+      do {
+        const res = await searchTransactions(
+          algorand.client.indexer,
+          address,
+          { ...filters, minRound: String(minRound) },
+          { limit: EXPORT_PAGE_SIZE, nextToken: token },
+        )
+        newer.push(...res.transactions)
+        token = res.nextToken
+      } while (token)
+
+      const page = await toTxns(newer, address, filters, holdings, assetCache)
+      if (request !== requestRef.current) return
+      setTxns((prev) => [...page.filter((t) => !prev.some((p) => p.id === t.id)), ...prev])
+    } catch {
+      // The next live update asks again from the same round, so nothing is lost by skipping this one
+    }
+  }
+
+  useEffect(() => {
+    if (updateKey > 0) void fetchNewer()
+  }, [updateKey])
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!address) return
+    setExported(0)
+    try {
+      const all: indexerModels.Transaction[] = []
+      let token: string | undefined
+      do {
+        const res = await searchTransactions(algorand.client.indexer, address, filters, { limit: EXPORT_PAGE_SIZE, nextToken: token })
+        all.push(...res.transactions)
+        token = res.nextToken
+        setExported(all.length)
+      } while (token)
+
+      const rows = transactionExportRows(await toTxns(all, address, filters, holdings, assetCache), address)
+      downloadFile(exportFilename('transactions', address, format), serializeRows(rows, format), format)
+      enqueueSnackbar(`Exported ${rows.length} transactions`, { variant: 'success' })
+    } catch (e) {
+      reportError('Failed to export transactions', e)
+    } finally {
+      setExported(null)
+    }
+  }
+
+  const updateDraft = <K extends keyof TxnFilters>(key: K, value: TxnFilters[K]) => setDraftFilters((prev) => ({ ...prev, [key]: value }))
+
+  const formatTxnAmount = (t: Txn) => {
+    const amount = address ? displayAmount(t, address) : t.amount
+    if (amount == null) return '—'
+    const formatted = formatBaseUnits(amount < 0n ? -amount : amount, t.decimals ?? 0)
+    // Only transfers the account sent or received get a sign
+    return t.direction === 'in' || t.direction === 'out' ? `${amount < 0n ? '−' : '+'}${formatted}` : formatted
+  }
+
+  const amountClass = (t: Txn) => (t.direction === 'in' ? 'text-success' : t.direction === 'out' ? 'text-error' : '')
+
+  const activeFilterCount = Object.entries(filters).filter(([key, value]) => value !== EMPTY_TXN_FILTERS[key as keyof TxnFilters]).length
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-lg font-semibold mb-2 flex items-center justify-between">
+        <span>Transaction History</span>
+        <span className="flex items-center gap-2">
+          <span className="text-sm text-gray-500">
+            {txns.length} loaded{activeFilterCount > 0 && ` · ${activeFilterCount} filters`}
+          </span>
+          <ExportMenu
+            onExport={(format) => void handleExport(format)}
+            busy={exported != null}
+            progress={exported ? `${exported}` : undefined}
+            disabled={txns.length === 0}
+          />
+        </span>
+      </h3>
+
+      {/* FILTERS */}
+      <div className="collapse collapse-arrow bg-base-200 mb-2">
+        <input type="checkbox" />
+        <div className="collapse-title text-sm font-medium">Filters</div>
+        <div className="collapse-content">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <select
+              className="select select-bordered select-sm"
+              value={draftFilters.txType}
+              onChange={(e) => updateDraft('txType', e.target.value)}
+            >
+              <option value="">All types</option>
+              {TX_TYPES.map((t) => (
+                <option key={t.value} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="select select-bordered select-sm"
+              value={draftFilters.direction}
+              onChange={(e) => updateDraft('direction', e.target.value as TxnFilters['direction'])}
+            >
+              <option value="all">In &amp; out</option>
+              <option value="in">Incoming</option>
+              <option value="out">Outgoing</option>
+            </select>
+            <input
+              className="input input-bordered input-sm"
+              inputMode="numeric"
+              placeholder="Asset ID"
+              value={draftFilters.assetId}
+              onChange={(e) => updateDraft('assetId', e.target.value.replace(/\D/g, ''))}
+            />
+            <input
+              className="input input-bordered input-sm font-mono"
+              placeholder="Counterparty address"
+              value={draftFilters.counterparty}
+              onChange={(e) => updateDraft('counterparty', e.target.value.trim())}
+            />
+            <input
+              className="input input-bordered input-sm"
+              inputMode="numeric"
+              placeholder="Min round"
+              value={draftFilters.minRound}
+              onChange={(e) => updateDraft('minRound', e.target.value.replace(/\D/g, ''))}
+            />
+            <input
+              className="input input-bordered input-sm"
+              inputMode="numeric"
+              placeholder="Max round"
+              value={draftFilters.maxRound}
+              onChange={(e) => updateDraft('maxRound', e.target.value.replace(/\D/g, ''))}
+            />
+            <input
+              className="input input-bordered input-sm"
+              type="date"
+              title="From date"
+              value={draftFilters.afterDate}
+              onChange={(e) => updateDraft('afterDate', e.target.value)}
+            />
+            <input
+              className="input input-bordered input-sm"
+              type="date"
+              title="To date"
+              value={draftFilters.beforeDate}
+              onChange={(e) => updateDraft('beforeDate', e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              className="btn btn-ghost btn-xs"
+              onClick={() => {
+                setDraftFilters(EMPTY_TXN_FILTERS)
+                setFilters(EMPTY_TXN_FILTERS)
+              }}
+            >
+              Clear
+            </button>
+            <button className="btn btn-primary btn-xs" onClick={() => setFilters(draftFilters)}>
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Type</th>
+              <th>Amount</th>
+              <th>Asset</th>
+              <th>Counterparty</th>
+              <th>Fee</th>
+              <th>Round</th>
+              <th>Tx ID</th>
+            </tr>
+          </thead>
+          <tbody>
+            {txns.length === 0 && !loading && (
+              <tr>
+                <td colSpan={7} className="text-center text-gray-400">
+                  No transactions found.
+                </td>
+              </tr>
+            )}
+
+            {txns.map((t, index) => (
+              <tr key={`${t.id}-${t.round ?? 'r'}-${index}`} className="hover cursor-pointer" onClick={() => setSelected(t)}>
+                <td className="capitalize">{t.type ?? 'Unknown'}</td>
+                <td className={`font-mono ${amountClass(t)}`}>{formatTxnAmount(t)}</td>
+                <td title={t.assetId != null ? `#${t.assetId}` : undefined}>
+                  {t.assetId == null ? (
+                    'ALGO'
+                  ) : (
+                    <AssetLink assetId={t.assetId}>{assetCache.peek(t.assetId)?.unitName ?? t.assetId}</AssetLink>
+                  )}
+                </td>
+                <td className={`text-xs ${labelFor(t.counterparty) ? 'font-semibold' : 'font-mono'}`} title={t.counterparty}>
+                  {t.direction === 'self' ? 'Self' : t.counterparty ? (labelFor(t.counterparty) ?? ellipseAddress(t.counterparty, 4)) : '—'}
+                </td>
+                <td className="text-xs">{t.sender === address ? formatBaseUnits(t.fee, 6) : '—'}</td>
+                <td>{t.round ?? '—'}</td>
+                <td className="font-mono text-[10px]">{ellipseAddress(t.id)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-center mt-2">
+        {loading ? (
+          <span className="loading loading-spinner loading-sm" />
+        ) : (
+          nextToken && (
+            <button className="btn btn-sm btn-outline" onClick={() => void fetchPage(nextToken)}>
+              Load more
+            </button>
+          )
+        )}
+      </div>
+
+      <TransactionDetailDrawer txn={selected} onClose={() => setSelected(null)} />
+    </div>
+  )
+}
+
+export default TransactionHistory
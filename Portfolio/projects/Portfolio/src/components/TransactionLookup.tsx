@@ -0,0 +1,67 @@
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import React, { useEffect, useState } from 'react'
+import { useAppNetwork } from '../contexts/NetworkContext'
+import { useErrorReporter } from '../hooks/useErrorReporter'
+import { Txn } from '../interfaces/portfolio'
+import { lookupTransaction } from '../services/algorandData'
+import { toTxn } from '../utils/transactions'
+import TransactionDetailDrawer from './TransactionDetailDrawer'
+
+interface Props {
+  /** Transaction to look up; nothing is shown while this is null */
+  txId: string | null
+  onClose: () => void
+}
+
+/** Detail drawer for a transaction known only by id, e.g. from a shared link. */
+const TransactionLookup: React.FC<Props> = ({ txId, onClose }) => {
+  const { activeAddress } = useWallet()
+  const { algorand, assetCache } = useAppNetwork()
+  const { enqueueSnackbar } = useSnackbar()
+  const reportError = useErrorReporter()
+  const [txn, setTxn] = useState<Txn | null>(null)
+
+  useEffect(() => {
+    setTxn(null)
+    if (!txId) return
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const t = await lookupTransaction(algorand.client.indexer, txId)
+        if (cancelled) return
+        if (!t) {
+          enqueueSnackbar('Transaction not found on this network', { variant: 'warning' })
+          onClose()
+          return
+        }
+        const assetId = t.assetTransferTransaction ? Number(t.assetTransferTransaction.assetId) : undefined
+        const asset = assetId != null ? await assetCache.get(assetId) : null
+        // Directions and net effects are shown relative to the connected account, if it took part
+        if (!cancelled) setTxn(toTxn(t, 0, activeAddress ?? '', () => asset?.decimals))
+      } catch (e) {
+        if (cancelled) return
+        reportError('Could not load the transaction', e)
+        onClose()
+      }
+    }
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [txId, algorand, assetCache, activeAddress])
+
+  if (txId && !txn) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+        <span className="loading loading-spinner loading-lg text-white" />
+      </div>
+    )
+  }
+
+  // Following a link replaces the transaction route, so only the drawer itself needs closing
+  return <TransactionDetailDrawer txn={txn} onClose={onClose} onOpenLink={() => setTxn(null)} />
+}
+
+export default TransactionLookup
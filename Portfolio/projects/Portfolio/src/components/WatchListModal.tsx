@@ -0,0 +1,105 @@
+import React, { useState } from 'react'
+import { WatchedAccount } from '../interfaces/portfolio'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { MAX_WATCH_LABEL_LENGTH, validateWatchedAccount } from '../utils/watchList'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+  watched: WatchedAccount[]
+  /** Addresses of connected wallet accounts, which need no watching */
+  connected: string[]
+  onChange: (accounts: WatchedAccount[]) => void
+}
+
+const WatchListModal: React.FC<Props> = ({ open, onClose, watched, connected, onChange }) => {
+  const [address, setAddress] = useState('')
+  const [label, setLabel] = useState('')
+
+  const error = address || label ? validateWatchedAccount({ address, label }, watched, connected) : null
+
+  const add = () => {
+    if (error) return
+    onChange([...watched, { address: address.trim(), label: label.trim() }])
+    setAddress('')
+    setLabel('')
+  }
+
+  const rename = (target: string, next: string) =>
+    onChange(watched.map((w) => (w.address === target ? { ...w, label: next.slice(0, MAX_WATCH_LABEL_LENGTH) } : w)))
+
+  return (
+    <dialog className={`modal ${open ? 'modal-open' : ''}`}>
+      <form method="dialog" className="modal-box max-w-2xl" onSubmit={(e) => e.preventDefault()}>
+        <h3 className="font-bold text-lg mb-2">Watched Accounts</h3>
+        <p className="text-sm text-gray-500 mb-2">
+          Follow any address read-only, without connecting its wallet. The list is stored in this browser only.
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-2 mb-1">
+          <input
+            className="input input-bordered input-sm flex-1 font-mono text-xs"
+            placeholder="Address"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+          <input
+            className="input input-bordered input-sm sm:w-40"
+            placeholder="Label"
+            maxLength={MAX_WATCH_LABEL_LENGTH}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <button type="button" className={`btn btn-sm btn-primary ${!address || !label || error ? 'btn-disabled' : ''}`} onClick={add}>
+            Watch
+          </button>
+        </div>
+        {error && <p className="text-xs text-error mb-2">{error}</p>}
+
+        <div className="overflow-x-auto mt-2">
+          <table className="table table-sm">
+            <tbody>
+              {watched.length === 0 && (
+                <tr>
+                  <td className="text-center text-gray-400">No watched accounts yet.</td>
+                </tr>
+              )}
+              {watched.map((w) => (
+                <tr key={w.address}>
+                  <td>
+                    <input
+                      className="input input-ghost input-xs w-full"
+                      value={w.label}
+                      onChange={(e) => rename(w.address, e.target.value)}
+                      onBlur={(e) => !e.target.value.trim() && rename(w.address, ellipseAddress(w.address))}
+                    />
+                  </td>
+                  <td className="font-mono text-xs" title={w.address}>
+                    {ellipseAddress(w.address)}
+                  </td>
+                  <td className="text-right">
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => onChange(watched.filter((other) => other.address !== w.address))}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </form>
+    </dialog>
+  )
+}
+
+export default WatchListModal
@@ -0,0 +1,152 @@
+import type { TransactionComposer } from '@algorandfoundation/algokit-utils/types/composer'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { ActivityEntry } from '../interfaces/portfolio'
+import { ACTIVITY_POLL_INTERVAL_MS, checkPendingActivity, localActivityStorage } from '../services/activity'
+import { recordActivity, removeActivity, updateActivity } from '../utils/activity'
+import { classifyError, describeError } from '../utils/errors'
+import { useAppNetwork } from './NetworkContext'
+
+type SendResult = Awaited<ReturnType<TransactionComposer['send']>>
+
+interface ActivityContextValue {
+  /** Activity of the wallet's active account on the selected network, newest first */
+  entries: ActivityEntry[]
+  pendingCount: number
+  /**
+   * Signs and sends the composer's group, recording it as pending before it is submitted so that a reload
+   * while it confirms does not lose it. Errors are rethrown for the caller to report.
+   */
+  sendTracked: (composer: TransactionComposer, activity: { kind: string; summary: string }) => Promise<SendResult>
+  /** Removes confirmed and failed entries */
+  clearFinished: () => void
+}
+
+const ActivityContext = createContext<ActivityContextValue | undefined>(undefined)
+
+export const ActivityProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { activeAddress } = useWallet()
+  const { algorand, network } = useAppNetwork()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const storage = useMemo(() => localActivityStorage(network.id), [network.id])
+  const [entries, setEntries] = useState<ActivityEntry[]>([])
+  // Sends in progress in this page are settled by their own send call, not by polling
+  const sendingRef = useRef(new Set<string>())
+  const addressRef = useRef(activeAddress)
+  addressRef.current = activeAddress
+
+  useEffect(() => {
+    setEntries(activeAddress ? storage.read(activeAddress) : [])
+  }, [storage, activeAddress])
+
+  /** Applies a change to an account's stored list; the account may no longer be the active one when a send settles. */
+  const update = useCallback(
+    (address: string, change: (prev: ActivityEntry[]) => ActivityEntry[]) => {
+      const next = change(storage.read(address))
+      storage.write(address, next)
+      if (address === addressRef.current) setEntries(next)
+    },
+    [storage],
+  )
+
+  const sendTracked = useCallback(
+    async (composer: TransactionComposer, activity: { kind: string; summary: string }) => {
+      const { transactions } = await composer.build()
+      const txIds = transactions.map((t) => t.txn.txID())
+      const owner = transactions[0].txn.sender.toString()
+      const txId = txIds[0]
+      update(owner, (prev) =>
+        recordActivity(prev, {
+          ...activity,
+          txId,
+          txIds,
+          status: 'pending',
+          submittedAt: Date.now(),
+          lastValid: Math.max(...transactions.map((t) => Number(t.txn.lastValid))),
+        }),
+      )
+
+      sendingRef.current.add(txId)
+      try {
+        const result = await composer.send()
+        update(owner, (prev) =>
+          updateActivity(prev, txId, { status: 'confirmed', confirmedRound: Number(result.confirmations[0]?.confirmedRound ?? 0) }),
+        )
+        return result
+      } catch (e) {
+        const { kind, message } = classifyError(e)
+        // Nothing reached the network when signing was cancelled. When the node became unreachable the group
+        // may still confirm, so it stays pending and polling settles it.
+        if (kind === 'user-rejected') update(owner, (prev) => removeActivity(prev, txId))
+        else if (kind !== 'network-unreachable') update(owner, (prev) => updateActivity(prev, txId, { status: 'failed', error: message }))
+        throw e
+      } finally {
+        sendingRef.current.delete(txId)
+      }
+    },
+    [update],
+  )
+
+  const hasPending = entries.some((e) => e.status === 'pending')
+
+  // Pending entries left over from a reload (or a lost connection) are checked until they settle
+  useEffect(() => {
+    if (!activeAddress || !hasPending) return
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    /** Polling retries on its own, so a failure is only shown once until a check succeeds again */
+    let warned = false
+
+    const poll = async () => {
+      const pending = storage.read(activeAddress).filter((e) => e.status === 'pending' && !sendingRef.current.has(e.txId))
+      for (const entry of pending) {
+        try {
+          const result = await checkPendingActivity(algorand.client.algod, algorand.client.indexer, entry)
+          if (cancelled) return
+          warned = false
+          if (!result) continue
+          update(activeAddress, (prev) => updateActivity(prev, entry.txId, result))
+          enqueueSnackbar(
+            result.status === 'confirmed'
+              ? `${entry.kind} confirmed in round ${result.confirmedRound}`
+              : `${entry.kind} failed: ${result.error}`,
+            { variant: result.status === 'confirmed' ? 'success' : 'error' },
+          )
+        } catch (e) {
+          if (!cancelled && !warned)
+            enqueueSnackbar(describeError('Could not check pending transactions, retrying', e), { variant: 'warning' })
+          warned = true
+        }
+      }
+      if (!cancelled) timer = setTimeout(() => void poll(), ACTIVITY_POLL_INTERVAL_MS)
+    }
+    void poll()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [activeAddress, hasPending, algorand, storage, update, enqueueSnackbar])
+
+  const value = useMemo(
+    () => ({
+      entries,
+      pendingCount: entries.filter((e) => e.status === 'pending').length,
+      sendTracked,
+      clearFinished: () => activeAddress && update(activeAddress, (prev) => prev.filter((e) => e.status === 'pending')),
+    }),
+    [entries, sendTracked, update, activeAddress],
+  )
+
+  return <ActivityContext.Provider value={value}>{children}</ActivityContext.Provider>
+}
+
+export function useActivity(): ActivityContextValue {
+  const context = useContext(ActivityContext)
+  if (!context) {
+    throw new Error('useActivity must be used within the ActivityProvider')
+  }
+  return context
+}
@@ -0,0 +1,55 @@
+import React, { createContext, ReactNode, useCallback, useContext, useMemo, useState } from 'react'
+import { AddressBookEntry } from '../interfaces/portfolio'
+import { NameResolver, nameResolversFor } from '../services/nameResolver'
+import { loadAddressBook, mergeAddressBooks, saveAddressBook, upsertAddressBookEntry } from '../utils/addressBook'
+import { useAppNetwork } from './NetworkContext'
+
+interface AddressBookContextValue {
+  entries: AddressBookEntry[]
+  /** Label of a saved address, if any */
+  labelFor: (address: string | undefined) => string | undefined
+  /** Adds an entry or replaces the one at `originalAddress` */
+  saveEntry: (entry: AddressBookEntry, originalAddress?: string) => void
+  removeEntry: (address: string) => void
+  importEntries: (entries: AddressBookEntry[]) => void
+  /** Name resolvers for the selected network */
+  resolvers: NameResolver[]
+}
+
+const AddressBookContext = createContext<AddressBookContextValue | undefined>(undefined)
+
+export const AddressBookProvider: React.FC<{ children: ReactNode; resolvers?: NameResolver[] }> = ({ children, resolvers }) => {
+  const { networkName } = useAppNetwork()
+  const [entries, setEntries] = useState<AddressBookEntry[]>(() => loadAddressBook())
+
+  const update = useCallback((change: (prev: AddressBookEntry[]) => AddressBookEntry[]) => {
+    setEntries((prev) => {
+      const next = change(prev)
+      saveAddressBook(next)
+      return next
+    })
+  }, [])
+
+  const value = useMemo(() => {
+    const labels = new Map(entries.map((e) => [e.address, e.label]))
+    return {
+      entries,
+      labelFor: (address: string | undefined) => (address ? labels.get(address) : undefined),
+      saveEntry: (entry: AddressBookEntry, originalAddress?: string) =>
+        update((prev) => upsertAddressBookEntry(prev, entry, originalAddress)),
+      removeEntry: (address: string) => update((prev) => prev.filter((e) => e.address !== address)),
+      importEntries: (imported: AddressBookEntry[]) => update((prev) => mergeAddressBooks(prev, imported)),
+      resolvers: resolvers ?? nameResolversFor(networkName),
+    }
+  }, [entries, update, resolvers, networkName])
+
+  return <AddressBookContext.Provider value={value}>{children}</AddressBookContext.Provider>
+}
+
+export function useAddressBook(): AddressBookContextValue {
+  const context = useContext(AddressBookContext)
+  if (!context) {
+    throw new Error('useAddressBook must be used within the AddressBookProvider')
+  }
+  return context
+}
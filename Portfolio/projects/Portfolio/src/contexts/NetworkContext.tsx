@@ -0,0 +1,111 @@
+import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { useSnackbar } from 'notistack'
+import React, { createContext, ReactNode, useCallback, useContext, useMemo, useState } from 'react'
+import { NetworkPreset } from '../interfaces/network'
+import { AssetMetadataCache, createAssetMetadataCache, localAssetCacheStorage } from '../services/assetMetadataCache'
+import { getNetworkPresetFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import {
+  getNetworkName,
+  loadCustomNetworks,
+  loadSelectedNetworkId,
+  mergeNetworkPresets,
+  saveCustomNetworks,
+  saveSelectedNetworkId,
+  withEnvironmentPreset,
+} from '../utils/network/networkPresets'
+
+interface NetworkContextValue {
+  /** Currently selected network preset */
+  network: NetworkPreset
+  /** Lower-cased Algorand network type of the selected preset (localnet/testnet/mainnet...) */
+  networkName: string
+  /** All presets available for selection, built-in first */
+  networks: NetworkPreset[]
+  /** AlgorandClient bound to the selected preset's algod and indexer */
+  algorand: AlgorandClient
+  /** ASA metadata cache for the selected network */
+  assetCache: AssetMetadataCache
+  setNetworkId: (id: string) => void
+  saveCustomNetwork: (preset: NetworkPreset) => void
+  removeCustomNetwork: (id: string) => void
+}
+
+const NetworkContext = createContext<NetworkContextValue | undefined>(undefined)
+
+const envPreset = getNetworkPresetFromViteEnvironment()
+const builtInNetworks = withEnvironmentPreset(envPreset)
+
+export const NetworkProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { enqueueSnackbar } = useSnackbar()
+  const [customNetworks, setCustomNetworks] = useState<NetworkPreset[]>(() => loadCustomNetworks())
+  const [selectedId, setSelectedId] = useState<string>(() => loadSelectedNetworkId() ?? envPreset?.id ?? builtInNetworks[0].id)
+
+  const networks = useMemo(() => mergeNetworkPresets(builtInNetworks, customNetworks), [customNetworks])
+  const network = networks.find((n) => n.id === selectedId) ?? networks[0]
+
+  const algorand = useMemo(
+    () => AlgorandClient.fromConfig({ algodConfig: network.algod, indexerConfig: network.indexer }),
+    [network.algod, network.indexer],
+  )
+
+  const assetCache = useMemo(() => {
+    // Failed lookups are retried on every refresh, so each asset is only reported once per network
+    const reported = new Set<number>()
+    return createAssetMetadataCache(
+      { algod: algorand.client.algod, indexer: algorand.client.indexer },
+      {
+        storage: localAssetCacheStorage(network.id),
+        onError: (assetId) => {
+          if (reported.has(assetId)) return
+          reported.add(assetId)
+          enqueueSnackbar(`Could not load details of asset #${assetId}`, { variant: 'warning', preventDuplicate: true })
+        },
+      },
+    )
+  }, [algorand, network.id, enqueueSnackbar])
+
+  const setNetworkId = useCallback((id: string) => {
+    setSelectedId(id)
+    saveSelectedNetworkId(id)
+  }, [])
+
+  const saveCustomNetwork = useCallback((preset: NetworkPreset) => {
+    setCustomNetworks((prev) => {
+      const next = [...prev.filter((p) => p.id !== preset.id), { ...preset, custom: true }]
+      saveCustomNetworks(next)
+      return next
+    })
+  }, [])
+
+  const removeCustomNetwork = useCallback((id: string) => {
+    setCustomNetworks((prev) => {
+      const next = prev.filter((p) => p.id !== id)
+      saveCustomNetworks(next)
+      return next
+    })
+  }, [])
+
+  const value = useMemo(
+    () => ({
+      network,
+      networkName: getNetworkName(network),
+      networks,
+      algorand,
+      assetCache,
+      setNetworkId,
+      saveCustomNetwork,
+      removeCustomNetwork,
+    }),
+    [network, networks, algorand, assetCache, setNetworkId, saveCustomNetwork, removeCustomNetwork],
+  )
+
+  return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>
+}
+
+export function useAppNetwork(): NetworkContextValue {
+  const context = useContext(NetworkContext)
+  if (!context) {
+    throw new Error('useAppNetwork must be used within the NetworkProvider')
+  }
+  return context
+}
@@ -0,0 +1,72 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { isOverlayRoute, parseRoute, Route, routeHref } from '../utils/routes'
+
+interface RouterContextValue {
+  /** Route of the current URL */
+  route: Route
+  /** Page shown underneath: the current route, or for modal routes the page they were opened over */
+  page: Route
+  navigate: (route: Route, options?: { replace?: boolean }) => void
+  /** Goes back to where the user came from within the app, or to the dashboard when the URL was opened directly */
+  back: () => void
+}
+
+/** Kept in `history.state` to tell in-app entries from the one the app was loaded with */
+interface HistoryState {
+  depth: number
+}
+
+const RouterContext = createContext<RouterContextValue | undefined>(undefined)
+
+const DASHBOARD: Route = { name: 'dashboard' }
+
+const currentRoute = () => parseRoute(window.location.pathname, window.location.search)
+
+/** Minimal History API router; routes and their URLs are defined in utils/routes. */
+export const RouterProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [state, setState] = useState(() => {
+    const route = currentRoute()
+    return { route, page: isOverlayRoute(route) ? DASHBOARD : route }
+  })
+
+  const show = useCallback((route: Route) => {
+    setState((prev) => {
+      if (isOverlayRoute(route)) return { route, page: prev.page }
+      if (routeHref(route) !== routeHref(prev.page)) window.scrollTo({ top: 0 })
+      return { route, page: route }
+    })
+  }, [])
+
+  useEffect(() => {
+    const onPopState = () => show(currentRoute())
+    window.addEventListener('popstate', onPopState)
+    return () => window.removeEventListener('popstate', onPopState)
+  }, [show])
+
+  const navigate = useCallback(
+    (route: Route, options?: { replace?: boolean }) => {
+      const depth = (window.history.state as HistoryState | null)?.depth ?? 0
+      if (options?.replace) window.history.replaceState({ depth }, '', routeHref(route))
+      else window.history.pushState({ depth: depth + 1 }, '', routeHref(route))
+      show(route)
+    },
+    [show],
+  )
+
+  const back = useCallback(() => {
+    if (((window.history.state as HistoryState | null)?.depth ?? 0) > 0) window.history.back()
+    else navigate(isOverlayRoute(state.route) ? state.page : DASHBOARD, { replace: true })
+  }, [navigate, state])
+
+  const value = useMemo(() => ({ ...state, navigate, back }), [state, navigate, back])
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>
+}
+
+export function useRouter(): RouterContextValue {
+  const context = useContext(RouterContext)
+  if (!context) {
+    throw new Error('useRouter must be used within the RouterProvider')
+  }
+  return context
+}
@@ -0,0 +1,20 @@
+import { useSnackbar } from 'notistack'
+import { useCallback } from 'react'
+import { Route, routeHref } from '../utils/routes'
+
+/** Returns a function that copies the absolute URL of a route, for sharing pre-filled flows and pages. */
+export function useCopyLink() {
+  const { enqueueSnackbar } = useSnackbar()
+
+  return useCallback(
+    async (route: Route) => {
+      try {
+        await navigator.clipboard.writeText(new URL(routeHref(route), window.location.origin).toString())
+        enqueueSnackbar('Link copied to clipboard', { variant: 'success' })
+      } catch (e) {
+        enqueueSnackbar('Failed to copy link', { variant: 'warning' })
+      }
+    },
+    [enqueueSnackbar],
+  )
+}
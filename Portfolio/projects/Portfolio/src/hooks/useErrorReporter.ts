@@ -0,0 +1,24 @@
+import { useSnackbar } from 'notistack'
+import { useCallback } from 'react'
+import { ClassifiedError, classifyError, describeError } from '../utils/errors'
+
+/**
+ * Returns a function that classifies an error and shows it as a snackbar. Cancelling in the wallet is
+ * a choice rather than a failure, so it is reported quietly.
+ */
+export function useErrorReporter() {
+  const { enqueueSnackbar } = useSnackbar()
+
+  return useCallback(
+    (context: string, error: unknown): ClassifiedError => {
+      const classified = classifyError(error)
+      if (classified.kind === 'user-rejected') {
+        enqueueSnackbar(`${context}: cancelled in the wallet`, { variant: 'info' })
+        return classified
+      }
+      enqueueSnackbar(describeError(context, error), { variant: classified.retryable ? 'warning' : 'error' })
+      return classified
+    },
+    [enqueueSnackbar],
+  )
+}
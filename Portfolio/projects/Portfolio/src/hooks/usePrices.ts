@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Currency, PriceProvider, priceProvidersFor } from '../services/prices'
+import { classifyError } from '../utils/errors'
+import { readJson, storageKey, writeJson } from '../utils/storage'
+
+export interface PriceSettings {
+  providerId: string
+  currency: Currency
+}
+
+const PRICE_SETTINGS_KEY = storageKey('prices')
+
+export interface PricesState {
+  settings: PriceSettings
+  updateSettings: (settings: PriceSettings) => void
+  /** Providers that apply to the current network */
+  providers: PriceProvider[]
+  provider?: PriceProvider
+  /** Price per whole unit by asset id (0 for ALGO); empty while loading or on failure */
+  prices: Map<number, number>
+  loading: boolean
+  error?: string
+}
+
+/** Loads fiat prices for `assetIds` from the chosen provider, reloading when the ids, provider or currency change. */
+export function usePrices(networkName: string, assetIds: number[]): PricesState {
+  const [settings, setSettings] = useState<PriceSettings>(() =>
+    readJson<PriceSettings>(PRICE_SETTINGS_KEY, { providerId: 'coingecko', currency: 'usd' }),
+  )
+  const [prices, setPrices] = useState<Map<number, number>>(new Map())
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string>()
+
+  const providers = useMemo(() => priceProvidersFor(networkName), [networkName])
+  // Fall back to the first provider that serves this network, e.g. the price file on LocalNet
+  const provider = providers.find((p) => p.id === settings.providerId) ?? providers[0]
+  const idsKey = [...new Set(assetIds)].sort((a, b) => a - b).join(',')
+
+  useEffect(() => {
+    setPrices(new Map())
+    setError(undefined)
+    if (!provider || !idsKey) return
+
+    let cancelled = false
+    setLoading(true)
+    provider
+      .getPrices(idsKey.split(',').map(Number), settings.currency)
+      .then((result) => !cancelled && setPrices(result))
+      .catch((e) => !cancelled && setError(classifyError(e).message))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [provider, idsKey, settings.currency])
+
+  const updateSettings = (next: PriceSettings) => {
+    setSettings(next)
+    writeJson(PRICE_SETTINGS_KEY, next)
+  }
+
+  return { settings, updateSettings, providers, provider, prices, loading, error }
+}
@@ -0,0 +1,74 @@
+import algosdk from 'algosdk'
+import { useEffect, useRef, useState } from 'react'
+import { describeError } from '../utils/errors'
+
+/** 'block' follows algod's status-after-block endpoint; a number polls every that many milliseconds. */
+export type LiveSource = 'block' | number
+
+const RETRY_DELAY_MS = 5000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function usePageVisible(): boolean {
+  const [visible, setVisible] = useState(() => typeof document === 'undefined' || document.visibilityState === 'visible')
+  useEffect(() => {
+    const update = () => setVisible(document.visibilityState === 'visible')
+    document.addEventListener('visibilitychange', update)
+    return () => document.removeEventListener('visibilitychange', update)
+  }, [])
+  return visible
+}
+
+/**
+ * Calls `onTick` whenever a new round is seen (or on every poll interval) while `enabled` and the page is visible.
+ * It also ticks once when the page becomes visible again so changes made while hidden show up straight away.
+ * Returns why following rounds is failing while it retries, or null while it works.
+ */
+export function useRoundWatcher(algod: algosdk.Algodv2, enabled: boolean, source: LiveSource, onTick: () => void): string | null {
+  const visible = usePageVisible()
+  const onTickRef = useRef(onTick)
+  onTickRef.current = onTick
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setError(null)
+    if (!enabled || !visible) return
+    let cancelled = false
+
+    if (typeof source === 'number') {
+      onTickRef.current()
+      const timer = setInterval(() => onTickRef.current(), source)
+      return () => clearInterval(timer)
+    }
+
+    const follow = async () => {
+      let round: bigint | undefined
+      onTickRef.current()
+      while (!cancelled) {
+        try {
+          if (round == null) {
+            round = (await algod.status().do()).lastRound
+            continue
+          }
+          // statusAfterBlock returns once the node has passed `round`, or unchanged after its own timeout (about a minute)
+          const status = await algod.statusAfterBlock(round).do()
+          if (cancelled || status.lastRound === round) continue
+          round = status.lastRound
+          setError(null)
+          onTickRef.current()
+        } catch (e) {
+          if (cancelled) return
+          setError(describeError('Following new rounds failed, retrying', e))
+          await sleep(RETRY_DELAY_MS)
+        }
+      }
+    }
+    void follow()
+
+    return () => {
+      cancelled = true
+    }
+  }, [algod, enabled, visible, source])
+
+  return error
+}
@@ -0,0 +1,39 @@
+import algosdk from 'algosdk'
+import { useCallback, useState } from 'react'
+import { simulateTransactions, SimulationResult } from '../services/simulation'
+import { ClassifiedError, classifyError } from '../utils/errors'
+
+export interface SimulationState {
+  loading: boolean
+  result?: SimulationResult
+  /** Set when the simulation itself could not run, e.g. the node is unreachable */
+  error?: ClassifiedError
+}
+
+/**
+ * Simulates transactions for `address` before they are signed. Signing should only be offered when `canSign`
+ * is true: the last simulation ran and the group would be accepted.
+ */
+export function useSimulation(algod: algosdk.Algodv2, address: string | null | undefined) {
+  const [state, setState] = useState<SimulationState>({ loading: false })
+
+  const run = useCallback(
+    async (transactions: algosdk.Transaction[]): Promise<SimulationResult | undefined> => {
+      if (!address) return undefined
+      setState({ loading: true })
+      try {
+        const result = await simulateTransactions(algod, transactions, address)
+        setState({ loading: false, result })
+        return result
+      } catch (e) {
+        setState({ loading: false, error: classifyError(e) })
+        return undefined
+      }
+    },
+    [algod, address],
+  )
+
+  const reset = useCallback(() => setState({ loading: false }), [])
+
+  return { ...state, run, reset, canSign: !state.loading && !!state.result?.ok }
+}
@@ -24,3 +24,18 @@ export interface AlgoViteKMDConfig extends AlgoClientConfig {
   /** KMD wallet password */
   password: string
 }
+
+export interface NetworkPreset {
+  /** Unique key of the preset, also used as the use-wallet network id */
+  id: string
+  /** Human readable label shown in the network selector */
+  label: string
+  /** Algod connection details */
+  algod: AlgoViteClientConfig
+  /** Indexer connection details */
+  indexer: AlgoViteClientConfig
+  /** KMD connection details, only used for LocalNet style networks */
+  kmd?: AlgoViteKMDConfig
+  /** Whether the preset was defined by the user at runtime */
+  custom?: boolean
+}
@@ -0,0 +1,130 @@
+import type { indexerModels } from 'algosdk'
+
+export interface AssetHolding {
+  /** ASA id */
+  assetId: number
+  /** Balance held, in the asset's base units */
+  amount: bigint
+  /** Whether the holding is frozen by the asset's freeze account */
+  isFrozen?: boolean
+  /** Number of decimal places the asset uses */
+  decimals?: number
+  /** Asset name */
+  name?: string
+  /** Asset unit name */
+  unitName?: string
+}
+
+export interface AssetDetails {
+  /** ASA id */
+  assetId: number
+  /** Asset name */
+  name?: string
+  /** Asset unit name */
+  unitName?: string
+  /** Number of decimal places the asset uses */
+  decimals: number
+  /** Total supply, in base units */
+  total: bigint
+  /** Whether new holdings start frozen */
+  defaultFrozen: boolean
+  /** Asset URL, e.g. ARC-3 metadata or an ARC-19 template */
+  url?: string
+  /** Role addresses; an absent role has been cleared and can never be set again */
+  creator: string
+  manager?: string
+  reserve?: string
+  freeze?: string
+  clawback?: string
+  /** Set when the asset has been destroyed; params are the last ones the indexer saw */
+  deleted?: boolean
+}
+
+/** Direction of a transaction relative to the account it was loaded for. */
+export type TxnFlow = 'in' | 'out' | 'self' | 'other'
+
+export interface Txn {
+  /** Transaction id, or a synthetic key for entries the indexer returns without one */
+  id: string
+  /** Friendly type for display: ALGO, ASA or the upper-cased indexer tx-type */
+  type: string
+  /** ASA id for asset transfers; undefined for ALGO payments */
+  assetId?: number
+  /** Transferred amount, in base units, excluding any close-out amount */
+  amount?: bigint
+  /** Decimals used to display `amount` */
+  decimals?: number
+  round?: number
+  /** Unix timestamp (seconds) of the confirming block */
+  timestamp?: number
+  /** Account that sent the transaction (and paid its fee) */
+  sender: string
+  /** Payment/asset receiver */
+  receiver?: string
+  /** Account that received the remaining balance when the sender closed out */
+  closeTo?: string
+  /** Clawback target of an asset transfer, i.e. the account the asset actually left */
+  assetSender?: string
+  /** Direction relative to the account */
+  direction: TxnFlow
+  /** Other party from the account's point of view, when there is one */
+  counterparty?: string
+  /** Fee in microAlgo */
+  fee: bigint
+  /** Signed change of the account's ALGO balance in microAlgo: transfers, close-outs, rewards, fees and inner transactions */
+  algoDelta: bigint
+  /** Signed change of the account's balance of `assetId`, in base units, including inner transactions */
+  assetDelta?: bigint
+  /** Raw indexer record, used by the detail view */
+  raw: indexerModels.Transaction
+}
+
+export type TxnDirection = 'all' | 'in' | 'out'
+
+export interface TxnFilters {
+  /** Indexer tx-type (pay, axfer, acfg, afrz, appl, keyreg...), empty for all */
+  txType: string
+  assetId: string
+  direction: TxnDirection
+  counterparty: string
+  minRound: string
+  maxRound: string
+  /** ISO dates (yyyy-mm-dd) bounding the confirmation time */
+  afterDate: string
+  beforeDate: string
+}
+
+/** An address followed read-only, without a connected wallet */
+export interface WatchedAccount {
+  address: string
+  label: string
+}
+
+export interface AddressBookEntry {
+  address: string
+  label: string
+  notes?: string
+  /** Lower-cased, unique */
+  tags: string[]
+}
+
+export type ActivityStatus = 'pending' | 'confirmed' | 'failed'
+
+/** A transaction group submitted from the app, tracked until it confirms or fails */
+export interface ActivityEntry {
+  /** Id of the group's first transaction; the entry links to it */
+  txId: string
+  /** Ids of every transaction in the group */
+  txIds: string[]
+  /** What was sent, e.g. "Payment" or "Opt-in" */
+  kind: string
+  /** One line describing the parameters */
+  summary: string
+  status: ActivityStatus
+  /** Unix timestamp (ms) of the submission */
+  submittedAt: number
+  /** Last round in which the group can confirm; still pending after it means it never will */
+  lastValid: number
+  confirmedRound?: number
+  error?: string
+}
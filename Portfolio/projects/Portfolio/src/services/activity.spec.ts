@@ -0,0 +1,58 @@
+import type algosdk from 'algosdk'
+import { ActivityEntry } from '../interfaces/portfolio'
+import { checkPendingActivity } from './activity'
+
+const entry: ActivityEntry = {
+  txId: 'TX',
+  txIds: ['TX'],
+  kind: 'Payment',
+  summary: '1 ALGO to X',
+  status: 'pending',
+  submittedAt: 0,
+  lastValid: 100,
+}
+
+const notFound = () => {
+  throw Object.assign(new Error('not found'), { response: { status: 404 } })
+}
+
+const request = <T>(result: T | (() => T)) => ({
+  do: async () => (typeof result === 'function' ? (result as () => T)() : result),
+})
+
+const clients = (pending: (() => object) | object, indexed: (() => object) | object, indexerRound = 50) => ({
+  algod: { pendingTransactionInformation: () => request(pending) } as unknown as algosdk.Algodv2,
+  indexer: {
+    lookupTransactionByID: () => request(indexed),
+    makeHealthCheck: () => request({ round: BigInt(indexerRound) }),
+  } as unknown as algosdk.Indexer,
+})
+
+describe('checkPendingActivity', () => {
+  it('should report confirmations and pool errors from algod', async () => {
+    const confirmed = clients({ confirmedRound: 12n, poolError: '' }, notFound)
+    await expect(checkPendingActivity(confirmed.algod, confirmed.indexer, entry)).resolves.toEqual({
+      status: 'confirmed',
+      confirmedRound: 12,
+    })
+
+    const rejected = clients({ poolError: 'transaction already in ledger' }, notFound)
+    await expect(checkPendingActivity(rejected.algod, rejected.indexer, entry)).resolves.toMatchObject({ status: 'failed' })
+
+    const waiting = clients({ poolError: '' }, notFound)
+    await expect(checkPendingActivity(waiting.algod, waiting.indexer, entry)).resolves.toBeNull()
+  })
+
+  it('should fall back to the indexer once algod has forgotten the transaction', async () => {
+    const { algod, indexer } = clients(notFound, { transaction: { confirmedRound: 30n } })
+    await expect(checkPendingActivity(algod, indexer, entry)).resolves.toEqual({ status: 'confirmed', confirmedRound: 30 })
+  })
+
+  it('should only declare expiry once the indexer is past the last valid round', async () => {
+    const lagging = clients(notFound, notFound, 100)
+    await expect(checkPendingActivity(lagging.algod, lagging.indexer, entry)).resolves.toBeNull()
+
+    const caughtUp = clients(notFound, notFound, 101)
+    await expect(checkPendingActivity(caughtUp.algod, caughtUp.indexer, entry)).resolves.toMatchObject({ status: 'failed' })
+  })
+})
@@ -0,0 +1,55 @@
+import algosdk from 'algosdk'
+import { ActivityEntry } from '../interfaces/portfolio'
+import { classifyLedgerMessage } from '../utils/errors'
+import { readJson, storageKey, writeJson } from '../utils/storage'
+import { isNotFoundError } from './algorandData'
+
+/** How often pending entries are checked while any are left */
+export const ACTIVITY_POLL_INTERVAL_MS = 4000
+
+/** Where the activity list survives page reloads; one instance per network, keyed by account. */
+export interface ActivityStorage {
+  read(address: string): ActivityEntry[]
+  write(address: string, entries: ActivityEntry[]): void
+}
+
+export function localActivityStorage(networkId: string): ActivityStorage {
+  return {
+    read: (address) => readJson<ActivityEntry[]>(storageKey('activity', networkId, address), []),
+    write: (address, entries) => writeJson(storageKey('activity', networkId, address), entries),
+  }
+}
+
+export type ActivityUpdate = Pick<ActivityEntry, 'status' | 'confirmedRound' | 'error'>
+
+/**
+ * Works out whether a pending entry has confirmed or failed; null while it may still confirm.
+ *
+ * Algod only remembers transactions while they are in its pool or were confirmed recently, so older
+ * confirmations are looked up on the indexer. An entry is only declared expired once the indexer has
+ * passed its last valid round, so indexer lag cannot turn a confirmed transaction into a failed one.
+ */
+export async function checkPendingActivity(
+  algod: algosdk.Algodv2,
+  indexer: algosdk.Indexer,
+  entry: ActivityEntry,
+): Promise<ActivityUpdate | null> {
+  try {
+    const info = await algod.pendingTransactionInformation(entry.txId).do()
+    if (info.confirmedRound) return { status: 'confirmed', confirmedRound: Number(info.confirmedRound) }
+    if (info.poolError) return { status: 'failed', error: classifyLedgerMessage(info.poolError)?.message ?? info.poolError }
+    return null
+  } catch (e) {
+    if (!isNotFoundError(e)) throw e
+  }
+
+  try {
+    const res = await indexer.lookupTransactionByID(entry.txId).do()
+    if (res.transaction.confirmedRound != null) return { status: 'confirmed', confirmedRound: Number(res.transaction.confirmedRound) }
+  } catch (e) {
+    if (!isNotFoundError(e)) throw e
+  }
+
+  const health = await indexer.makeHealthCheck().do()
+  return Number(health.round) > entry.lastValid ? { status: 'failed', error: 'The transaction expired without being confirmed' } : null
+}
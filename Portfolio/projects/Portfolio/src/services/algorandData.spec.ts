@@ -0,0 +1,130 @@
+import type algosdk from 'algosdk'
+import { EMPTY_TXN_FILTERS } from '../utils/transactions'
+import { fetchPortfolio, getAssetHolding, searchTransactions } from './algorandData'
+import { createAssetMetadataCache } from './assetMetadataCache'
+
+const ME = 'ME'
+const OTHER = 'OTHER'
+
+const request = <T>(result: T | (() => T)) => ({
+  do: async () => (typeof result === 'function' ? (result as () => T)() : result),
+})
+
+const params = (fields: Partial<algosdk.modelsv2.AssetParams>) =>
+  ({ creator: OTHER, decimals: 0, total: 1000n, defaultFrozen: false, ...fields }) as algosdk.modelsv2.AssetParams
+
+const assets: Record<number, algosdk.modelsv2.AssetParams> = {
+  1: params({ name: 'Held', unitName: 'HLD', decimals: 2 }),
+  2: params({ name: 'Managed', manager: ME }),
+  3: params({ name: 'Mine', creator: ME, manager: ME }),
+}
+
+const fakeAlgod = {
+  accountInformation: () =>
+    request({
+      amount: 5_000_000n,
+      minBalance: 400_000n,
+      pendingRewards: 0n,
+      totalAssetsOptedIn: 3,
+      totalAppsOptedIn: 0,
+      totalCreatedApps: 0,
+      assets: [
+        { assetId: 1n, amount: 12_345n, isFrozen: false },
+        { assetId: 2n, amount: 1n, isFrozen: true },
+        { assetId: 99n, amount: 7n, isFrozen: false },
+      ],
+      createdAssets: [{ index: 3n, params: assets[3] }],
+    }),
+  getAssetByID: (id: number | bigint) =>
+    request(() => {
+      if (!assets[Number(id)]) throw Object.assign(new Error('asset does not exist'), { response: { status: 404 } })
+      return { index: BigInt(id), params: assets[Number(id)] }
+    }),
+  accountAssetInformation: (address: string) =>
+    request(() => {
+      if (address !== ME) throw Object.assign(new Error('account asset info not found'), { response: { status: 404 } })
+      return { assetHolding: { amount: 10n, isFrozen: false } }
+    }),
+} as unknown as algosdk.Algodv2
+
+describe('fetchPortfolio', () => {
+  beforeEach(() => jest.spyOn(console, 'error').mockImplementation(() => undefined))
+  afterEach(() => jest.restoreAllMocks())
+
+  it('should keep amounts as bigint and attach asset metadata', async () => {
+    const { account, holdings } = await fetchPortfolio(fakeAlgod, createAssetMetadataCache({ algod: fakeAlgod }), ME)
+    expect(account.amount).toBe(5_000_000n)
+    expect(holdings[0]).toEqual({ assetId: 1, amount: 12_345n, isFrozen: false, decimals: 2, name: 'Held', unitName: 'HLD' })
+    expect(holdings[1].isFrozen).toBe(true)
+  })
+
+  it('should keep holdings whose metadata cannot be loaded', async () => {
+    const { holdings } = await fetchPortfolio(fakeAlgod, createAssetMetadataCache({ algod: fakeAlgod }), ME)
+    expect(holdings[2]).toEqual({ assetId: 99, amount: 7n, isFrozen: false })
+  })
+
+  it('should collect created and held assets the account manages', async () => {
+    const { managedAssets } = await fetchPortfolio(fakeAlgod, createAssetMetadataCache({ algod: fakeAlgod }), ME)
+    expect(managedAssets.map((a) => a.assetId).sort()).toEqual([2, 3])
+  })
+
+  it('should re-read roles the cache says the account holds', async () => {
+    const cache = createAssetMetadataCache({ algod: fakeAlgod })
+    await fetchPortfolio(fakeAlgod, cache, ME)
+    const cached = assets[2]
+    assets[2] = params({ name: 'Managed', manager: OTHER })
+    try {
+      const { managedAssets } = await fetchPortfolio(fakeAlgod, cache, ME)
+      expect(managedAssets.map((a) => a.assetId)).toEqual([3])
+      expect(cache.peek(2)).toBeUndefined()
+    } finally {
+      assets[2] = cached
+    }
+  })
+})
+
+describe('getAssetHolding', () => {
+  it('should return null when the account is not opted in', async () => {
+    await expect(getAssetHolding(fakeAlgod, OTHER, 1)).resolves.toBeNull()
+    await expect(getAssetHolding(fakeAlgod, ME, 1)).resolves.toEqual({ amount: 10n, isFrozen: false })
+  })
+})
+
+describe('searchTransactions', () => {
+  const fakeIndexer = (count: number, calls: [string, unknown][]) => {
+    const builder: Record<string, unknown> = {}
+    ;['address', 'limit', 'txType', 'assetID', 'addressRole', 'minRound', 'maxRound', 'afterTime', 'beforeTime', 'nextToken'].forEach(
+      (method) =>
+        (builder[method] = (value: unknown) => {
+          calls.push([method, value])
+          return builder
+        }),
+    )
+    builder.do = async () => ({ transactions: new Array(count).fill({ sender: ME, fee: 1000n }), nextToken: 'next' })
+    return { searchForTransactions: () => builder } as unknown as algosdk.Indexer
+  }
+
+  it('should translate filters into indexer query parameters', async () => {
+    const calls: [string, unknown][] = []
+    await searchTransactions(
+      fakeIndexer(0, calls),
+      ME,
+      { ...EMPTY_TXN_FILTERS, assetId: '5', direction: 'out', minRound: '10' },
+      { limit: 2 },
+    )
+    expect(calls).toEqual([
+      ['address', ME],
+      ['limit', 2],
+      ['assetID', 5n],
+      ['addressRole', 'sender'],
+      ['minRound', 10n],
+    ])
+  })
+
+  it('should only return a next token for full pages', async () => {
+    await expect(searchTransactions(fakeIndexer(2, []), ME, EMPTY_TXN_FILTERS, { limit: 2 })).resolves.toMatchObject({ nextToken: 'next' })
+    await expect(searchTransactions(fakeIndexer(1, []), ME, EMPTY_TXN_FILTERS, { limit: 2 })).resolves.toMatchObject({
+      nextToken: undefined,
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import algosdk, { indexerModels } from 'algosdk'
+import { AssetDetails, AssetHolding, TxnFilters } from '../interfaces/portfolio'
+import { ASA_ROLES, managedRoles, toAssetDetails } from '../utils/asaParams'
+import { MinBalanceUsage } from '../utils/minBalance'
+import type { AssetMetadataCache } from './assetMetadataCache'
+
+/**
+ * Typed read access to algod and the indexer for the dashboard.
+ *
+ * Functions take the raw algosdk clients (`algorand.client.algod` / `algorand.client.indexer`) rather than an
+ * AlgorandClient, so tests can pass small fakes that only implement the calls being exercised.
+ */
+
+export interface AccountSummary {
+  address: string
+  /** Total balance in microAlgo, including pending rewards */
+  amount: bigint
+  /** Minimum balance the account must keep, in microAlgo */
+  minBalance: bigint
+  pendingRewards: bigint
+  /** Counters behind the minimum balance, for itemising it */
+  minBalanceUsage: MinBalanceUsage
+  /** ASA holdings without metadata */
+  holdings: AssetHolding[]
+  /** Assets created by the account, with their current params */
+  createdAssets: AssetDetails[]
+}
+
+export interface PortfolioSnapshot {
+  account: AccountSummary
+  /** Holdings enriched with name, unit and decimals where the asset could be looked up */
+  holdings: AssetHolding[]
+  /** Created or held assets where the account holds the manager, reserve, freeze or clawback role */
+  managedAssets: AssetDetails[]
+}
+
+export interface TransactionPage {
+  transactions: indexerModels.Transaction[]
+  /** Token for the following page; undefined once the history is exhausted */
+  nextToken?: string
+  /** Round the indexer had caught up to when answering */
+  currentRound?: number
+}
+
+/** True when a client call failed because the resource does not exist (HTTP 404). */
+export function isNotFoundError(e: unknown): boolean {
+  return (e as { response?: { status?: number } } | null)?.response?.status === 404
+}
+
+export async function getAccountSummary(algod: algosdk.Algodv2, address: string): Promise<AccountSummary> {
+  const acct = await algod.accountInformation(address).do()
+  return {
+    address,
+    amount: acct.amount,
+    minBalance: acct.minBalance,
+    pendingRewards: acct.pendingRewards,
+    minBalanceUsage: {
+      totalAssetsOptedIn: acct.totalAssetsOptedIn,
+      totalAppsOptedIn: acct.totalAppsOptedIn,
+      totalCreatedApps: acct.totalCreatedApps,
+      appsTotalExtraPages: acct.appsTotalExtraPages ?? 0,
+      appsTotalSchema: { numUint: acct.appsTotalSchema?.numUint ?? 0, numByteSlice: acct.appsTotalSchema?.numByteSlice ?? 0 },
+      totalBoxes: acct.totalBoxes ?? 0,
+      totalBoxBytes: acct.totalBoxBytes ?? 0,
+    },
+    holdings: (acct.assets ?? []).map((a) => ({ assetId: Number(a.assetId), amount: a.amount, isFrozen: a.isFrozen })),
+    createdAssets: (acct.createdAssets ?? []).map((a) => toAssetDetails(a.index, a.params)),
+  }
+}
+
+export async function getAssetDetails(algod: algosdk.Algodv2, assetId: number | bigint): Promise<AssetDetails> {
+  const res = await algod.getAssetByID(assetId).do()
+  return toAssetDetails(res.index, res.params)
+}
+
+/** Searches the indexer for live assets whose name starts with `name`. */
+export async function searchAssetsByName(indexer: algosdk.Indexer, name: string, limit = 10): Promise<AssetDetails[]> {
+  const res = await indexer.searchForAssets().name(name).limit(limit).do()
+  return res.assets.filter((a) => !a.deleted && a.params).map((a) => toAssetDetails(a.index, a.params))
+}
+
+/** Returns the account's holding of an asset, or null when it is not opted in. */
+export async function getAssetHolding(
+  algod: algosdk.Algodv2,
+  address: string,
+  assetId: number | bigint,
+): Promise<{ amount: bigint; isFrozen: boolean } | null> {
+  try {
+    const res = await algod.accountAssetInformation(address, assetId).do()
+    return res.assetHolding ? { amount: res.assetHolding.amount, isFrozen: res.assetHolding.isFrozen } : null
+  } catch (e) {
+    if (isNotFoundError(e)) return null
+    throw e
+  }
+}
+
+/**
+ * Attaches cached metadata to each holding. Assets that cannot be resolved are kept without metadata
+ * rather than failing the whole load.
+ */
+export async function enrichHoldings(
+  assets: Pick<AssetMetadataCache, 'getMany'>,
+  holdings: AssetHolding[],
+): Promise<{ holdings: AssetHolding[]; details: AssetDetails[] }> {
+  const details = await assets.getMany(holdings.map((h) => h.assetId))
+  return {
+    holdings: holdings.map((holding) => {
+      const asset = details.get(holding.assetId)
+      return asset ? { ...holding, decimals: asset.decimals, name: asset.name, unitName: asset.unitName } : holding
+    }),
+    details: [...details.values()],
+  }
+}
+
+/** Loads everything the dashboard shows for an account apart from its transaction history. */
+export async function fetchPortfolio(
+  algod: algosdk.Algodv2,
+  assets: Pick<AssetMetadataCache, 'getMany' | 'invalidate'>,
+  address: string,
+): Promise<PortfolioSnapshot> {
+  const account = await getAccountSummary(algod, address)
+  const { holdings, details } = await enrichHoldings(assets, account.holdings)
+
+  // Created assets come with their params; held ones are included so that assets where
+  // the account only holds the manager/freeze/clawback role are found too.
+  const byId = new Map<number, AssetDetails>()
+  account.createdAssets.forEach((a) => byId.set(a.assetId, a))
+  const held = await freshRoles(
+    algod,
+    assets,
+    details.filter((a) => !byId.has(a.assetId)),
+    address,
+  )
+  held.forEach((a) => byId.set(a.assetId, a))
+
+  return {
+    account,
+    holdings,
+    managedAssets: [...byId.values()].filter((a) => !a.deleted && managedRoles(a, address).length > 0),
+  }
+}
+
+/**
+ * Roles can be changed outside this app while the cached params still list the old addresses, so assets the
+ * cache says `address` controls are read again from algod before actions are offered on them. Stale cache
+ * entries are dropped; when algod cannot be reached the cached copy is kept.
+ */
+async function freshRoles(
+  algod: algosdk.Algodv2,
+  assets: Pick<AssetMetadataCache, 'invalidate'>,
+  details: AssetDetails[],
+  address: string,
+): Promise<AssetDetails[]> {
+  const checked = await Promise.all(
+    details.map(async (cached) => {
+      if (cached.deleted || managedRoles(cached, address).length === 0) return cached
+      try {
+        const fresh = await getAssetDetails(algod, cached.assetId)
+        if (ASA_ROLES.some((role) => fresh[role] !== cached[role])) assets.invalidate(cached.assetId)
+        return fresh
+      } catch (e) {
+        if (!isNotFoundError(e)) return cached
+        assets.invalidate(cached.assetId)
+        return null
+      }
+    }),
+  )
+  return checked.filter((a): a is AssetDetails => a != null)
+}
+
+/** Fetches one page of the account's transactions matching `filters`; the counterparty filter is left to the caller. */
+export async function searchTransactions(
+  indexer: algosdk.Indexer,
+  address: string,
+  filters: TxnFilters,
+  options: { limit: number; nextToken?: string },
+): Promise<TransactionPage> {
+  let query = indexer.searchForTransactions().address(address).limit(options.limit)
+  if (filters.txType) query = query.txType(filters.txType)
+  if (filters.assetId) query = query.assetID(BigInt(filters.assetId))
+  if (filters.direction === 'in') query = query.addressRole('receiver')
+  if (filters.direction === 'out') query = query.addressRole('sender')
+  if (filters.minRound) query = query.minRound(BigInt(filters.minRound))
+  if (filters.maxRound) query = query.maxRound(BigInt(filters.maxRound))
+  if (filters.afterDate) query = query.afterTime(new Date(`${filters.afterDate}T00:00:00`))
+  if (filters.beforeDate) query = query.beforeTime(new Date(`${filters.beforeDate}T23:59:59`))
+  if (options.nextToken) query = query.nextToken(options.nextToken)
+
+  const res = await query.do()
+  return {
+    transactions: res.transactions,
+    // The indexer keeps returning a token until it hits an empty page
+    nextToken: res.transactions.length < options.limit ? undefined : res.nextToken,
+    currentRound: res.currentRound != null ? Number(res.currentRound) : undefined,
+  }
+}
+
+/** Looks a confirmed transaction up on the indexer; null when the indexer does not know it (yet). */
+export async function lookupTransaction(indexer: algosdk.Indexer, txId: string): Promise<indexerModels.Transaction | null> {
+  try {
+    return (await indexer.lookupTransactionByID(txId).do()).transaction
+  } catch (e) {
+    if (isNotFoundError(e)) return null
+    throw e
+  }
+}
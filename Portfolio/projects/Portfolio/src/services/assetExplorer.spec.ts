@@ -0,0 +1,134 @@
+import type algosdk from 'algosdk'
+import {
+  getAssetHolders,
+  getAssetOverview,
+  getCreationTransaction,
+  getRecentTransfers,
+  MAX_HOLDER_PAGES,
+  MAX_TRANSFER_PAGES,
+  supplyBreakdown,
+} from './assetExplorer'
+
+/** Chainable query fake: records the parameters set and answers `do()` from them */
+const query = (respond: (params: Record<string, unknown>) => unknown) => {
+  const params: Record<string, unknown> = {}
+  const builder = new Proxy({} as Record<string, unknown>, {
+    get: (_, method: string) =>
+      method === 'do'
+        ? async () => respond(params)
+        : (value: unknown = true) => {
+            params[method] = value
+            return builder
+          },
+  })
+  return builder
+}
+
+const holder = (i: number) => ({ address: `ADDR${i}`, amount: BigInt(i), isFrozen: false })
+
+describe('getAssetOverview', () => {
+  it('should include destroyed assets and return null for unknown ones', async () => {
+    const indexer = {
+      lookupAssetByID: (id: number) =>
+        query(() => {
+          if (id !== 5) throw Object.assign(new Error('no asset'), { response: { status: 404 } })
+          return {
+            asset: {
+              index: 5n,
+              deleted: true,
+              destroyedAtRound: 90n,
+              createdAtRound: 10n,
+              params: { creator: 'C', decimals: 2, total: 100n },
+            },
+          }
+        }),
+    } as unknown as algosdk.Indexer
+
+    await expect(getAssetOverview(indexer, 5)).resolves.toMatchObject({
+      asset: { assetId: 5, creator: 'C', total: 100n, deleted: true },
+      createdAtRound: 10,
+      destroyedAtRound: 90,
+    })
+    await expect(getAssetOverview(indexer, 6)).resolves.toBeNull()
+  })
+})
+
+describe('getAssetHolders', () => {
+  it('should page through positive balances and rank the largest holders', async () => {
+    const pages = [Array.from({ length: 1000 }, (_, i) => holder(i + 1)), [holder(5000)]]
+    const indexer = {
+      lookupAssetBalances: () =>
+        query((params) => {
+          expect(params.currencyGreaterThan).toBe(0)
+          const page = params.nextToken ? 1 : 0
+          return { balances: pages[page], nextToken: page === 0 ? 'next' : undefined }
+        }),
+    } as unknown as algosdk.Indexer
+
+    const holders = await getAssetHolders(indexer, 5, 3)
+    expect(holders).toMatchObject({ count: 1001, complete: true })
+    expect(holders.top.map((h) => h.amount)).toEqual([5000n, 1000n, 999n])
+  })
+
+  it('should flag counts cut off after the page limit', async () => {
+    const indexer = {
+      lookupAssetBalances: () => query(() => ({ balances: Array.from({ length: 1000 }, (_, i) => holder(i)), nextToken: 'more' })),
+    } as unknown as algosdk.Indexer
+    await expect(getAssetHolders(indexer, 5)).resolves.toMatchObject({ count: MAX_HOLDER_PAGES * 1000, complete: false })
+  })
+})
+
+describe('getRecentTransfers', () => {
+  it('should widen the round window until enough transfers are found and list them newest first', async () => {
+    const rounds = [10n, 500_000n, 999_500n]
+    const minRounds: unknown[] = []
+    const indexer = {
+      makeHealthCheck: () => query(() => ({ round: 1_000_000n })),
+      lookupAssetTransactions: () =>
+        query((params) => {
+          minRounds.push(params.minRound)
+          return { transactions: rounds.filter((r) => r >= (params.minRound as bigint)).map((r) => ({ confirmedRound: r })) }
+        }),
+    } as unknown as algosdk.Indexer
+
+    const { transfers, complete } = await getRecentTransfers(indexer, 5, 2)
+    expect(minRounds).toEqual([999_000n, 900_000n, 0n])
+    expect(transfers.map((t) => t.confirmedRound)).toEqual([999_500n, 500_000n])
+    expect(complete).toBe(true)
+  })
+
+  it('should keep the smaller window and report an incomplete list when a wider one has too many transfers', async () => {
+    let pages = 0
+    const indexer = {
+      makeHealthCheck: () => query(() => ({ round: 1_000_000n })),
+      lookupAssetTransactions: () =>
+        query((params) => {
+          // One transfer in the latest 1,000 rounds; every wider window is full of old transfers
+          if (params.minRound === 999_000n) return { transactions: [{ confirmedRound: 999_999n }] }
+          pages++
+          return { transactions: Array.from({ length: 1000 }, () => ({ confirmedRound: 1n })), nextToken: 'more' }
+        }),
+    } as unknown as algosdk.Indexer
+
+    const { transfers, complete } = await getRecentTransfers(indexer, 5, 20)
+    expect(transfers.map((t) => t.confirmedRound)).toEqual([999_999n])
+    expect(complete).toBe(false)
+    expect(pages).toBe(MAX_TRANSFER_PAGES)
+  })
+})
+
+describe('getCreationTransaction', () => {
+  it('should only accept a transaction that created the asset', async () => {
+    const indexer = (createdAssetIndex?: bigint) =>
+      ({ lookupAssetTransactions: () => query(() => ({ transactions: [{ id: 'TX', createdAssetIndex }] })) }) as unknown as algosdk.Indexer
+    await expect(getCreationTransaction(indexer(5n), 5)).resolves.toMatchObject({ id: 'TX' })
+    await expect(getCreationTransaction(indexer(undefined), 5)).resolves.toBeNull()
+  })
+})
+
+describe('supplyBreakdown', () => {
+  it('should count reserve holdings as not circulating', () => {
+    expect(supplyBreakdown({ total: 100n, reserve: 'R' }, 40n)).toEqual({ total: 100n, reserve: 40n, circulating: 60n })
+    expect(supplyBreakdown({ total: 100n }, null)).toEqual({ total: 100n, reserve: 0n, circulating: 100n })
+  })
+})
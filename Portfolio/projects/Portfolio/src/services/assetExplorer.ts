@@ -0,0 +1,149 @@
+import algosdk, { indexerModels } from 'algosdk'
+import { AssetDetails } from '../interfaces/portfolio'
+import { toAssetDetails } from '../utils/asaParams'
+import { isNotFoundError } from './algorandData'
+
+/**
+ * Indexer reads behind the asset page. Like algorandData, functions take the raw indexer client so tests
+ * can pass fakes that only implement the calls being exercised.
+ */
+
+export interface AssetOverview {
+  /** Current params, or the last ones before the asset was destroyed */
+  asset: AssetDetails
+  metadataHash?: Uint8Array
+  createdAtRound?: number
+  destroyedAtRound?: number
+}
+
+export interface AssetHolder {
+  address: string
+  amount: bigint
+  isFrozen: boolean
+}
+
+export interface AssetHolders {
+  /** Accounts holding a positive balance */
+  count: number
+  /** False when the holder list was cut off after MAX_HOLDER_PAGES; `count` is then a lower bound */
+  complete: boolean
+  /** Largest holders first */
+  top: AssetHolder[]
+}
+
+export interface RecentTransfers {
+  /** Newest first */
+  transfers: indexerModels.Transaction[]
+  /**
+   * False when a round window held more transfers than MAX_TRANSFER_PAGES pages: `transfers` are then the
+   * latest of a smaller window (and fewer than asked for), or not the latest at all when even the smallest overflowed
+   */
+  complete: boolean
+}
+
+export interface SupplyBreakdown {
+  total: bigint
+  /** Held by the reserve account, which by convention is not in circulation */
+  reserve: bigint
+  circulating: bigint
+}
+
+export const MAX_HOLDER_PAGES = 10
+const HOLDER_PAGE_SIZE = 1000
+
+/** Pages fetched per round window when looking for the latest transfers of a busy asset */
+export const MAX_TRANSFER_PAGES = 5
+const TRANSFER_PAGE_SIZE = 1000
+/**
+ * The indexer lists asset transactions oldest first, so the latest ones are found by searching recent
+ * round windows first and widening until enough turn up.
+ */
+const TRANSFER_WINDOWS = [1_000n, 100_000n, 10_000_000n]
+
+/** Looks an asset up on the indexer, including destroyed ones; null when it never existed. */
+export async function getAssetOverview(indexer: algosdk.Indexer, assetId: number): Promise<AssetOverview | null> {
+  try {
+    const { asset } = await indexer.lookupAssetByID(assetId).includeAll().do()
+    return {
+      asset: { ...toAssetDetails(asset.index, asset.params), deleted: asset.deleted ?? false },
+      metadataHash: asset.params.metadataHash,
+      createdAtRound: asset.createdAtRound != null ? Number(asset.createdAtRound) : undefined,
+      destroyedAtRound: asset.destroyedAtRound != null ? Number(asset.destroyedAtRound) : undefined,
+    }
+  } catch (e) {
+    if (isNotFoundError(e)) return null
+    throw e
+  }
+}
+
+/** Counts the accounts holding the asset and returns the `top` largest of them. */
+export async function getAssetHolders(indexer: algosdk.Indexer, assetId: number, top = 10): Promise<AssetHolders> {
+  const holders: AssetHolder[] = []
+  let token: string | undefined
+  let complete = false
+
+  for (let page = 0; page < MAX_HOLDER_PAGES && !complete; page++) {
+    let query = indexer.lookupAssetBalances(assetId).currencyGreaterThan(0).limit(HOLDER_PAGE_SIZE)
+    if (token) query = query.nextToken(token)
+    const res = await query.do()
+    res.balances.forEach((b) => holders.push({ address: b.address, amount: b.amount, isFrozen: b.isFrozen }))
+    token = res.nextToken
+    complete = !token || res.balances.length < HOLDER_PAGE_SIZE
+  }
+
+  holders.sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1))
+  return { count: holders.length, complete, top: holders.slice(0, top) }
+}
+
+/** The latest `limit` transfers of the asset, newest first. */
+export async function getRecentTransfers(indexer: algosdk.Indexer, assetId: number, limit = 20): Promise<RecentTransfers> {
+  const { round } = await indexer.makeHealthCheck().do()
+  const current = BigInt(round)
+
+  let found: indexerModels.Transaction[] = []
+  for (const window of [...TRANSFER_WINDOWS, current]) {
+    const minRound = current > window ? current - window : 0n
+    const { transfers, truncated } = await latestTransfers(indexer, assetId, minRound, limit)
+    // A wider window would be cut off too, and its last pages read would hold older transfers than the smaller one
+    if (truncated) return { transfers: (found.length > 0 ? found : transfers).reverse(), complete: false }
+    found = transfers
+    if (found.length >= limit || minRound === 0n) break
+  }
+  return { transfers: found.reverse(), complete: true }
+}
+
+/** The last `limit` transfers from `minRound` on, oldest first; `truncated` when the page cap stopped the read early. */
+async function latestTransfers(
+  indexer: algosdk.Indexer,
+  assetId: number,
+  minRound: bigint,
+  limit: number,
+): Promise<{ transfers: indexerModels.Transaction[]; truncated: boolean }> {
+  let latest: indexerModels.Transaction[] = []
+  let token: string | undefined
+  for (let page = 0; page < MAX_TRANSFER_PAGES; page++) {
+    let query = indexer.lookupAssetTransactions(assetId).txType('axfer').minRound(minRound).limit(TRANSFER_PAGE_SIZE)
+    if (token) query = query.nextToken(token)
+    const res = await query.do()
+    latest = [...latest, ...res.transactions].slice(-limit)
+    token = res.nextToken
+    if (!token || res.transactions.length < TRANSFER_PAGE_SIZE) return { transfers: latest, truncated: false }
+  }
+  return { transfers: latest, truncated: true }
+}
+
+/**
+ * The transaction that created the asset: the first config transaction listed for it. Null when that is not
+ * a top-level creation, e.g. for assets created by an application's inner transaction.
+ */
+export async function getCreationTransaction(indexer: algosdk.Indexer, assetId: number): Promise<indexerModels.Transaction | null> {
+  const res = await indexer.lookupAssetTransactions(assetId).txType('acfg').limit(1).do()
+  const first = res.transactions[0]
+  return first?.createdAssetIndex === BigInt(assetId) ? first : null
+}
+
+/** Splits the supply into reserve and circulating; without a reserve account the whole supply circulates. */
+export function supplyBreakdown(asset: Pick<AssetDetails, 'total' | 'reserve'>, reserveAmount: bigint | null): SupplyBreakdown {
+  const reserve = asset.reserve ? (reserveAmount ?? 0n) : 0n
+  return { total: asset.total, reserve, circulating: asset.total - reserve }
+}
@@ -0,0 +1,107 @@
+import type algosdk from 'algosdk'
+import { AssetCacheStorage, createAssetMetadataCache } from './assetMetadataCache'
+
+const notFound = () => Object.assign(new Error('not found'), { response: { status: 404 } })
+
+const params = (name: string) => ({
+  creator: 'CREATOR',
+  decimals: 2,
+  total: 1_000n,
+  defaultFrozen: false,
+  name,
+  unitName: name.slice(0, 3),
+})
+
+const createClients = (live: Record<number, string>, deleted: Record<number, string> = {}) => {
+  const calls = { algod: 0, indexer: 0 }
+  const algod = {
+    getAssetByID: (id: number) => ({
+      do: async () => {
+        calls.algod++
+        if (!live[id]) throw notFound()
+        return { index: BigInt(id), params: params(live[id]) }
+      },
+    }),
+  } as unknown as algosdk.Algodv2
+  const indexer = {
+    lookupAssetByID: (id: number) => ({
+      includeAll: () => ({
+        do: async () => {
+          calls.indexer++
+          if (!deleted[id]) throw notFound()
+          return { asset: { index: BigInt(id), deleted: true, params: params(deleted[id]) } }
+        },
+      }),
+    }),
+  } as unknown as algosdk.Indexer
+  return { algod, indexer, calls }
+}
+
+describe('createAssetMetadataCache', () => {
+  it('should only fetch each asset once, including concurrent requests', async () => {
+    const { algod, calls } = createClients({ 1: 'Alpha' })
+    const cache = createAssetMetadataCache({ algod })
+
+    const [a, b] = await Promise.all([cache.get(1), cache.get(1)])
+    await cache.get(1)
+    expect(a).toBe(b)
+    expect(a?.name).toBe('Alpha')
+    expect(calls.algod).toBe(1)
+    expect(cache.peek(1)?.decimals).toBe(2)
+  })
+
+  it('should refetch entries older than the TTL and after invalidation', async () => {
+    let time = 0
+    const { algod, calls } = createClients({ 1: 'Alpha' })
+    const cache = createAssetMetadataCache({ algod }, { ttlMs: 100, now: () => time })
+
+    await cache.get(1)
+    time = 150
+    expect(cache.peek(1)).toBeUndefined()
+    await cache.get(1)
+    cache.invalidate(1)
+    await cache.get(1)
+    expect(calls.algod).toBe(3)
+  })
+
+  it('should fall back to the indexer for deleted assets and skip unknown ones', async () => {
+    const { algod, indexer, calls } = createClients({ 1: 'Alpha' }, { 2: 'Gone' })
+    const cache = createAssetMetadataCache({ algod, indexer })
+
+    const found = await cache.getMany([1, 2, 3, 1])
+    expect([...found.keys()].sort()).toEqual([1, 2])
+    expect(found.get(2)).toMatchObject({ name: 'Gone', deleted: true })
+    expect(calls.indexer).toBe(2)
+  })
+
+  it('should report failed lookups but not missing assets', async () => {
+    const { algod: live, indexer } = createClients({ 1: 'Alpha' })
+    const algod = {
+      getAssetByID: (id: number) =>
+        id === 3
+          ? { do: async () => Promise.reject(Object.assign(new Error('down'), { response: { status: 503 } })) }
+          : live.getAssetByID(id),
+    } as unknown as algosdk.Algodv2
+    const failed: number[] = []
+    const cache = createAssetMetadataCache({ algod, indexer }, { onError: (id) => failed.push(id) })
+
+    const found = await cache.getMany([1, 2, 3])
+    expect([...found.keys()]).toEqual([1])
+    expect(failed).toEqual([3])
+  })
+
+  it('should restore fresh entries from storage', async () => {
+    jest.useFakeTimers()
+    let saved: ReturnType<AssetCacheStorage['read']> = {}
+    const storage: AssetCacheStorage = { read: () => saved, write: (entries) => (saved = entries) }
+    const { algod, calls } = createClients({ 1: 'Alpha' })
+
+    await createAssetMetadataCache({ algod }, { storage, now: () => 0 }).get(1)
+    jest.runAllTimers()
+    jest.useRealTimers()
+
+    const restored = createAssetMetadataCache({ algod }, { storage, now: () => 10 })
+    expect(restored.peek(1)).toMatchObject({ name: 'Alpha', total: 1_000n })
+    expect(calls.algod).toBe(1)
+  })
+})
@@ -0,0 +1,145 @@
+import algosdk from 'algosdk'
+import { AssetDetails } from '../interfaces/portfolio'
+import { toAssetDetails } from '../utils/asaParams'
+import { createLimiter } from '../utils/concurrency'
+import { readJson, storageKey, writeJson } from '../utils/storage'
+import { getAssetDetails, isNotFoundError } from './algorandData'
+
+/** Asset params only change through reconfiguration, so a day-old copy is fine for display. */
+export const ASSET_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+/** Public nodes rate-limit aggressively; keep the number of parallel lookups small. */
+export const ASSET_CACHE_CONCURRENCY = 4
+
+type StoredAsset = Omit<AssetDetails, 'total'> & { total: string }
+
+interface StoredEntry {
+  asset: StoredAsset
+  fetchedAt: number
+}
+
+/** Where cached entries survive page reloads; one instance per network. */
+export interface AssetCacheStorage {
+  read(): Record<string, StoredEntry>
+  write(entries: Record<string, StoredEntry>): void
+}
+
+export function localAssetCacheStorage(networkId: string): AssetCacheStorage {
+  // Versioned so entries cached before the asset URL was kept are not reused
+  const key = storageKey('asset-cache-v2', networkId)
+  return {
+    read: () => readJson<Record<string, StoredEntry>>(key, {}),
+    write: (entries) => writeJson(key, entries),
+  }
+}
+
+export interface AssetMetadataCache {
+  /** Returns cached metadata without fetching, if present and fresh */
+  peek(assetId: number): AssetDetails | undefined
+  /** Resolves metadata from the cache or the network; null when the asset cannot be found */
+  get(assetId: number): Promise<AssetDetails | null>
+  /** Resolves several assets, skipping the ones that cannot be found */
+  getMany(assetIds: number[]): Promise<Map<number, AssetDetails>>
+  /** Drops an entry, e.g. after reconfiguring the asset */
+  invalidate(assetId: number): void
+}
+
+interface CacheOptions {
+  storage?: AssetCacheStorage
+  ttlMs?: number
+  concurrency?: number
+  now?: () => number
+  /** Called for each asset `getMany` skips because its lookup failed, rather than because it does not exist */
+  onError?: (assetId: number, error: unknown) => void
+}
+
+/**
+ * Creates an asset metadata cache for one network. Lookups go to algod first and fall back to the indexer
+ * (including deleted assets) when algod no longer knows the asset.
+ */
+export function createAssetMetadataCache(
+  clients: { algod: algosdk.Algodv2; indexer?: algosdk.Indexer },
+  { storage, ttlMs = ASSET_CACHE_TTL_MS, concurrency = ASSET_CACHE_CONCURRENCY, now = Date.now, onError }: CacheOptions = {},
+): AssetMetadataCache {
+  const entries = new Map<number, { asset: AssetDetails; fetchedAt: number }>()
+  const inFlight = new Map<number, Promise<AssetDetails | null>>()
+  const limit = createLimiter(concurrency)
+  let persistTimer: ReturnType<typeof setTimeout> | undefined
+
+  Object.entries(storage?.read() ?? {}).forEach(([id, entry]) => {
+    if (now() - entry.fetchedAt < ttlMs)
+      entries.set(Number(id), { asset: { ...entry.asset, total: BigInt(entry.asset.total) }, fetchedAt: entry.fetchedAt })
+  })
+
+  // Writes are coalesced so that loading hundreds of assets serialises the cache once.
+  const persist = () => {
+    if (!storage || persistTimer) return
+    persistTimer = setTimeout(() => {
+      persistTimer = undefined
+      const stored: Record<string, StoredEntry> = {}
+      entries.forEach(({ asset, fetchedAt }, id) => (stored[id] = { asset: { ...asset, total: asset.total.toString() }, fetchedAt }))
+      storage.write(stored)
+    }, 500)
+  }
+
+  const fetchAsset = async (assetId: number): Promise<AssetDetails | null> => {
+    try {
+      return await getAssetDetails(clients.algod, assetId)
+    } catch (e) {
+      if (!isNotFoundError(e) || !clients.indexer) throw e
+    }
+    try {
+      const res = await clients.indexer.lookupAssetByID(assetId).includeAll(true).do()
+      return { ...toAssetDetails(res.asset.index, res.asset.params), deleted: res.asset.deleted ?? false }
+    } catch (e) {
+      if (isNotFoundError(e)) return null
+      throw e
+    }
+  }
+
+  const peek = (assetId: number) => {
+    const entry = entries.get(assetId)
+    return entry && now() - entry.fetchedAt < ttlMs ? entry.asset : undefined
+  }
+
+  const get = (assetId: number): Promise<AssetDetails | null> => {
+    const cached = peek(assetId)
+    if (cached) return Promise.resolve(cached)
+
+    const pending = inFlight.get(assetId)
+    if (pending) return pending
+
+    const request = limit(() => fetchAsset(assetId))
+      .then((asset) => {
+        if (asset) {
+          entries.set(assetId, { asset, fetchedAt: now() })
+          persist()
+        }
+        return asset
+      })
+      .finally(() => inFlight.delete(assetId))
+    inFlight.set(assetId, request)
+    return request
+  }
+
+  const getMany = async (assetIds: number[]) => {
+    const result = new Map<number, AssetDetails>()
+    await Promise.all(
+      [...new Set(assetIds)].map(async (assetId) => {
+        try {
+          const asset = await get(assetId)
+          if (asset) result.set(assetId, asset)
+        } catch (e) {
+          onError?.(assetId, e)
+        }
+      }),
+    )
+    return result
+  }
+
+  const invalidate = (assetId: number) => {
+    entries.delete(assetId)
+    persist()
+  }
+
+  return { peek, get, getMany, invalidate }
+}
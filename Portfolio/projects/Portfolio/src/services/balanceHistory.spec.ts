@@ -0,0 +1,98 @@
+import type algosdk from 'algosdk'
+import { coversSince, loadBalanceHistory } from './balanceHistory'
+
+const ME = 'ME'
+
+type FakeAsset = { creator: string; total: bigint }
+
+/** `destroys` maps rounds to the asset ME destroys in them; `assets` are the ones the indexer can look up. */
+const fakeIndexer = (
+  rounds: number[],
+  queries: Record<string, unknown>[],
+  destroys: Record<number, number> = {},
+  assets: Record<number, FakeAsset> = {},
+) => ({
+  searchForTransactions: () => {
+    const query: Record<string, unknown> = {}
+    const builder: Record<string, unknown> = {}
+    ;['address', 'limit', 'afterTime', 'minRound', 'maxRound', 'nextToken'].forEach(
+      (method) =>
+        (builder[method] = (value: unknown) => {
+          query[method] = value
+          return builder
+        }),
+    )
+    builder.do = async () => {
+      queries.push(query)
+      const min = Number(query.minRound ?? 0)
+      const max = Number(query.maxRound ?? Infinity)
+      return {
+        currentRound: 50n,
+        transactions: rounds
+          .filter((r) => r >= min && r <= max)
+          .map((r) =>
+            destroys[r] != null
+              ? {
+                  sender: ME,
+                  fee: 1000n,
+                  confirmedRound: BigInt(r),
+                  roundTime: r,
+                  assetConfigTransaction: { assetId: BigInt(destroys[r]) },
+                }
+              : { sender: 'OTHER', fee: 1000n, confirmedRound: BigInt(r), roundTime: r, paymentTransaction: { receiver: ME, amount: 1n } },
+          ),
+      }
+    }
+    return builder
+  },
+  lookupAssetByID: (id: number) => ({
+    includeAll: () => ({
+      do: async () => {
+        if (!assets[id]) throw new Error('Network request error. Received status 500')
+        return { asset: { params: assets[id] } }
+      },
+    }),
+  }),
+})
+
+describe('loadBalanceHistory', () => {
+  it('should fetch the range and remember the indexer round', async () => {
+    const queries: Record<string, unknown>[] = []
+    const history = await loadBalanceHistory(fakeIndexer([10, 20], queries) as unknown as algosdk.Indexer, ME, '')
+    expect(history.rounds.map((d) => d.round)).toEqual([10, 20])
+    expect(history.lastRound).toBe(50)
+    expect(queries).toHaveLength(1)
+  })
+
+  it('should only fetch rounds missing from the cache', async () => {
+    const queries: Record<string, unknown>[] = []
+    const indexer = fakeIndexer([5, 10, 20, 60], queries) as unknown as algosdk.Indexer
+    const cached = { rounds: [{ round: 10, timestamp: 10, algo: 1n, assets: new Map() }], since: '2024-06-01', lastRound: 50 }
+
+    const history = await loadBalanceHistory(indexer, ME, '2024-01-01', cached)
+    expect(queries.map((q) => [q.minRound, q.maxRound])).toEqual([
+      [51n, undefined],
+      [undefined, 9n],
+    ])
+    expect(history.rounds.map((d) => d.round)).toEqual([5, 10, 60])
+    expect(history.since).toBe('2024-01-01')
+    expect(history.lastRound).toBe(60)
+  })
+
+  it('should leave out destroyed assets whose lookup fails', async () => {
+    const indexer = fakeIndexer([10, 20], [], { 10: 7, 20: 8 }, { 7: { creator: ME, total: 100n } }) as unknown as algosdk.Indexer
+    const history = await loadBalanceHistory(indexer, ME, '')
+    expect(history.rounds.map((d) => [d.round, [...d.assets]])).toEqual([
+      [10, [[7, -100n]]],
+      [20, []],
+    ])
+  })
+})
+
+describe('coversSince', () => {
+  it('should treat an empty start as the whole history', () => {
+    expect(coversSince('', '2024-01-01')).toBe(true)
+    expect(coversSince('2024-01-01', '')).toBe(false)
+    expect(coversSince('2024-01-01', '2024-02-01')).toBe(true)
+  })
+})
@@ -0,0 +1,126 @@
+import algosdk from 'algosdk'
+import { TxnFilters } from '../interfaces/portfolio'
+import { mergeRoundDeltas, RoundDelta, roundDeltas } from '../utils/balanceHistory'
+import { readJson, storageKey, writeJson } from '../utils/storage'
+import { DestroyedAssets, destroyedAssetIds, EMPTY_TXN_FILTERS } from '../utils/transactions'
+import { searchTransactions } from './algorandData'
+
+const HISTORY_PAGE_SIZE = 1000
+/** Refuse to reconstruct from more transactions than this; busy accounts should pick a shorter range. */
+export const MAX_HISTORY_TRANSACTIONS = 20_000
+
+/** Per-round balance changes of one account, complete from `since` up to `lastRound`. */
+export interface BalanceHistory {
+  rounds: RoundDelta[]
+  /** First day (YYYY-MM-DD) the rounds are complete from; empty when they cover the whole history */
+  since: string
+  /** Latest round the history has been fetched up to */
+  lastRound: number
+}
+
+interface StoredHistory {
+  rounds: { round: number; timestamp: number; algo: string; assets: Record<string, string> }[]
+  since: string
+  lastRound: number
+}
+
+/** Where reconstructed histories survive page reloads; one instance per network. */
+export interface BalanceHistoryStorage {
+  read(address: string): BalanceHistory | undefined
+  write(address: string, history: BalanceHistory): void
+}
+
+export function localBalanceHistoryStorage(networkId: string): BalanceHistoryStorage {
+  // Versioned so histories cached before asset creation and destruction were counted are rebuilt
+  const key = (address: string) => storageKey('balance-history-v2', networkId, address)
+  return {
+    read: (address) => {
+      const stored = readJson<StoredHistory | null>(key(address), null)
+      if (!stored) return undefined
+      return {
+        ...stored,
+        rounds: stored.rounds.map((d) => ({
+          ...d,
+          algo: BigInt(d.algo),
+          assets: new Map(Object.entries(d.assets).map(([id, v]) => [Number(id), BigInt(v)])),
+        })),
+      }
+    },
+    write: (address, history) =>
+      writeJson<StoredHistory>(key(address), {
+        ...history,
+        rounds: history.rounds.map((d) => ({
+          ...d,
+          algo: d.algo.toString(),
+          assets: Object.fromEntries([...d.assets].map(([id, v]) => [id, v.toString()])),
+        })),
+      }),
+  }
+}
+
+/** True when a history complete from `covered` includes everything from `since`. */
+export function coversSince(covered: string, since: string): boolean {
+  return covered === '' || (since !== '' && since >= covered)
+}
+
+async function fetchAllTransactions(indexer: algosdk.Indexer, address: string, filters: TxnFilters) {
+  const transactions: algosdk.indexerModels.Transaction[] = []
+  let currentRound: number | undefined
+  let nextToken: string | undefined
+  do {
+    const page = await searchTransactions(indexer, address, filters, { limit: HISTORY_PAGE_SIZE, nextToken })
+    transactions.push(...page.transactions)
+    currentRound ??= page.currentRound
+    nextToken = page.nextToken
+    if (transactions.length > MAX_HISTORY_TRANSACTIONS) {
+      throw new Error(`More than ${MAX_HISTORY_TRANSACTIONS} transactions in this range; choose a shorter one`)
+    }
+  } while (nextToken)
+  const destroyed = await destroyedAssets(indexer, destroyedAssetIds(transactions))
+  return { rounds: roundDeltas(transactions, address, destroyed), currentRound }
+}
+
+/**
+ * Looks up the creator and supply of destroyed assets, which the indexer still keeps.
+ * An asset whose lookup fails is left out, so only its destruction goes uncounted.
+ */
+async function destroyedAssets(indexer: algosdk.Indexer, assetIds: number[]): Promise<DestroyedAssets> {
+  const results = await Promise.allSettled(
+    assetIds.map(async (id) => {
+      const { asset } = await indexer.lookupAssetByID(id).includeAll().do()
+      return [id, { creator: asset.params.creator, total: asset.params.total }] as const
+    }),
+  )
+  return new Map(results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : [])))
+}
+
+/**
+ * Brings a cached history up to date and extends it back to `since`, fetching only the rounds it is missing:
+ * newer rounds after `cached.lastRound`, and older ones before the first cached round when `since` is earlier.
+ */
+export async function loadBalanceHistory(
+  indexer: algosdk.Indexer,
+  address: string,
+  since: string,
+  cached?: BalanceHistory,
+): Promise<BalanceHistory> {
+  if (!cached) {
+    const { rounds, currentRound } = await fetchAllTransactions(indexer, address, { ...EMPTY_TXN_FILTERS, afterDate: since })
+    return { rounds, since, lastRound: currentRound ?? rounds[rounds.length - 1]?.round ?? 0 }
+  }
+
+  const newer = await fetchAllTransactions(indexer, address, { ...EMPTY_TXN_FILTERS, minRound: String(cached.lastRound + 1) })
+  let older: RoundDelta[] = []
+  if (!coversSince(cached.since, since)) {
+    const firstRound = cached.rounds[0]?.round ?? cached.lastRound + 1
+    const res = await fetchAllTransactions(indexer, address, { ...EMPTY_TXN_FILTERS, afterDate: since, maxRound: String(firstRound - 1) })
+    older = res.rounds
+  }
+
+  const rounds = mergeRoundDeltas(cached.rounds, newer.rounds, older)
+  return {
+    rounds,
+    since: coversSince(cached.since, since) ? cached.since : since,
+    lastRound: Math.max(cached.lastRound, newer.currentRound ?? 0, rounds[rounds.length - 1]?.round ?? 0),
+  }
+}
@@ -0,0 +1,40 @@
+import algosdk from 'algosdk'
+import { nfdNameResolver, resolveName, staticNameResolver } from './nameResolver'
+
+const ADDRESS = algosdk.generateAccount().addr.toString()
+
+const jsonResponse = (body: unknown, status = 200) => ({ ok: status < 400, status, json: async () => body }) as Response
+
+describe('staticNameResolver', () => {
+  it('should resolve names ignoring case', async () => {
+    const resolver = staticNameResolver({ 'Alice.algo': ADDRESS })
+    expect(resolver.handles('alice.ALGO')).toBe(true)
+    await expect(resolver.resolve('ALICE.algo')).resolves.toBe(ADDRESS)
+  })
+})
+
+describe('nfdNameResolver', () => {
+  it('should only handle .algo names', () => {
+    const resolver = nfdNameResolver('https://nfd.test', jest.fn())
+    expect(resolver.handles('sub.name.algo')).toBe(true)
+    expect(resolver.handles(ADDRESS)).toBe(false)
+  })
+
+  it('should prefer the deposit account and treat 404 as unknown', async () => {
+    const fetchFn = jest.fn(async (url: string) =>
+      url.includes('missing') ? jsonResponse({}, 404) : jsonResponse({ depositAccount: ADDRESS, owner: 'OTHER' }),
+    )
+    const resolver = nfdNameResolver('https://nfd.test', fetchFn as unknown as typeof fetch)
+    await expect(resolver.resolve('name.algo')).resolves.toBe(ADDRESS)
+    await expect(resolver.resolve('missing.algo')).resolves.toBeNull()
+    expect(fetchFn).toHaveBeenCalledWith('https://nfd.test/nfd/name.algo?view=tiny')
+  })
+})
+
+describe('resolveName', () => {
+  it('should try resolvers that handle the input in order', async () => {
+    const resolvers = [staticNameResolver({ 'bob.algo': ADDRESS }, 'local'), staticNameResolver({ 'carol.algo': ADDRESS }, 'other')]
+    await expect(resolveName(resolvers, 'carol.algo')).resolves.toEqual({ address: ADDRESS, resolverId: 'other' })
+    await expect(resolveName(resolvers, 'dave.algo')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,61 @@
+import algosdk from 'algosdk'
+
+/**
+ * Turns human-readable names into addresses. Naming services plug in here; tests and LocalNet use a static
+ * resolver instead.
+ */
+export interface NameResolver {
+  id: string
+  /** Whether `input` looks like a name this resolver can look up */
+  handles(input: string): boolean
+  /** Resolves a name to an address, or null when the name is not registered */
+  resolve(name: string): Promise<string | null>
+}
+
+/** Resolves names from a fixed table, e.g. `{ 'alice.algo': 'ADDR...' }`; matching ignores case. */
+export function staticNameResolver(names: Record<string, string>, id = 'static'): NameResolver {
+  const table = new Map(Object.entries(names).map(([name, address]) => [name.toLowerCase(), address]))
+  return {
+    id,
+    handles: (input) => table.has(input.trim().toLowerCase()),
+    resolve: async (name) => table.get(name.trim().toLowerCase()) ?? null,
+  }
+}
+
+export const NFD_API_URLS: Record<string, string> = {
+  mainnet: 'https://api.nf.domains',
+  testnet: 'https://api.testnet.nf.domains',
+}
+
+const NFD_NAME = /^([a-z0-9]+\.)*[a-z0-9]+\.algo$/
+
+/** Resolves NFD names (`name.algo`) to the deposit account, falling back to the owner. */
+export function nfdNameResolver(apiUrl: string, fetchFn: typeof fetch = (...args) => fetch(...args)): NameResolver {
+  return {
+    id: 'nfd',
+    handles: (input) => NFD_NAME.test(input.trim().toLowerCase()),
+    resolve: async (name) => {
+      const res = await fetchFn(`${apiUrl}/nfd/${encodeURIComponent(name.trim().toLowerCase())}?view=tiny`)
+      if (res.status === 404) return null
+      if (!res.ok) throw new Error(`Name lookup failed with HTTP ${res.status}`)
+      const json = (await res.json()) as { depositAccount?: string; owner?: string }
+      const address = json.depositAccount ?? json.owner
+      return address && algosdk.isValidAddress(address) ? address : null
+    },
+  }
+}
+
+/** Resolvers available on a network; naming services only exist on public networks. */
+export function nameResolversFor(networkName: string): NameResolver[] {
+  const nfdUrl = NFD_API_URLS[networkName]
+  return nfdUrl ? [nfdNameResolver(nfdUrl)] : []
+}
+
+/** Resolves `input` with the first resolver that handles it; null when none handles it or the name is unknown. */
+export async function resolveName(resolvers: NameResolver[], input: string): Promise<{ address: string; resolverId: string } | null> {
+  for (const resolver of resolvers.filter((r) => r.handles(input))) {
+    const address = await resolver.resolve(input)
+    if (address) return { address, resolverId: resolver.id }
+  }
+  return null
+}
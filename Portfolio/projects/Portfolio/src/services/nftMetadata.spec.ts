@@ -0,0 +1,70 @@
+import { AssetDetails } from '../interfaces/portfolio'
+import { createNftMetadataResolver, NftMetadataSource } from './nftMetadata'
+
+const GATEWAY = 'https://gw/ipfs/'
+
+const asset = (fields: Partial<AssetDetails>): AssetDetails => ({
+  assetId: 5,
+  decimals: 0,
+  total: 1n,
+  defaultFrozen: false,
+  creator: 'CREATOR',
+  ...fields,
+})
+
+const fixtures = (documents: Record<string, unknown>, notes: Record<number, unknown> = {}) => {
+  const requested: string[] = []
+  const source: NftMetadataSource = {
+    fetchJson: async (url) => {
+      requested.push(url)
+      if (!(url in documents)) throw new Error(`no fixture for ${url}`)
+      return documents[url]
+    },
+    latestConfigNote: async (assetId) => (notes[assetId] ? new TextEncoder().encode(JSON.stringify(notes[assetId])) : undefined),
+  }
+  return { source, requested }
+}
+
+describe('createNftMetadataResolver', () => {
+  beforeEach(() => jest.spyOn(console, 'error').mockImplementation(() => undefined))
+  afterEach(() => jest.restoreAllMocks())
+
+  it('should load ARC-3 metadata once per asset', async () => {
+    const { source, requested } = fixtures({ 'https://gw/ipfs/meta/5.json': { name: 'Five', image: 'ipfs://img' } })
+    const resolver = createNftMetadataResolver(source, GATEWAY)
+    const nft = asset({ name: 'Token', url: 'ipfs://meta/{id}.json#arc3' })
+
+    await expect(resolver.resolve(nft)).resolves.toEqual({
+      standards: ['arc3'],
+      name: 'Five',
+      image: 'https://gw/ipfs/img',
+      properties: {},
+      description: undefined,
+    })
+    await resolver.resolve(nft)
+    expect(requested).toHaveLength(1)
+  })
+
+  it('should use ARC-69 notes with the asset URL as media', async () => {
+    const { source } = fixtures({}, { 5: { standard: 'arc69', description: 'Art', properties: { color: 'blue' } } })
+    await expect(createNftMetadataResolver(source, GATEWAY).resolve(asset({ name: 'Art', url: 'ipfs://media#i' }))).resolves.toEqual({
+      standards: ['arc69'],
+      name: 'Art',
+      description: 'Art',
+      image: 'https://gw/ipfs/media',
+      properties: { color: 'blue' },
+    })
+  })
+
+  it('should fall back to the asset params and report why when metadata cannot be loaded', async () => {
+    const { source } = fixtures({})
+    await expect(
+      createNftMetadataResolver(source, GATEWAY).resolve(asset({ name: 'Lost', url: 'https://x/m.json#arc3' })),
+    ).resolves.toEqual({
+      standards: ['arc3'],
+      name: 'Lost',
+      properties: {},
+      error: 'ARC-3 metadata could not be loaded: no fixture for https://x/m.json',
+    })
+  })
+})
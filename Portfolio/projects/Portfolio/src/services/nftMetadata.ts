@@ -0,0 +1,103 @@
+import algosdk from 'algosdk'
+import { AssetDetails } from '../interfaces/portfolio'
+import { errorMessage } from '../utils/errors'
+import {
+  arc19Url,
+  DEFAULT_IPFS_GATEWAY,
+  gatewayUrl,
+  isArc3,
+  NftMetadata,
+  NftStandard,
+  parseArc3Metadata,
+  parseArc69Note,
+} from '../utils/nft'
+
+/** Where NFT metadata comes from; tests pass fixtures instead of the network. */
+export interface NftMetadataSource {
+  /** Fetches and parses a JSON document */
+  fetchJson(url: string): Promise<unknown>
+  /** Note of the asset's most recent acfg transaction, if it has one */
+  latestConfigNote(assetId: number): Promise<Uint8Array | undefined>
+}
+
+export interface NftMetadataResolver {
+  /** Resolves name, image and properties of an NFT; results are cached per asset */
+  resolve(asset: AssetDetails): Promise<NftMetadata>
+}
+
+/** Config transactions looked at for the latest ARC-69 note; reconfigured assets rarely come near it. */
+const MAX_CONFIG_PAGES = 5
+
+/** Reads metadata over HTTP(S) and ARC-69 notes from the indexer. */
+export function networkNftMetadataSource(indexer: algosdk.Indexer, fetchFn: typeof fetch = fetch): NftMetadataSource {
+  return {
+    fetchJson: async (url) => {
+      const res = await fetchFn(url)
+      if (!res.ok) throw new Error(`Metadata request failed with HTTP ${res.status}`)
+      return res.json()
+    },
+    latestConfigNote: async (assetId) => {
+      // The indexer lists oldest first, so the latest note is on the last page
+      let note: Uint8Array | undefined
+      let token: string | undefined
+      for (let page = 0; page < MAX_CONFIG_PAGES; page++) {
+        let query = indexer.lookupAssetTransactions(assetId).txType('acfg').limit(100)
+        if (token) query = query.nextToken(token)
+        const res = await query.do()
+        const withNote = res.transactions.filter((t) => t.note?.length)
+        if (withNote.length > 0) note = withNote[withNote.length - 1].note
+        token = res.nextToken
+        if (!token || res.transactions.length === 0) break
+      }
+      return note
+    },
+  }
+}
+
+/**
+ * Resolves NFT metadata following ARC-3 (JSON at the asset URL), ARC-19 (URL templated on the reserve
+ * address) and ARC-69 (JSON in the latest config note, with the asset URL as media). Lookups that fail
+ * fall back to what the asset params alone provide, so one broken link does not hide the NFT.
+ */
+export function createNftMetadataResolver(source: NftMetadataSource, gateway = DEFAULT_IPFS_GATEWAY): NftMetadataResolver {
+  const cache = new Map<number, Promise<NftMetadata>>()
+
+  const load = async (asset: AssetDetails): Promise<NftMetadata> => {
+    const standards: NftStandard[] = []
+    const templated = arc19Url(asset.url, asset.reserve)
+    if (templated) standards.push('arc19')
+    const url = (templated ?? asset.url)?.replace('{id}', String(asset.assetId))
+    const base: NftMetadata = { standards, name: asset.name, properties: {} }
+
+    if (url && isArc3({ name: asset.name, url })) {
+      standards.push('arc3')
+      try {
+        const metadataUrl = gatewayUrl(url, gateway)
+        const metadata = parseArc3Metadata(await source.fetchJson(metadataUrl), metadataUrl, gateway)
+        return { ...base, ...metadata, name: metadata.name ?? asset.name }
+      } catch (e) {
+        return { ...base, error: `ARC-3 metadata could not be loaded: ${errorMessage(e)}` }
+      }
+    }
+
+    const image = url ? gatewayUrl(url, gateway) : undefined
+    try {
+      const arc69 = parseArc69Note(await source.latestConfigNote(asset.assetId))
+      if (arc69) return { ...base, ...arc69, standards: [...standards, 'arc69'], image }
+    } catch (e) {
+      return { ...base, image, error: `ARC-69 note could not be loaded: ${errorMessage(e)}` }
+    }
+    return { ...base, image }
+  }
+
+  return {
+    resolve: (asset) => {
+      let pending = cache.get(asset.assetId)
+      if (!pending) {
+        pending = load(asset)
+        cache.set(asset.assetId, pending)
+      }
+      return pending
+    },
+  }
+}
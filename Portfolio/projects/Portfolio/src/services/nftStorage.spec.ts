@@ -0,0 +1,58 @@
+import { EMPTY_NFT_FORM, sha256 } from '../utils/nftMint'
+import { memoryNftStorage, nftStoragesFor, pinataNftStorage, prepareNftMint } from './nftStorage'
+
+const form = { ...EMPTY_NFT_FORM, name: 'Sunset #1', unitName: 'SUN', imageUrl: 'https://example.com/sunset.png' }
+const image = { name: 'sunset.png', type: 'image/png', bytes: new Uint8Array([1, 2, 3]) }
+
+describe('prepareNftMint', () => {
+  it('should upload ARC-3 metadata and hash the uploaded bytes', async () => {
+    const storage = memoryNftStorage()
+    const prepared = await prepareNftMint(form, storage, image)
+
+    expect(prepared.url).toMatch(/^memory:\/\/2\/metadata\.json#arc3$/)
+    const uploaded = storage.read(prepared.url.replace('#arc3', ''))!
+    expect(JSON.parse(new TextDecoder().decode(uploaded.bytes))).toEqual(prepared.metadata)
+    expect(prepared.metadata.image).toBe('memory://1/sunset.png')
+    expect(prepared.metadata.image_integrity).toMatch(/^sha256-/)
+    expect(prepared.metadataHash).toEqual(await sha256(uploaded.bytes))
+    expect(prepared.note).toBeUndefined()
+  })
+
+  it('should put ARC-69 metadata in the note and link the media', async () => {
+    const prepared = await prepareNftMint({ ...form, standard: 'arc69' }, memoryNftStorage())
+
+    expect(prepared.url).toBe('https://example.com/sunset.png#i')
+    expect(JSON.parse(new TextDecoder().decode(prepared.note))).toEqual(prepared.metadata)
+    expect(prepared.metadataHash).toBeUndefined()
+  })
+
+  it('should reject metadata that does not fit the transaction', async () => {
+    await expect(prepareNftMint({ ...form, standard: 'arc69', description: 'x'.repeat(1000) }, memoryNftStorage())).rejects.toThrow(
+      /note limit/,
+    )
+    await expect(
+      prepareNftMint({ ...form, standard: 'arc69', imageUrl: `https://example.com/${'a'.repeat(90)}` }, memoryNftStorage()),
+    ).rejects.toThrow(/longer than 96 bytes/)
+  })
+})
+
+describe('pinataNftStorage', () => {
+  it('should return ipfs URLs and surface HTTP errors', async () => {
+    const fetchFn = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ IpfsHash: 'bafycid' }) })
+      .mockResolvedValueOnce({ ok: false, status: 401 })
+    const storage = pinataNftStorage('jwt', fetchFn as unknown as typeof fetch)
+
+    await expect(storage.upload(image)).resolves.toBe('ipfs://bafycid')
+    expect(fetchFn.mock.calls[0][1].headers).toEqual({ Authorization: 'Bearer jwt' })
+    await expect(storage.upload(image)).rejects.toThrow('HTTP 401')
+  })
+
+  it('should only be offered when configured', () => {
+    const memory = memoryNftStorage()
+    expect(nftStoragesFor({})).toEqual([])
+    expect(nftStoragesFor({ pinataJwt: ' ', memory }).map((s) => s.id)).toEqual(['memory'])
+    expect(nftStoragesFor({ pinataJwt: 'jwt', memory }).map((s) => s.id)).toEqual(['pinata', 'memory'])
+  })
+})
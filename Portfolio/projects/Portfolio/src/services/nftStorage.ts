@@ -0,0 +1,101 @@
+import { ASA_LIMITS, utf8Length } from '../utils/asaParams'
+import { arc3AssetUrl, arc69AssetUrl, buildArc3Metadata, buildArc69Metadata, integrity, NftMintForm, sha256 } from '../utils/nftMint'
+
+export interface UploadFile {
+  name: string
+  type: string
+  bytes: Uint8Array
+}
+
+/** Where NFT images and metadata are uploaded before minting. */
+export interface NftStorage {
+  id: string
+  label: string
+  /** Stores the file and returns a URL the asset can point at, e.g. `ipfs://<cid>` */
+  upload(file: UploadFile): Promise<string>
+}
+
+/**
+ * Keeps uploads in memory and hands out `memory://` URLs. For trying the mint flow on LocalNet without an
+ * IPFS account; nothing outside this page can read the files, so an asset minted on a public network with
+ * one of these URLs would point at nothing forever.
+ */
+export function memoryNftStorage(): NftStorage & { read(url: string): UploadFile | undefined } {
+  const files = new Map<string, UploadFile>()
+  return {
+    id: 'memory',
+    label: 'Local stub (not persisted)',
+    upload: async (file) => {
+      const url = `memory://${files.size + 1}/${encodeURIComponent(file.name)}`
+      files.set(url, file)
+      return url
+    },
+    read: (url) => files.get(url),
+  }
+}
+
+export const PINATA_UPLOAD_URL = 'https://api.pinata.cloud/pinning/pinFileToIPFS'
+
+/**
+ * Pins files to IPFS through Pinata; needs a JWT with pinning rights. The JWT is entered at runtime: anything
+ * built into the bundle, such as a VITE_ variable, is readable by every visitor.
+ */
+export function pinataNftStorage(jwt: string, fetchFn: typeof fetch = fetch): NftStorage {
+  return {
+    id: 'pinata',
+    label: 'IPFS (Pinata)',
+    upload: async (file) => {
+      const body = new FormData()
+      body.append('file', new Blob([new Uint8Array(file.bytes)], { type: file.type }), file.name)
+      const res = await fetchFn(PINATA_UPLOAD_URL, { method: 'POST', headers: { Authorization: `Bearer ${jwt}` }, body })
+      if (!res.ok) throw new Error(`IPFS upload failed with HTTP ${res.status}`)
+      const { IpfsHash } = (await res.json()) as { IpfsHash: string }
+      return `ipfs://${IpfsHash}`
+    },
+  }
+}
+
+/**
+ * Storage backends available with the given settings. The local stub is passed in so it keeps its uploads
+ * across calls, and should only be given on LocalNet; it is offered last.
+ */
+export function nftStoragesFor(config: { pinataJwt?: string; memory?: NftStorage }): NftStorage[] {
+  const pinataJwt = config.pinataJwt?.trim()
+  return [...(pinataJwt ? [pinataNftStorage(pinataJwt)] : []), ...(config.memory ? [config.memory] : [])]
+}
+
+export interface PreparedNft {
+  /** Asset URL, with the suffix its standard asks for */
+  url: string
+  /** SHA-256 of the ARC-3 metadata file */
+  metadataHash?: Uint8Array
+  /** ARC-69 metadata for the creation note */
+  note?: Uint8Array
+  /** The metadata as it will be published, for the preview */
+  metadata: Record<string, unknown>
+}
+
+/**
+ * Uploads the image (when given as a file) and, for ARC-3, the metadata JSON, then returns what the
+ * creation transaction needs. The hash covers the exact bytes uploaded.
+ */
+export async function prepareNftMint(form: NftMintForm, storage: NftStorage, image?: UploadFile): Promise<PreparedNft> {
+  const imageUrl = image ? await storage.upload(image) : form.imageUrl.trim()
+
+  if (form.standard === 'arc69') {
+    const metadata = buildArc69Metadata(form, imageUrl)
+    const note = new TextEncoder().encode(JSON.stringify(metadata))
+    if (note.length > ASA_LIMITS.note) throw new Error(`ARC-69 metadata is ${note.length} bytes; the note limit is ${ASA_LIMITS.note}`)
+    return { url: checkUrl(arc69AssetUrl(imageUrl, form.imageMimetype)), note, metadata }
+  }
+
+  const metadata = buildArc3Metadata(form, imageUrl, image ? integrity(await sha256(image.bytes)) : undefined)
+  const json = new TextEncoder().encode(JSON.stringify(metadata, null, 2))
+  const metadataUrl = await storage.upload({ name: 'metadata.json', type: 'application/json', bytes: json })
+  return { url: checkUrl(arc3AssetUrl(metadataUrl, form.name.trim())), metadataHash: await sha256(json), metadata }
+}
+
+function checkUrl(url: string): string {
+  if (utf8Length(url) > ASA_LIMITS.url) throw new Error(`The asset URL ${url} is longer than ${ASA_LIMITS.url} bytes`)
+  return url
+}
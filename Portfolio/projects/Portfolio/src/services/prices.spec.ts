@@ -0,0 +1,53 @@
+import { coinGeckoPriceProvider, jsonFilePriceProvider, priceProvidersFor, staticPriceProvider } from './prices'
+
+const jsonResponse = (body: unknown, status = 200) => ({ ok: status < 400, status, json: async () => body }) as Response
+
+describe('staticPriceProvider', () => {
+  it('should return only the listed assets for the currency', async () => {
+    const provider = staticPriceProvider({ usd: { '0': 0.2, '5': 1 }, eur: { '0': 0.18 } })
+    await expect(provider.getPrices([0, 5, 6], 'usd')).resolves.toEqual(
+      new Map([
+        [0, 0.2],
+        [5, 1],
+      ]),
+    )
+    await expect(provider.getPrices([5], 'gbp')).resolves.toEqual(new Map())
+  })
+})
+
+describe('jsonFilePriceProvider', () => {
+  it('should read the price table from the file', async () => {
+    const fetchFn = jest.fn(async () => jsonResponse({ usd: { '0': 0.25 } }))
+    const provider = jsonFilePriceProvider('/prices.json', fetchFn)
+    await expect(provider.getPrices([0], 'usd')).resolves.toEqual(new Map([[0, 0.25]]))
+    expect(fetchFn).toHaveBeenCalledWith('/prices.json')
+  })
+
+  it('should fail when the file cannot be loaded', async () => {
+    const provider = jsonFilePriceProvider('/prices.json', async () => jsonResponse({}, 404))
+    await expect(provider.getPrices([0], 'usd')).rejects.toThrow('HTTP 404')
+  })
+})
+
+describe('coinGeckoPriceProvider', () => {
+  it('should query ALGO and ASAs separately', async () => {
+    const fetchFn = jest.fn(async (url: string) =>
+      url.includes('token_price') ? jsonResponse({ '31566704': { usd: 1 } }) : jsonResponse({ algorand: { usd: 0.2 } }),
+    )
+    const provider = coinGeckoPriceProvider(fetchFn as unknown as typeof fetch)
+    await expect(provider.getPrices([0, 31566704, 7], 'usd')).resolves.toEqual(
+      new Map([
+        [0, 0.2],
+        [31566704, 1],
+      ]),
+    )
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('priceProvidersFor', () => {
+  it('should only offer MainNet market prices on MainNet', () => {
+    expect(priceProvidersFor('localnet').map((p) => p.id)).toEqual(['price-file'])
+    expect(priceProvidersFor('mainnet').map((p) => p.id)).toEqual(['coingecko', 'price-file'])
+  })
+})
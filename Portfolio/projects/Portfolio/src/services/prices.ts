@@ -0,0 +1,90 @@
+/**
+ * Fiat price sources. A provider returns the price of one whole unit (not base unit) of each requested asset;
+ * asset id 0 stands for ALGO. Assets a provider has no price for are simply left out of the result.
+ */
+
+export const ALGO_ASSET_ID = 0
+
+export const SUPPORTED_CURRENCIES = ['usd', 'eur', 'gbp', 'jpy'] as const
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number]
+
+export interface PriceProvider {
+  id: string
+  label: string
+  /** Network names (localnet/testnet/mainnet...) the prices apply to; undefined means any network */
+  networks?: string[]
+  getPrices(assetIds: number[], currency: Currency): Promise<Map<number, number>>
+}
+
+/** Prices per currency, keyed by asset id as a string ("0" for ALGO), e.g. `{ "usd": { "0": 0.2, "31566704": 1 } }`. */
+export type PriceTable = Partial<Record<Currency, Record<string, number>>>
+
+function pricesFromTable(table: PriceTable, assetIds: number[], currency: Currency): Map<number, number> {
+  const prices = new Map<number, number>()
+  const rates = table[currency] ?? {}
+  assetIds.forEach((id) => {
+    const price = rates[String(id)]
+    if (typeof price === 'number' && Number.isFinite(price)) prices.set(id, price)
+  })
+  return prices
+}
+
+/** Serves prices from an in-memory table; useful for tests and demos. */
+export function staticPriceProvider(table: PriceTable, id = 'static', label = 'Static prices'): PriceProvider {
+  return { id, label, getPrices: async (assetIds, currency) => pricesFromTable(table, assetIds, currency) }
+}
+
+/** Loads a `PriceTable` from a JSON file (by default the app's own `/prices.json`), e.g. for LocalNet or offline use. */
+export function jsonFilePriceProvider(url = '/prices.json', fetchFn: typeof fetch = (...args) => fetch(...args)): PriceProvider {
+  return {
+    id: 'price-file',
+    label: 'Price file',
+    getPrices: async (assetIds, currency) => {
+      const res = await fetchFn(url)
+      if (!res.ok) throw new Error(`Price file request failed with HTTP ${res.status}`)
+      return pricesFromTable((await res.json()) as PriceTable, assetIds, currency)
+    },
+  }
+}
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3'
+
+/** CoinGecko's public API: ALGO by coin id, MainNet ASAs by their asset id on the "algorand" platform. */
+export function coinGeckoPriceProvider(fetchFn: typeof fetch = (...args) => fetch(...args)): PriceProvider {
+  const getJson = async (url: string) => {
+    const res = await fetchFn(url)
+    if (!res.ok) throw new Error(`CoinGecko request failed with HTTP ${res.status}`)
+    return (await res.json()) as Record<string, Record<string, number>>
+  }
+
+  return {
+    id: 'coingecko',
+    label: 'CoinGecko',
+    networks: ['mainnet'],
+    getPrices: async (assetIds, currency) => {
+      const prices = new Map<number, number>()
+      if (assetIds.includes(ALGO_ASSET_ID)) {
+        const json = await getJson(`${COINGECKO_API}/simple/price?ids=algorand&vs_currencies=${currency}`)
+        const price = json.algorand?.[currency]
+        if (price != null) prices.set(ALGO_ASSET_ID, price)
+      }
+      const asaIds = assetIds.filter((id) => id !== ALGO_ASSET_ID)
+      if (asaIds.length > 0) {
+        const json = await getJson(
+          `${COINGECKO_API}/simple/token_price/algorand?contract_addresses=${asaIds.join(',')}&vs_currencies=${currency}`,
+        )
+        Object.entries(json).forEach(([id, quote]) => {
+          if (quote[currency] != null) prices.set(Number(id), quote[currency])
+        })
+      }
+      return prices
+    },
+  }
+}
+
+export const PRICE_PROVIDERS: PriceProvider[] = [coinGeckoPriceProvider(), jsonFilePriceProvider()]
+
+/** Providers whose prices apply to `networkName`. */
+export function priceProvidersFor(networkName: string, providers: PriceProvider[] = PRICE_PROVIDERS): PriceProvider[] {
+  return providers.filter((p) => !p.networks || p.networks.includes(networkName))
+}
@@ -0,0 +1,72 @@
+import algosdk, { modelsv2 } from 'algosdk'
+import { describeSimulationFailure, simulateTransactions } from './simulation'
+
+const ME = algosdk.generateAccount().addr.toString()
+const OTHER = algosdk.generateAccount().addr.toString()
+
+const suggestedParams = {
+  fee: 1000n,
+  minFee: 1000n,
+  firstValid: 1n,
+  lastValid: 1000n,
+  genesisHash: new Uint8Array(32),
+  genesisID: 'test',
+  flatFee: true,
+}
+
+const payment = (sender: string, receiver: string, amount: bigint) =>
+  algosdk.makePaymentTxnWithSuggestedParamsFromObject({ sender, receiver, amount, suggestedParams })
+
+const fakeAlgod = (failureMessage?: string, requests: modelsv2.SimulateRequest[] = []) =>
+  ({
+    simulateTransactions: (request: modelsv2.SimulateRequest) => ({
+      do: async () => {
+        requests.push(request)
+        return {
+          txnGroups: [
+            {
+              failureMessage,
+              failedAt: failureMessage ? [1] : undefined,
+              txnResults: request.txnGroups[0].txns.map(() => ({ txnResult: {} })),
+            },
+          ],
+        }
+      },
+    }),
+  }) as unknown as algosdk.Algodv2
+
+describe('simulateTransactions', () => {
+  it('should report fees and balance changes of the group', async () => {
+    const requests: modelsv2.SimulateRequest[] = []
+    const txns = [payment(ME, OTHER, 5_000n), payment(OTHER, ME, 2_000n)]
+    const result = await simulateTransactions(fakeAlgod(undefined, requests), txns, ME)
+
+    expect(result).toMatchObject({ ok: true, fee: 1_000n })
+    expect(result.deltas.algo).toBe(-6_000n + 2_000n)
+    // Grouping happens on copies so the caller can still add the originals to a composer
+    expect(requests[0].txnGroups[0].txns[0].txn.group).toBeDefined()
+    expect(txns[0].group).toBeUndefined()
+  })
+
+  it('should explain failures', async () => {
+    const result = await simulateTransactions(
+      fakeAlgod(`transaction rejected: asset 77 missing from ${OTHER}`),
+      [payment(ME, OTHER, 1n), payment(ME, OTHER, 1n)],
+      ME,
+    )
+    expect(result).toMatchObject({ ok: false, failedAt: 1, failure: `${OTHER.slice(0, 8)}… is not opted in to asset 77` })
+  })
+})
+
+describe('describeSimulationFailure', () => {
+  it('should add the suggested action to known ledger failures', () => {
+    expect(describeSimulationFailure(`account ${ME} balance 50000 below min 100000 (0 assets)`)).toEqual({
+      failure: 'This would leave an account with 0.05 ALGO, below its minimum balance of 0.1 ALGO',
+      action: 'Send less ALGO, or add ALGO to cover the minimum balance.',
+    })
+  })
+
+  it('should pass unknown messages through', () => {
+    expect(describeSimulationFailure('something odd')).toEqual({ failure: 'something odd' })
+  })
+})
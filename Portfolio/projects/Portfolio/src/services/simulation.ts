@@ -0,0 +1,114 @@
+import algosdk, { modelsv2 } from 'algosdk'
+import { classifyLedgerMessage } from '../utils/errors'
+import { AccountDeltas } from '../utils/transactions'
+
+export interface SimulationResult {
+  ok: boolean
+  /** Plain-language reason the group would be rejected */
+  failure?: string
+  /** What the user can do about the failure, when there is something */
+  action?: string
+  /** Algod's own failure message, for the details view */
+  rawFailure?: string
+  /** Position of the failing transaction in the group */
+  failedAt?: number
+  /** Fees `address` would pay, in microAlgo */
+  fee: bigint
+  /** How the balances of `address` would change, fees included */
+  deltas: AccountDeltas
+  /** Id the created asset would get, for asset creations */
+  createdAssetId?: number
+}
+
+/** Turns algod's failure message into something a user can act on; unknown messages are passed through. */
+export function describeSimulationFailure(message: string): { failure: string; action?: string } {
+  const classified = classifyLedgerMessage(message)
+  return classified ? { failure: classified.message, action: classified.action } : { failure: message }
+}
+
+/** Fees and balance changes for `address` from built transactions and their simulated results. */
+export function simulatedDeltas(
+  transactions: algosdk.Transaction[],
+  results: (modelsv2.PendingTransactionResponse | undefined)[],
+  address: string,
+): { fee: bigint; deltas: AccountDeltas; createdAssetId?: number } {
+  const deltas: AccountDeltas = { algo: 0n, assets: new Map() }
+  const addAsset = (assetId: number, value: bigint) => deltas.assets.set(assetId, (deltas.assets.get(assetId) ?? 0n) + value)
+  let fee = 0n
+  let createdAssetId: number | undefined
+
+  transactions.forEach((t, i) => {
+    const result = results[i]
+    const sender = t.sender.toString()
+    if (sender === address) {
+      fee += t.fee
+      deltas.algo -= t.fee
+    }
+
+    if (t.payment) {
+      const closeAmount = result?.closingAmount ?? 0n
+      if (sender === address) deltas.algo -= t.payment.amount + closeAmount
+      if (t.payment.receiver.toString() === address) deltas.algo += t.payment.amount
+      if (t.payment.closeRemainderTo?.toString() === address) deltas.algo += closeAmount
+    }
+
+    if (t.assetTransfer) {
+      const assetId = Number(t.assetTransfer.assetIndex)
+      const closeAmount = result?.assetClosingAmount ?? 0n
+      if ((t.assetTransfer.assetSender?.toString() ?? sender) === address) addAsset(assetId, -(t.assetTransfer.amount + closeAmount))
+      if (t.assetTransfer.receiver.toString() === address) addAsset(assetId, t.assetTransfer.amount)
+      if (t.assetTransfer.closeRemainderTo?.toString() === address) addAsset(assetId, closeAmount)
+    }
+
+    // A new asset's whole supply starts with its creator
+    if (t.assetConfig && t.assetConfig.assetIndex === 0n && result?.assetIndex != null) {
+      createdAssetId = Number(result.assetIndex)
+      if (sender === address) addAsset(createdAssetId, t.assetConfig.total)
+    }
+  })
+
+  return { fee, deltas, createdAssetId }
+}
+
+/**
+ * Runs unsigned transactions through algod's simulate endpoint as one group, without asking a wallet to sign.
+ * The transactions are not modified; grouping happens on copies.
+ */
+export async function simulateTransactions(
+  algod: algosdk.Algodv2,
+  transactions: algosdk.Transaction[],
+  address: string,
+): Promise<SimulationResult> {
+  const group =
+    transactions.length > 1 && !transactions[0].group
+      ? algosdk.assignGroupID(transactions.map((t) => algosdk.decodeUnsignedTransaction(algosdk.encodeUnsignedTransaction(t))))
+      : transactions
+
+  const response = await algod
+    .simulateTransactions(
+      new modelsv2.SimulateRequest({
+        txnGroups: [new modelsv2.SimulateRequestTransactionGroup({ txns: group.map((txn) => new algosdk.SignedTransaction({ txn })) })],
+        allowEmptySignatures: true,
+        fixSigners: true,
+        allowUnnamedResources: true,
+      }),
+    )
+    .do()
+
+  const groupResult = response.txnGroups[0]
+  const { fee, deltas, createdAssetId } = simulatedDeltas(
+    transactions,
+    groupResult.txnResults.map((r) => r.txnResult),
+    address,
+  )
+  const rawFailure = groupResult.failureMessage
+  return {
+    ok: !rawFailure,
+    ...(rawFailure ? describeSimulationFailure(rawFailure) : {}),
+    rawFailure,
+    failedAt: groupResult.failedAt?.[0],
+    fee,
+    deltas,
+    createdAssetId,
+  }
+}
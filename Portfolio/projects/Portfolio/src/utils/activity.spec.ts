@@ -0,0 +1,41 @@
+import { ActivityEntry } from '../interfaces/portfolio'
+import { MAX_ACTIVITY_ENTRIES, recordActivity, updateActivity } from './activity'
+
+const entry = (txId: string, status: ActivityEntry['status'] = 'confirmed'): ActivityEntry => ({
+  txId,
+  txIds: [txId],
+  kind: 'Payment',
+  summary: '1 ALGO to X',
+  status,
+  submittedAt: 0,
+  lastValid: 100,
+})
+
+describe('recordActivity', () => {
+  it('should put new entries first and replace existing ones', () => {
+    const entries = recordActivity([entry('A'), entry('B')], entry('B', 'pending'))
+    expect(entries.map((e) => [e.txId, e.status])).toEqual([
+      ['B', 'pending'],
+      ['A', 'confirmed'],
+    ])
+  })
+
+  it('should drop the oldest finished entries but keep pending ones', () => {
+    const existing = Array.from({ length: MAX_ACTIVITY_ENTRIES }, (_, i) =>
+      entry(`T${i}`, i === MAX_ACTIVITY_ENTRIES - 1 ? 'pending' : 'confirmed'),
+    )
+    const entries = recordActivity(existing, entry('NEW', 'pending'))
+    expect(entries).toHaveLength(MAX_ACTIVITY_ENTRIES)
+    expect(entries[0].txId).toBe('NEW')
+    expect(entries.map((e) => e.txId)).toContain(`T${MAX_ACTIVITY_ENTRIES - 1}`)
+    expect(entries.map((e) => e.txId)).not.toContain(`T${MAX_ACTIVITY_ENTRIES - 2}`)
+  })
+})
+
+describe('updateActivity', () => {
+  it('should only change the matching entry', () => {
+    const entries = updateActivity([entry('A', 'pending'), entry('B', 'pending')], 'B', { status: 'confirmed', confirmedRound: 42 })
+    expect(entries[0].status).toBe('pending')
+    expect(entries[1]).toMatchObject({ status: 'confirmed', confirmedRound: 42 })
+  })
+})
@@ -0,0 +1,24 @@
+import { ActivityEntry } from '../interfaces/portfolio'
+
+/** Older entries are dropped once the list grows past this; pending ones are always kept. */
+export const MAX_ACTIVITY_ENTRIES = 50
+
+/** Adds an entry at the top of the list, replacing an earlier entry for the same transaction. */
+export function recordActivity(entries: ActivityEntry[], entry: ActivityEntry): ActivityEntry[] {
+  const next = [entry, ...entries.filter((e) => e.txId !== entry.txId)]
+  if (next.length <= MAX_ACTIVITY_ENTRIES) return next
+  let extra = next.length - MAX_ACTIVITY_ENTRIES
+  // Drop the oldest finished entries first
+  return next
+    .reverse()
+    .filter((e) => (extra > 0 && e.status !== 'pending' ? (extra--, false) : true))
+    .reverse()
+}
+
+export function updateActivity(entries: ActivityEntry[], txId: string, changes: Partial<ActivityEntry>): ActivityEntry[] {
+  return entries.map((e) => (e.txId === txId ? { ...e, ...changes } : e))
+}
+
+export function removeActivity(entries: ActivityEntry[], txId: string): ActivityEntry[] {
+  return entries.filter((e) => e.txId !== txId)
+}
@@ -0,0 +1,73 @@
+import algosdk from 'algosdk'
+import {
+  mergeAddressBooks,
+  parseAddressBook,
+  parseTags,
+  searchAddressBook,
+  serializeAddressBook,
+  upsertAddressBookEntry,
+  validateAddressBookEntry,
+} from './addressBook'
+
+const A = algosdk.generateAccount().addr.toString()
+const B = algosdk.generateAccount().addr.toString()
+
+const book = [
+  { address: A, label: 'Treasury', tags: ['team'], notes: 'Multisig' },
+  { address: B, label: 'Alice', tags: ['friends'] },
+]
+
+describe('parseTags', () => {
+  it('should trim, lower-case and de-duplicate', () => {
+    expect(parseTags(' Team, friends,team,, ')).toEqual(['team', 'friends'])
+  })
+})
+
+describe('validateAddressBookEntry', () => {
+  it('should reject duplicates except for the entry being edited', () => {
+    expect(validateAddressBookEntry({ address: A, label: 'Other', tags: [] }, book)).toMatch(/already/)
+    expect(validateAddressBookEntry({ address: A, label: 'Renamed', tags: [] }, book, A)).toBeNull()
+    expect(validateAddressBookEntry({ address: 'nope', label: 'x', tags: [] }, book)).toMatch(/valid/)
+  })
+})
+
+describe('upsertAddressBookEntry', () => {
+  it('should replace the edited entry and keep the book sorted', () => {
+    const next = upsertAddressBookEntry(book, { address: A, label: ' Bank ', tags: [] }, A)
+    expect(next.map((e) => e.label)).toEqual(['Alice', 'Bank'])
+  })
+})
+
+describe('searchAddressBook', () => {
+  it('should rank label matches before tag and note matches', () => {
+    expect(searchAddressBook(book, 'ali').map((e) => e.label)).toEqual(['Alice'])
+    expect(searchAddressBook(book, 'team').map((e) => e.label)).toEqual(['Treasury'])
+    expect(searchAddressBook(book, 'multi').map((e) => e.label)).toEqual(['Treasury'])
+    expect(searchAddressBook(book, 'zzz')).toEqual([])
+  })
+})
+
+describe('parseAddressBook', () => {
+  it('should round-trip an export', () => {
+    expect(parseAddressBook(serializeAddressBook(book))).toEqual({ entries: book, errors: [] })
+  })
+
+  it('should report invalid entries and keep the rest', () => {
+    const result = parseAddressBook(
+      JSON.stringify([
+        { address: 'bad', label: 'x' },
+        { address: B, label: 'Bob', tags: ['A'] },
+      ]),
+    )
+    expect(result.entries).toEqual([{ address: B, label: 'Bob', tags: ['a'], notes: undefined }])
+    expect(result.errors).toEqual(['Entry 1: Enter a valid Algorand address'])
+    expect(parseAddressBook('{').errors).toEqual(['The file is not valid JSON'])
+  })
+})
+
+describe('mergeAddressBooks', () => {
+  it('should let imported entries replace ones with the same address', () => {
+    const merged = mergeAddressBooks(book, [{ address: B, label: 'Alice (new)', tags: [] }])
+    expect(merged.map((e) => e.label)).toEqual(['Alice (new)', 'Treasury'])
+  })
+})
@@ -0,0 +1,105 @@
+import algosdk from 'algosdk'
+import { AddressBookEntry } from '../interfaces/portfolio'
+import { readJson, storageKey, writeJson } from './storage'
+
+const ADDRESS_BOOK_KEY = storageKey('address-book')
+export const MAX_LABEL_LENGTH = 48
+
+export function loadAddressBook(): AddressBookEntry[] {
+  return readJson<AddressBookEntry[]>(ADDRESS_BOOK_KEY, [])
+}
+
+export function saveAddressBook(entries: AddressBookEntry[]): void {
+  writeJson(ADDRESS_BOOK_KEY, entries)
+}
+
+/** Splits comma-separated tags into a lower-cased, de-duplicated list. */
+export function parseTags(input: string): string[] {
+  return [
+    ...new Set(
+      input
+        .split(',')
+        .map((t) => t.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  ]
+}
+
+/**
+ * Returns an error message, or null when the entry can be saved. `originalAddress` is the address of the entry
+ * being edited, which may keep its own address.
+ */
+export function validateAddressBookEntry(entry: AddressBookEntry, entries: AddressBookEntry[], originalAddress?: string): string | null {
+  if (!algosdk.isValidAddress(entry.address.trim())) return 'Enter a valid Algorand address'
+  if (!entry.label.trim()) return 'Give the address a label'
+  if (entry.label.trim().length > MAX_LABEL_LENGTH) return `Labels are at most ${MAX_LABEL_LENGTH} characters`
+  if (entries.some((e) => e.address === entry.address.trim() && e.address !== originalAddress)) return 'This address is already in the book'
+  return null
+}
+
+const byLabel = (a: AddressBookEntry, b: AddressBookEntry) => a.label.localeCompare(b.label)
+
+/** Adds an entry or replaces the one at `originalAddress` (or with the same address), keeping the book sorted by label. */
+export function upsertAddressBookEntry(entries: AddressBookEntry[], entry: AddressBookEntry, originalAddress?: string): AddressBookEntry[] {
+  const cleaned = { ...entry, address: entry.address.trim(), label: entry.label.trim(), notes: entry.notes?.trim() || undefined }
+  return [...entries.filter((e) => e.address !== cleaned.address && e.address !== originalAddress), cleaned].sort(byLabel)
+}
+
+/** Adds imported entries; an imported entry replaces an existing one with the same address. */
+export function mergeAddressBooks(existing: AddressBookEntry[], imported: AddressBookEntry[]): AddressBookEntry[] {
+  return imported.reduce((book, entry) => upsertAddressBookEntry(book, entry), existing)
+}
+
+/** Entries whose label, address, tags or notes contain `query`, label matches first. */
+export function searchAddressBook(entries: AddressBookEntry[], query: string, limit = 8): AddressBookEntry[] {
+  const q = query.trim().toLowerCase()
+  if (!q) return entries.slice(0, limit)
+  const rank = (e: AddressBookEntry) =>
+    e.label.toLowerCase().startsWith(q)
+      ? 0
+      : e.label.toLowerCase().includes(q)
+        ? 1
+        : e.address.toLowerCase().startsWith(q) || e.tags.some((t) => t.startsWith(q))
+          ? 2
+          : e.notes?.toLowerCase().includes(q)
+            ? 3
+            : -1
+  return entries
+    .map((e) => ({ e, r: rank(e) }))
+    .filter(({ r }) => r >= 0)
+    .sort((a, b) => a.r - b.r || byLabel(a.e, b.e))
+    .slice(0, limit)
+    .map(({ e }) => e)
+}
+
+export function serializeAddressBook(entries: AddressBookEntry[]): string {
+  return JSON.stringify({ version: 1, entries }, null, 2)
+}
+
+/** Reads an exported address book (or a bare array of entries), reporting entries that cannot be imported. */
+export function parseAddressBook(text: string): { entries: AddressBookEntry[]; errors: string[] } {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { entries: [], errors: ['The file is not valid JSON'] }
+  }
+  const items = Array.isArray(raw) ? raw : (raw as { entries?: unknown } | null)?.entries
+  if (!Array.isArray(items)) return { entries: [], errors: ['Expected a list of entries'] }
+
+  const entries: AddressBookEntry[] = []
+  const errors: string[] = []
+  items.forEach((item, index) => {
+    const candidate = item as Partial<AddressBookEntry> | null
+    const entry: AddressBookEntry = {
+      address: String(candidate?.address ?? ''),
+      label: String(candidate?.label ?? ''),
+      notes: typeof candidate?.notes === 'string' ? candidate.notes : undefined,
+      tags: Array.isArray(candidate?.tags) ? parseTags(candidate.tags.join(',')) : [],
+    }
+    const error = validateAddressBookEntry(entry, entries)
+    if (error) errors.push(`Entry ${index + 1}: ${error}`)
+    else entries.push(entry)
+  })
+  return { entries, errors }
+}
@@ -0,0 +1,38 @@
+import { formatBaseUnits, parseAmountToBaseUnits } from './amounts'
+
+describe('parseAmountToBaseUnits', () => {
+  it('should convert decimal amounts exactly', () => {
+    expect(parseAmountToBaseUnits('1.5', 6)).toBe(1_500_000n)
+    expect(parseAmountToBaseUnits('0.000001', 6)).toBe(1n)
+    expect(parseAmountToBaseUnits('.25', 2)).toBe(25n)
+    expect(parseAmountToBaseUnits('42', 0)).toBe(42n)
+  })
+
+  it('should not lose precision on large amounts', () => {
+    expect(parseAmountToBaseUnits('18446744073709.551615', 6)).toBe(18_446_744_073_709_551_615n)
+  })
+
+  it('should accept trailing zeros beyond the asset decimals', () => {
+    expect(parseAmountToBaseUnits('1.500', 1)).toBe(15n)
+  })
+
+  it('should reject too many decimal places', () => {
+    expect(() => parseAmountToBaseUnits('1.0000001', 6)).toThrow('at most 6 decimal places')
+    expect(() => parseAmountToBaseUnits('1.5', 0)).toThrow('does not support decimal places')
+  })
+
+  it('should reject malformed input', () => {
+    for (const input of ['', '.', '-1', '1e6', '1,000', 'abc', '1.2.3']) {
+      expect(() => parseAmountToBaseUnits(input, 6)).toThrow('Enter a valid positive number')
+    }
+  })
+})
+
+describe('formatBaseUnits', () => {
+  it('should format base units with decimals', () => {
+    expect(formatBaseUnits(1_500_000n, 6)).toBe('1.5')
+    expect(formatBaseUnits(1n, 6)).toBe('0.000001')
+    expect(formatBaseUnits(1_234_567_000_000n, 6)).toBe('1,234,567')
+    expect(formatBaseUnits(-2_500n, 3, false)).toBe('-2.5')
+  })
+})
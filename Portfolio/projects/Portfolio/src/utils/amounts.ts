@@ -0,0 +1,32 @@
+/**
+ * Converts a human readable amount (e.g. "1.5") into integer base units for an asset with the given decimals.
+ * Uses string/bigint arithmetic only so no precision is lost to floating point.
+ */
+export function parseAmountToBaseUnits(input: string, decimals: number): bigint {
+  const value = input.trim()
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(value)) {
+    throw new Error('Enter a valid positive number')
+  }
+
+  const [whole, rawFraction = ''] = value.split('.')
+  // Trailing zeros do not change the value, so "1.500" is fine for a 1-decimal asset.
+  const fraction = rawFraction.replace(/0+$/, '')
+  if (fraction.length > decimals) {
+    throw new Error(
+      decimals === 0 ? 'This asset does not support decimal places' : `This asset supports at most ${decimals} decimal places`,
+    )
+  }
+
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0')
+}
+
+/** Formats integer base units as a decimal string, e.g. 1500000n with 6 decimals -> "1.5". */
+export function formatBaseUnits(amount: bigint, decimals: number, grouping = true): string {
+  const negative = amount < 0n
+  const abs = negative ? -amount : amount
+  const base = 10n ** BigInt(decimals)
+  const whole = abs / base
+  const fraction = decimals > 0 ? (abs % base).toString().padStart(decimals, '0').replace(/0+$/, '') : ''
+  const wholeText = grouping ? whole.toLocaleString('en-US') : whole.toString()
+  return `${negative ? '-' : ''}${wholeText}${fraction ? `.${fraction}` : ''}`
+}
@@ -0,0 +1,56 @@
+import algosdk from 'algosdk'
+import { AsaConfigForm, parseMetadataHash, validateAsaConfig } from './asaParams'
+
+const creator = algosdk.generateAccount().addr.toString()
+
+const form = (overrides: Partial<AsaConfigForm> = {}): AsaConfigForm => ({
+  assetName: 'Dash Token',
+  unitName: 'DASH',
+  total: '1000',
+  decimals: '2',
+  url: '',
+  metadataHash: '',
+  defaultFrozen: false,
+  manager: creator,
+  reserve: creator,
+  freeze: '',
+  clawback: '',
+  note: '',
+  ...overrides,
+})
+
+describe('validateAsaConfig', () => {
+  it('should convert the total supply using the decimals', () => {
+    const { errors, fields } = validateAsaConfig(form())
+    expect(errors).toEqual({})
+    expect(fields?.total).toBe(100_000n)
+    expect(fields?.decimals).toBe(2)
+    expect(fields?.freeze).toBeUndefined()
+  })
+
+  it('should enforce byte length limits', () => {
+    const { errors, fields } = validateAsaConfig(form({ unitName: 'TOOLONGUNIT', assetName: 'é'.repeat(17) }))
+    expect(fields).toBeUndefined()
+    expect(errors.unitName).toContain('8 bytes')
+    expect(errors.assetName).toContain('32 bytes')
+  })
+
+  it('should reject invalid decimals, totals and addresses', () => {
+    expect(validateAsaConfig(form({ decimals: '20' })).errors.decimals).toBeDefined()
+    expect(validateAsaConfig(form({ total: '0' })).errors.total).toContain('greater than zero')
+    expect(validateAsaConfig(form({ total: '18446744073709551616', decimals: '0' })).errors.total).toContain('2^64-1')
+    expect(validateAsaConfig(form({ clawback: 'NOTANADDRESS' })).errors.clawback).toBe('Not a valid Algorand address')
+  })
+})
+
+describe('parseMetadataHash', () => {
+  it('should accept hex and base64 encoded 32 byte hashes', () => {
+    const hex = 'ab'.repeat(32)
+    expect(parseMetadataHash(hex)).toHaveLength(32)
+    expect(parseMetadataHash(Buffer.from(hex, 'hex').toString('base64'))).toEqual(parseMetadataHash(hex))
+  })
+
+  it('should reject hashes of the wrong size', () => {
+    expect(() => parseMetadataHash('abcd')).toThrow('32 bytes')
+  })
+})
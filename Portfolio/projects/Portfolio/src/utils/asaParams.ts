@@ -0,0 +1,144 @@
+import type { AssetCreateParams } from '@algorandfoundation/algokit-utils/types/composer'
+import algosdk from 'algosdk'
+import { AssetDetails } from '../interfaces/portfolio'
+import { parseAmountToBaseUnits } from './amounts'
+
+/** Protocol limits for ASA creation fields (byte lengths unless noted otherwise). */
+export const ASA_LIMITS = {
+  assetName: 32,
+  unitName: 8,
+  url: 96,
+  metadataHash: 32,
+  maxDecimals: 19,
+  note: 1000,
+  maxTotal: 2n ** 64n - 1n,
+}
+
+export type AsaRole = 'manager' | 'reserve' | 'freeze' | 'clawback'
+
+export const ASA_ROLES: AsaRole[] = ['manager', 'reserve', 'freeze', 'clawback']
+
+export interface AsaConfigForm {
+  assetName: string
+  unitName: string
+  /** Total supply in whole units; converted to base units using `decimals` */
+  total: string
+  decimals: string
+  url: string
+  /** 32-byte hash, hex (64 chars) or base64 encoded */
+  metadataHash: string
+  defaultFrozen: boolean
+  manager: string
+  reserve: string
+  freeze: string
+  clawback: string
+  note: string
+}
+
+export type AsaCreateFields = Omit<AssetCreateParams, 'sender' | 'signer'>
+
+export function utf8Length(value: string): number {
+  return new TextEncoder().encode(value).length
+}
+
+/** Decodes a metadata hash given as 64 hex chars or base64; throws if it does not decode to exactly 32 bytes. */
+export function parseMetadataHash(input: string): Uint8Array {
+  const value = input.trim()
+  const isHex = /^[0-9a-fA-F]{64}$/.test(value)
+  const bytes = isHex ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64')
+  // Buffer silently skips invalid base64 characters, so round-trip to make sure the input was well formed.
+  if (bytes.length !== ASA_LIMITS.metadataHash || (!isHex && bytes.toString('base64') !== value)) {
+    throw new Error('Metadata hash must be 32 bytes, given as 64 hex characters or base64')
+  }
+  return new Uint8Array(bytes)
+}
+
+/**
+ * Validates the create-token form against the ASA protocol limits and converts it into `assetCreate` fields.
+ * Returns per-field error messages; `fields` is only set when there are none.
+ */
+export function validateAsaConfig(form: AsaConfigForm): { errors: Partial<Record<keyof AsaConfigForm, string>>; fields?: AsaCreateFields } {
+  const errors: Partial<Record<keyof AsaConfigForm, string>> = {}
+
+  if (utf8Length(form.assetName) > ASA_LIMITS.assetName) errors.assetName = `Name is limited to ${ASA_LIMITS.assetName} bytes`
+  if (utf8Length(form.unitName) > ASA_LIMITS.unitName) errors.unitName = `Unit name is limited to ${ASA_LIMITS.unitName} bytes`
+  if (utf8Length(form.url) > ASA_LIMITS.url) errors.url = `URL is limited to ${ASA_LIMITS.url} bytes`
+  if (utf8Length(form.note) > ASA_LIMITS.note) errors.note = `Note is limited to ${ASA_LIMITS.note} bytes`
+
+  const decimals = Number(form.decimals)
+  if (!/^\d+$/.test(form.decimals) || decimals > ASA_LIMITS.maxDecimals) {
+    errors.decimals = `Decimals must be a whole number between 0 and ${ASA_LIMITS.maxDecimals}`
+  }
+
+  let total = 0n
+  if (!errors.decimals) {
+    try {
+      total = parseAmountToBaseUnits(form.total, decimals)
+      if (total <= 0n) errors.total = 'Total supply must be greater than zero'
+      else if (total > ASA_LIMITS.maxTotal) errors.total = 'Total supply exceeds the 2^64-1 base unit limit'
+    } catch (e) {
+      errors.total = (e as Error).message
+    }
+  }
+
+  let metadataHash: Uint8Array | undefined
+  if (form.metadataHash.trim()) {
+    try {
+      metadataHash = parseMetadataHash(form.metadataHash)
+    } catch (e) {
+      errors.metadataHash = (e as Error).message
+    }
+  }
+
+  for (const role of ASA_ROLES) {
+    const address = form[role].trim()
+    if (address && !algosdk.isValidAddress(address)) errors[role] = 'Not a valid Algorand address'
+  }
+
+  if (Object.keys(errors).length > 0) return { errors }
+
+  return {
+    errors,
+    fields: {
+      total,
+      decimals,
+      assetName: form.assetName || undefined,
+      unitName: form.unitName || undefined,
+      url: form.url || undefined,
+      metadataHash,
+      defaultFrozen: form.defaultFrozen,
+      manager: form.manager.trim() || undefined,
+      reserve: form.reserve.trim() || undefined,
+      freeze: form.freeze.trim() || undefined,
+      clawback: form.clawback.trim() || undefined,
+      note: form.note ? new TextEncoder().encode(form.note) : undefined,
+    },
+  }
+}
+
+export type ManagedRole = 'creator' | 'manager' | 'freeze' | 'clawback'
+
+export function toAssetDetails(
+  assetId: number | bigint,
+  params: algosdk.modelsv2.AssetParams | algosdk.indexerModels.AssetParams,
+): AssetDetails {
+  return {
+    assetId: Number(assetId),
+    name: params.name,
+    unitName: params.unitName,
+    decimals: params.decimals,
+    total: params.total,
+    defaultFrozen: params.defaultFrozen ?? false,
+    url: params.url,
+    creator: params.creator,
+    manager: params.manager,
+    reserve: params.reserve,
+    freeze: params.freeze,
+    clawback: params.clawback,
+  }
+}
+
+/** Lists the roles `address` holds on an asset, e.g. ['creator', 'manager']. */
+export function managedRoles(asset: AssetDetails, address: string): ManagedRole[] {
+  return (['creator', 'manager', 'freeze', 'clawback'] as const).filter((role) => asset[role] === address)
+}
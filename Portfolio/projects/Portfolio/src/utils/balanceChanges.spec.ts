@@ -0,0 +1,26 @@
+import { ALGO_BALANCE_KEY, changedBalances } from './balanceChanges'
+
+describe('changedBalances', () => {
+  const holdings = [
+    { assetId: 1, amount: 10n },
+    { assetId: 2, amount: 20n },
+  ]
+
+  it('should report nothing when balances are unchanged', () => {
+    expect(changedBalances({ amount: 5n, holdings }, { amount: 5n, holdings: [...holdings] }).size).toBe(0)
+  })
+
+  it('should report changed, added and removed balances', () => {
+    const changed = changedBalances(
+      { amount: 5n, holdings },
+      {
+        amount: 6n,
+        holdings: [
+          { assetId: 1, amount: 11n },
+          { assetId: 3, amount: 0n },
+        ],
+      },
+    )
+    expect([...changed].sort()).toEqual(['1', '2', '3', ALGO_BALANCE_KEY].sort())
+  })
+})
@@ -0,0 +1,24 @@
+import { AssetHolding } from '../interfaces/portfolio'
+
+/** Key used for the ALGO balance in the set returned by `changedBalances`. */
+export const ALGO_BALANCE_KEY = 'ALGO'
+
+/**
+ * Lists the balances that differ between two loads of the same account: `ALGO_BALANCE_KEY` for the ALGO balance
+ * and the asset id (as a string) for every holding that was added, removed or changed amount.
+ */
+export function changedBalances(
+  previous: { amount: bigint; holdings: AssetHolding[] },
+  next: { amount: bigint; holdings: AssetHolding[] },
+): Set<string> {
+  const changed = new Set<string>()
+  if (previous.amount !== next.amount) changed.add(ALGO_BALANCE_KEY)
+
+  const before = new Map(previous.holdings.map((h) => [h.assetId, h.amount]))
+  next.holdings.forEach((h) => {
+    if (before.get(h.assetId) !== h.amount) changed.add(String(h.assetId))
+    before.delete(h.assetId)
+  })
+  before.forEach((_, assetId) => changed.add(String(assetId)))
+  return changed
+}
@@ -0,0 +1,86 @@
+import type { indexerModels } from 'algosdk'
+import { balanceSeries, mergeRoundDeltas, roundDeltas } from './balanceHistory'
+
+const ME = 'ME'
+const OTHER = 'OTHER'
+
+const pay = (round: number, sender: string, receiver: string, amount: bigint, extra: Partial<indexerModels.Transaction> = {}) =>
+  ({
+    sender,
+    fee: 1_000n,
+    confirmedRound: BigInt(round),
+    roundTime: round * 10,
+    paymentTransaction: { receiver, amount },
+    ...extra,
+  }) as unknown as indexerModels.Transaction
+
+describe('roundDeltas', () => {
+  it('should sum every transaction of a round including fees and inner transactions', () => {
+    const withInner = pay(5, OTHER, ME, 0n, {
+      innerTxns: [
+        { sender: OTHER, fee: 0n, assetTransferTransaction: { assetId: 9n, amount: 3n, receiver: ME } },
+      ] as unknown as indexerModels.Transaction[],
+    })
+    const result = roundDeltas([pay(5, ME, OTHER, 100n), withInner, pay(2, OTHER, ME, 500n)], ME)
+    expect(result.map((d) => [d.round, d.algo])).toEqual([
+      [2, 500n],
+      [5, -1_100n],
+    ])
+    expect(result[1].assets.get(9)).toBe(3n)
+  })
+
+  it('should count a created asset supply and remove it again when the asset is destroyed', () => {
+    const acfg = (round: number, extra: Partial<indexerModels.Transaction>) =>
+      ({ sender: ME, fee: 1_000n, confirmedRound: BigInt(round), roundTime: round * 10, ...extra }) as unknown as indexerModels.Transaction
+    const create = acfg(2, {
+      createdAssetIndex: 42n,
+      assetConfigTransaction: { assetId: 0n, params: { creator: ME, total: 1_000n } },
+    } as never)
+    const transfer = pay(3, ME, OTHER, 0n, {
+      paymentTransaction: undefined,
+      assetTransferTransaction: { assetId: 42n, amount: 1_000n, receiver: OTHER },
+    } as never)
+    const returned = pay(4, OTHER, ME, 0n, {
+      paymentTransaction: undefined,
+      assetTransferTransaction: { assetId: 42n, amount: 1_000n, receiver: ME },
+    } as never)
+    const destroy = acfg(5, { assetConfigTransaction: { assetId: 42n } } as never)
+
+    const rounds = roundDeltas([create, transfer, returned, destroy], ME, new Map([[42, { creator: ME, total: 1_000n }]]))
+    expect(rounds.map((d) => d.assets.get(42))).toEqual([1_000n, -1_000n, 1_000n, -1_000n])
+    expect(balanceSeries(0n, rounds, 42, { now: 100 }).map((p) => p.balance)).toEqual([0n, 1_000n, 0n, 1_000n, 0n, 0n])
+  })
+})
+
+describe('mergeRoundDeltas', () => {
+  it('should keep rounds ordered and unique', () => {
+    const a = roundDeltas([pay(3, OTHER, ME, 1n)], ME)
+    const b = roundDeltas([pay(1, OTHER, ME, 2n), pay(3, OTHER, ME, 5n)], ME)
+    expect(mergeRoundDeltas(a, b).map((d) => [d.round, d.algo])).toEqual([
+      [1, 2n],
+      [3, 1n],
+    ])
+  })
+})
+
+describe('balanceSeries', () => {
+  const rounds = roundDeltas([pay(1, OTHER, ME, 1_000_000n), pay(2, ME, OTHER, 200_000n), pay(3, OTHER, ME, 50_000n)], ME)
+
+  it('should walk backwards from the current balance', () => {
+    expect(balanceSeries(849_000n, rounds, 'algo', { now: 100 })).toEqual([
+      { timestamp: 10, balance: 0n },
+      { timestamp: 10, round: 1, balance: 1_000_000n },
+      { timestamp: 20, round: 2, balance: 799_000n },
+      { timestamp: 30, round: 3, balance: 849_000n },
+      { timestamp: 100, balance: 849_000n },
+    ])
+  })
+
+  it('should start at the range start and skip rounds that did not touch the balance', () => {
+    expect(balanceSeries(7n, rounds, 5, { since: 15, now: 100 })).toEqual([
+      { timestamp: 15, balance: 7n },
+      { timestamp: 100, balance: 7n },
+    ])
+    expect(balanceSeries(849_000n, rounds, 'algo', { since: 15, now: 100 })[0]).toEqual({ timestamp: 15, balance: 1_000_000n })
+  })
+})
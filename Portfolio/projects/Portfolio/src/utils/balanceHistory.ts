@@ -0,0 +1,85 @@
+import type { indexerModels } from 'algosdk'
+import { accountDeltas, DestroyedAssets } from './transactions'
+
+/** 'algo' for the ALGO balance, otherwise an ASA id */
+export type BalanceKey = 'algo' | number
+
+/** Net balance changes of an account within one round */
+export interface RoundDelta {
+  round: number
+  /** Round time in seconds since the epoch */
+  timestamp: number
+  /** Signed change in microAlgo, after fees and rewards */
+  algo: bigint
+  /** Signed change per ASA id, in base units */
+  assets: Map<number, bigint>
+}
+
+export interface BalancePoint {
+  /** Seconds since the epoch */
+  timestamp: number
+  /** Round after which the account had `balance`; undefined for the range start and the current balance */
+  round?: number
+  balance: bigint
+}
+
+/**
+ * Sums the balance changes of `transactions` per confirmed round, in ascending round order. `destroyed` gives the
+ * supply of assets destroyed in the range, which their destroy transactions do not include.
+ */
+export function roundDeltas(transactions: indexerModels.Transaction[], address: string, destroyed?: DestroyedAssets): RoundDelta[] {
+  const byRound = new Map<number, RoundDelta>()
+  transactions.forEach((t) => {
+    if (t.confirmedRound == null) return
+    const round = Number(t.confirmedRound)
+    const entry = byRound.get(round) ?? { round, timestamp: t.roundTime ?? 0, algo: 0n, assets: new Map<number, bigint>() }
+    const deltas = accountDeltas(t, address, { algo: entry.algo, assets: entry.assets }, destroyed)
+    byRound.set(round, { ...entry, algo: deltas.algo })
+  })
+  return [...byRound.values()].sort((a, b) => a.round - b.round)
+}
+
+/** Combines round deltas fetched for disjoint round ranges; on overlap the first list wins. */
+export function mergeRoundDeltas(...lists: RoundDelta[][]): RoundDelta[] {
+  const byRound = new Map<number, RoundDelta>()
+  lists.forEach((list) =>
+    list.forEach((d) => {
+      if (!byRound.has(d.round)) byRound.set(d.round, d)
+    }),
+  )
+  return [...byRound.values()].sort((a, b) => a.round - b.round)
+}
+
+/** Asset ids that appear in the deltas, e.g. to offer assets the account has since opted out of. */
+export function assetsInHistory(rounds: RoundDelta[]): number[] {
+  return [...new Set(rounds.flatMap((d) => [...d.assets.keys()]))].sort((a, b) => a - b)
+}
+
+/**
+ * Rebuilds a balance series by starting from the current balance and undoing each round's change, newest first.
+ * The result is in ascending time order: the balance at `since` (or before the first change), one point per round
+ * that changed the balance, and the current balance at `now`.
+ */
+export function balanceSeries(
+  current: bigint,
+  rounds: RoundDelta[],
+  key: BalanceKey,
+  { since, now }: { since?: number; now: number },
+): BalancePoint[] {
+  const points: BalancePoint[] = [{ timestamp: now, balance: current }]
+  let balance = current
+  let earliest = now
+
+  for (let i = rounds.length - 1; i >= 0; i--) {
+    const d = rounds[i]
+    if (since != null && d.timestamp < since) break
+    const delta = key === 'algo' ? d.algo : (d.assets.get(key) ?? 0n)
+    if (delta === 0n) continue
+    points.push({ timestamp: d.timestamp, round: d.round, balance })
+    balance -= delta
+    earliest = d.timestamp
+  }
+
+  points.push({ timestamp: since ?? earliest, balance })
+  return points.reverse()
+}
@@ -0,0 +1,87 @@
+import algosdk from 'algosdk'
+import { chunk, parseBatchInput, validateBatchRows } from './batch'
+
+const alice = algosdk.generateAccount().addr.toString()
+const bob = algosdk.generateAccount().addr.toString()
+
+describe('parseBatchInput', () => {
+  it('should parse ALGO and ASA rows and skip headers, comments and blank lines', () => {
+    const { rows, errors } = parseBatchInput(`address,amount,asset\n${alice},1.5\n\n# airdrop\n${bob};10;1234\n${bob}\t2\tALGO`)
+    expect(errors).toEqual([])
+    expect(rows).toEqual([
+      { line: 2, receiver: alice, amount: '1.5', assetId: undefined },
+      { line: 5, receiver: bob, amount: '10', assetId: 1234 },
+      { line: 6, receiver: bob, amount: '2', assetId: undefined },
+    ])
+  })
+
+  it('should report malformed lines', () => {
+    const { rows, errors } = parseBatchInput(`${alice}\n${bob},1,abc`)
+    expect(rows).toEqual([])
+    expect(errors.map((e) => e.line)).toEqual([1, 2])
+  })
+})
+
+describe('validateBatchRows', () => {
+  const holdings = [{ assetId: 7, amount: 1_000n, decimals: 2, unitName: 'TST' }]
+
+  it('should convert amounts using each asset decimals', () => {
+    const [algoRow, asaRow] = validateBatchRows(
+      [
+        { line: 1, receiver: alice, amount: '0.5' },
+        { line: 2, receiver: bob, amount: '2.5', assetId: 7 },
+      ],
+      holdings,
+      10_000_000n,
+    )
+    expect(algoRow).toMatchObject({ baseUnits: 500_000n, unitName: 'ALGO' })
+    expect(asaRow).toMatchObject({ baseUnits: 250n, unitName: 'TST' })
+  })
+
+  it('should flag the row that overdraws a balance', () => {
+    const rows = validateBatchRows(
+      [
+        { line: 1, receiver: alice, amount: '6', assetId: 7 },
+        { line: 2, receiver: bob, amount: '6', assetId: 7 },
+        { line: 3, receiver: 'nope', amount: '1' },
+        { line: 4, receiver: bob, amount: '1', assetId: 8 },
+      ],
+      holdings,
+      10_000_000n,
+    )
+    expect(rows.map((r) => !!r.error)).toEqual([false, true, true, true])
+  })
+
+  it('should count one fee per row against the spendable ALGO', () => {
+    const rows = validateBatchRows(
+      [
+        { line: 1, receiver: alice, amount: '1', assetId: 7 },
+        { line: 2, receiver: bob, amount: '1', assetId: 7 },
+      ],
+      holdings,
+      1_500n,
+    )
+    expect(rows[0].error).toBeUndefined()
+    expect(rows[1].error).toMatch(/spendable ALGO/)
+  })
+
+  it('should flag rows repeating an earlier transfer', () => {
+    const rows = validateBatchRows(
+      [
+        { line: 1, receiver: alice, amount: '1', assetId: 7 },
+        { line: 2, receiver: alice, amount: '1.00', assetId: 7 },
+        { line: 3, receiver: alice, amount: '1' },
+        { line: 4, receiver: bob, amount: '1', assetId: 7 },
+      ],
+      holdings,
+      10_000_000n,
+    )
+    expect(rows.map((r) => r.error)).toEqual([undefined, 'Same transfer as line 1; combine them into one row', undefined, undefined])
+  })
+})
+
+describe('chunk', () => {
+  it('should split into groups of at most 16', () => {
+    expect(chunk(Array.from({ length: 33 }, (_, i) => i)).map((c) => c.length)).toEqual([16, 16, 1])
+  })
+})
@@ -0,0 +1,112 @@
+import algosdk from 'algosdk'
+import { AssetHolding } from '../interfaces/portfolio'
+import { formatBaseUnits, parseAmountToBaseUnits } from './amounts'
+import { MIN_TXN_FEE } from './minBalance'
+
+/** Maximum number of transactions in an atomic group. */
+export const MAX_GROUP_SIZE = 16
+
+export interface BatchRow {
+  /** 1-based line number in the pasted or uploaded input */
+  line: number
+  receiver: string
+  amount: string
+  /** ASA id; undefined for ALGO */
+  assetId?: number
+}
+
+export interface ValidatedBatchRow extends BatchRow {
+  /** Amount in base units (microAlgo for ALGO) when the row is valid */
+  baseUnits?: bigint
+  decimals: number
+  unitName: string
+  error?: string
+}
+
+const isAlgo = (asset: string) => asset === '' || asset === '0' || asset.toUpperCase() === 'ALGO'
+
+/**
+ * Parses `address,amount[,asset]` lines (comma, semicolon or tab separated). Blank lines, `#` comments and a header
+ * row starting with "address" are skipped; an asset of `ALGO`, `0` or nothing means ALGO.
+ */
+export function parseBatchInput(text: string): { rows: BatchRow[]; errors: { line: number; message: string }[] } {
+  const rows: BatchRow[] = []
+  const errors: { line: number; message: string }[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    const trimmed = raw.trim()
+    if (!trimmed || trimmed.startsWith('#')) return
+
+    const cells = trimmed.split(/[,;\t]/).map((c) => c.trim().replace(/^"(.*)"$/, '$1'))
+    if (index === 0 && cells[0].toLowerCase() === 'address') return
+    if (cells.length < 2 || cells.length > 3) {
+      errors.push({ line, message: 'Expected address,amount[,asset]' })
+      return
+    }
+
+    const asset = cells[2] ?? ''
+    if (!isAlgo(asset) && !/^\d+$/.test(asset)) {
+      errors.push({ line, message: `"${asset}" is not an asset ID` })
+      return
+    }
+    rows.push({ line, receiver: cells[0], amount: cells[1], assetId: isAlgo(asset) ? undefined : Number(asset) })
+  })
+
+  return { rows, errors }
+}
+
+/**
+ * Checks addresses, amounts and the sender's balances for every row. Balances are consumed in order, so the first
+ * row that would overdraw an asset (or the spendable ALGO, including one minimum fee per row) is flagged.
+ * Repeats of an earlier row are flagged too: they would build byte-identical transactions, and a duplicate
+ * transaction id makes the node reject the whole group.
+ */
+export function validateBatchRows(rows: BatchRow[], holdings: AssetHolding[], spendableAlgo: bigint): ValidatedBatchRow[] {
+  const remaining = new Map<number, bigint>(holdings.map((h) => [h.assetId, h.amount]))
+  let remainingAlgo = spendableAlgo
+  /** Line of the first valid row for each receiver, asset and amount */
+  const seen = new Map<string, number>()
+
+  return rows.map((row) => {
+    const holding = row.assetId != null ? holdings.find((h) => h.assetId === row.assetId) : undefined
+    const decimals = row.assetId == null ? 6 : (holding?.decimals ?? 0)
+    const unitName = row.assetId == null ? 'ALGO' : (holding?.unitName ?? `#${row.assetId}`)
+    const result: ValidatedBatchRow = { ...row, decimals, unitName }
+
+    if (!algosdk.isValidAddress(row.receiver)) return { ...result, error: 'Not a valid Algorand address' }
+    if (row.assetId != null && !holding) return { ...result, error: `You do not hold asset #${row.assetId}` }
+
+    let baseUnits: bigint
+    try {
+      baseUnits = parseAmountToBaseUnits(row.amount, decimals)
+    } catch (e) {
+      return { ...result, error: (e as Error).message }
+    }
+    if (baseUnits <= 0n) return { ...result, error: 'Amount must be greater than zero' }
+
+    const key = `${row.receiver}:${row.assetId ?? 'ALGO'}:${baseUnits}`
+    const firstLine = seen.get(key)
+    if (firstLine != null) return { ...result, error: `Same transfer as line ${firstLine}; combine them into one row` }
+
+    const algoNeeded = MIN_TXN_FEE + (row.assetId == null ? baseUnits : 0n)
+    if (algoNeeded > remainingAlgo) {
+      return { ...result, error: `Not enough spendable ALGO (${formatBaseUnits(remainingAlgo, 6)} left for amount and fee)` }
+    }
+    if (row.assetId != null) {
+      const left = remaining.get(row.assetId) ?? 0n
+      if (baseUnits > left) return { ...result, error: `Exceeds your remaining balance of ${formatBaseUnits(left, decimals)} ${unitName}` }
+      remaining.set(row.assetId, left - baseUnits)
+    }
+    remainingAlgo -= algoNeeded
+    seen.set(key, row.line)
+    return { ...result, baseUnits }
+  })
+}
+
+/** Splits items into consecutive chunks of at most `size`. */
+export function chunk<T>(items: T[], size: number = MAX_GROUP_SIZE): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
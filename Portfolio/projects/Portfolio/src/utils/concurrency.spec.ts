@@ -0,0 +1,30 @@
+import { createLimiter } from './concurrency'
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('createLimiter', () => {
+  it('should never run more than the configured number of tasks at once', async () => {
+    const limit = createLimiter(2)
+    let active = 0
+    let peak = 0
+    const task = (value: number) => async () => {
+      active++
+      peak = Math.max(peak, active)
+      await tick()
+      active--
+      return value
+    }
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map((value) => limit(task(value))))
+    expect(results).toEqual([1, 2, 3, 4, 5])
+    expect(peak).toBe(2)
+  })
+
+  it('should keep going after a task fails', async () => {
+    const limit = createLimiter(1)
+    const failed = limit(() => Promise.reject(new Error('boom')))
+    const next = limit(() => Promise.resolve('ok'))
+    await expect(failed).rejects.toThrow('boom')
+    await expect(next).resolves.toBe('ok')
+  })
+})
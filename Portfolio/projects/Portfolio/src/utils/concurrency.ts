@@ -0,0 +1,28 @@
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>
+
+/** Returns a function that runs async tasks with at most `concurrency` of them in flight at once. */
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0
+  const queue: (() => void)[] = []
+
+  const next = () => {
+    if (active >= concurrency) return
+    const run = queue.shift()
+    if (!run) return
+    active++
+    run()
+  }
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--
+            next()
+          })
+      })
+      next()
+    })
+}
@@ -0,0 +1,53 @@
+import algosdk from 'algosdk'
+import { classifyError, describeError } from './errors'
+
+const ADDR = algosdk.generateAccount().addr.toString()
+
+const httpError = (status: number, message: string) =>
+  Object.assign(new Error(`Network request error. Received status ${status} (Status): ${message}`), { response: { status } })
+
+describe('classifyError', () => {
+  it('should recognise ledger rejections inside node HTTP errors', () => {
+    expect(
+      classifyError(httpError(400, `TransactionPool.Remember: transaction XYZ: overspend (account ${ADDR}, data {...})`)),
+    ).toMatchObject({
+      kind: 'overspend',
+      status: 400,
+      message: `${ADDR.slice(0, 8)}… does not have enough ALGO to cover the amount and fees`,
+    })
+    expect(classifyError(httpError(400, `asset 77 missing from ${ADDR}`)).kind).toBe('missing-opt-in')
+    expect(classifyError(httpError(400, 'txn dead: round 200 outside of 100--150')).kind).toBe('stale-round')
+    expect(classifyError(httpError(400, 'transaction XYZ: logic eval error: assert failed pc=12')).message).toBe(
+      'A smart contract rejected the transaction: assert failed pc=12',
+    )
+  })
+
+  it('should classify by HTTP status when the body is not a ledger error', () => {
+    expect(classifyError(httpError(429, 'too many requests'))).toMatchObject({ kind: 'rate-limited', retryable: true })
+    expect(classifyError(httpError(404, 'asset does not exist')).kind).toBe('not-found')
+    expect(classifyError(httpError(503, 'unavailable'))).toMatchObject({ kind: 'server-error', retryable: true })
+    expect(classifyError(httpError(400, 'bad note'))).toMatchObject({ kind: 'bad-request', message: 'bad note' })
+  })
+
+  it('should recognise wallet rejections by ARC-1 code or message', () => {
+    expect(classifyError(Object.assign(new Error('nope'), { code: 4001 })).kind).toBe('user-rejected')
+    expect(classifyError(new Error('Transaction signing was rejected by the user')).kind).toBe('user-rejected')
+  })
+
+  it('should recognise unreachable nodes and missing configuration', () => {
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network-unreachable')
+    expect(classifyError(new Error('Attempt to get default algod configuration without specifying it')).kind).toBe('configuration')
+  })
+
+  it('should pass unknown errors through', () => {
+    expect(classifyError('boom')).toMatchObject({ kind: 'unknown', message: 'boom', detail: 'boom' })
+  })
+})
+
+describe('describeError', () => {
+  it('should combine context, message and action', () => {
+    expect(describeError('Send failed', httpError(429, 'slow down'))).toBe(
+      'Send failed: The node is rate limiting requests. Wait a moment and try again.',
+    )
+  })
+})
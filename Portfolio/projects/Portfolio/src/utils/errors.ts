@@ -0,0 +1,206 @@
+import { formatBaseUnits } from './amounts'
+
+/**
+ * Shared classification of the failures the app runs into: node and indexer HTTP errors, ledger rejections
+ * surfaced by algod (when sending or simulating), wallet sign-in/signing rejections and plain connectivity
+ * problems. Components show `message` and `action`; `detail` keeps the original text for a details toggle.
+ */
+
+export type ErrorKind =
+  | 'overspend'
+  | 'below-min-balance'
+  | 'missing-opt-in'
+  | 'asset-frozen'
+  | 'logic-eval'
+  | 'stale-round'
+  | 'user-rejected'
+  | 'network-unreachable'
+  | 'rate-limited'
+  | 'not-found'
+  | 'bad-request'
+  | 'server-error'
+  | 'configuration'
+  | 'unknown'
+
+export interface ClassifiedError {
+  kind: ErrorKind
+  /** What went wrong, in plain language */
+  message: string
+  /** What the user can do about it, when there is something */
+  action?: string
+  /** Whether trying the same thing again may succeed without changes */
+  retryable: boolean
+  /** HTTP status of the failed node or indexer request */
+  status?: number
+  /** The original error message */
+  detail: string
+}
+
+type Classifier = (match: RegExpMatchArray) => Omit<ClassifiedError, 'detail' | 'status'>
+
+const short = (address: string) => `${address.slice(0, 8)}…`
+
+// Ledger errors come back inside HTTP 400 bodies from send and inside simulate failure messages, so they are
+// matched on the text before looking at the status.
+const LEDGER_PATTERNS: [RegExp, Classifier][] = [
+  [
+    /overspend \(account ([A-Z2-7]{58})/,
+    (m) => ({
+      kind: 'overspend',
+      message: `${short(m[1])} does not have enough ALGO to cover the amount and fees`,
+      action: 'Lower the amount or add ALGO to the account.',
+      retryable: false,
+    }),
+  ],
+  [
+    /balance (\d+) below min (\d+)/,
+    (m) => ({
+      kind: 'below-min-balance',
+      message: `This would leave an account with ${formatBaseUnits(BigInt(m[1]), 6)} ALGO, below its minimum balance of ${formatBaseUnits(BigInt(m[2]), 6)} ALGO`,
+      action: 'Send less ALGO, or add ALGO to cover the minimum balance.',
+      retryable: false,
+    }),
+  ],
+  [
+    /asset (\d+) missing from ([A-Z2-7]{58})/,
+    (m) => ({
+      kind: 'missing-opt-in',
+      message: `${short(m[2])} is not opted in to asset ${m[1]}`,
+      action: 'The account has to opt in to the asset before it can hold it.',
+      retryable: false,
+    }),
+  ],
+  [
+    /underflow on subtracting (\d+) from sender amount (\d+)/,
+    (m) => ({
+      kind: 'overspend',
+      message: `The sender only holds ${m[2]} base units but tries to send ${m[1]}`,
+      action: 'Lower the amount.',
+      retryable: false,
+    }),
+  ],
+  [
+    /asset (\d+) frozen in ([A-Z2-7]{58})/,
+    (m) => ({
+      kind: 'asset-frozen',
+      message: `Asset ${m[1]} is frozen for ${short(m[2])}`,
+      action: 'Ask the asset’s freeze manager to unfreeze the holding.',
+      retryable: false,
+    }),
+  ],
+  [
+    /txn dead|round \d+ outside of \d+--\d+/,
+    () => ({
+      kind: 'stale-round',
+      message: 'The transaction has expired',
+      action: 'Go back and review it again to rebuild it with current rounds.',
+      retryable: false,
+    }),
+  ],
+  [
+    /logic eval error: (.*)|(rejected by (?:ApprovalProgram|ClearStateProgram|logic))/,
+    (m) => ({
+      kind: 'logic-eval',
+      message: `A smart contract rejected the transaction: ${m[1] ?? m[2]}`,
+      action: 'Check the call arguments and the contract’s requirements.',
+      retryable: false,
+    }),
+  ],
+]
+
+// ARC-1 code for "the user rejected the request"; wallets without codes are matched on their messages.
+const USER_REJECTED_CODE = 4001
+const USER_REJECTED_PATTERN = /reject|cancel|denied|declined|closed by user|modal is closed/i
+const UNREACHABLE_PATTERN = /failed to fetch|networkerror|network request failed|load failed|econnrefused|enotfound|etimedout/i
+
+/** The message of anything thrown, for display or matching. */
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'string') return error
+  return (error as { message?: string } | null)?.message ?? String(error)
+}
+
+function httpStatus(error: unknown): number | undefined {
+  const status = (error as { response?: { status?: unknown } } | null)?.response?.status
+  return typeof status === 'number' ? status : undefined
+}
+
+/** Classifies a ledger rejection from algod's message, e.g. a simulate failure; undefined when it is not one. */
+export function classifyLedgerMessage(message: string): ClassifiedError | undefined {
+  for (const [pattern, classify] of LEDGER_PATTERNS) {
+    const match = message.match(pattern)
+    if (match) return { ...classify(match), detail: message }
+  }
+  return undefined
+}
+
+/** Maps anything thrown by algod, the indexer or a wallet to an error kind with a user-facing message. */
+export function classifyError(error: unknown): ClassifiedError {
+  const detail = errorMessage(error)
+  const status = httpStatus(error)
+
+  const ledger = classifyLedgerMessage(detail)
+  if (ledger) return { ...ledger, status }
+
+  const code = (error as { code?: unknown } | null)?.code
+  if (status == null && (code === USER_REJECTED_CODE || USER_REJECTED_PATTERN.test(detail))) {
+    return { kind: 'user-rejected', message: 'The request was cancelled in the wallet', retryable: true, detail }
+  }
+
+  if (status === 429) {
+    return {
+      kind: 'rate-limited',
+      message: 'The node is rate limiting requests',
+      action: 'Wait a moment and try again.',
+      retryable: true,
+      status,
+      detail,
+    }
+  }
+  if (status === 404) {
+    return { kind: 'not-found', message: 'The node could not find what was asked for', retryable: false, status, detail }
+  }
+  if (status != null && status >= 500) {
+    return {
+      kind: 'server-error',
+      message: `The node had an internal error (HTTP ${status})`,
+      action: 'Try again, or switch to another node.',
+      retryable: true,
+      status,
+      detail,
+    }
+  }
+  if (status != null && status >= 400) {
+    // Keep the node's own explanation, which follows the status line
+    const reason = detail.replace(/^Network request error\. Received status \d+ \([^)]*\):?\s*/, '')
+    return { kind: 'bad-request', message: reason || `The node rejected the request (HTTP ${status})`, retryable: false, status, detail }
+  }
+
+  if (UNREACHABLE_PATTERN.test(detail)) {
+    return {
+      kind: 'network-unreachable',
+      message: 'The node could not be reached',
+      action: 'Check your connection and the network settings.',
+      retryable: true,
+      detail,
+    }
+  }
+  if (detail.includes('Attempt to get default algod configuration')) {
+    return {
+      kind: 'configuration',
+      message: 'The network is not configured',
+      action:
+        'Create a .env file based on .env.template and fill in the required values. This controls the network and credentials for connections with Algod and Indexer.',
+      retryable: false,
+      detail,
+    }
+  }
+
+  return { kind: 'unknown', message: detail, retryable: false, detail }
+}
+
+/** One line for a snackbar: what was being done, what went wrong and what to do about it. */
+export function describeError(context: string, error: unknown): string {
+  const { message, action } = classifyError(error)
+  return `${context}: ${message}${action ? `. ${action}` : ''}`
+}
@@ -0,0 +1,56 @@
+import type { indexerModels } from 'algosdk'
+import { holdingExportRows, serializeRows, toCsv, transactionExportRows } from './exportData'
+import { toTxn } from './transactions'
+
+describe('toCsv', () => {
+  it('should quote cells containing separators, quotes or newlines', () => {
+    expect(toCsv([{ a: 'plain', b: 'x,y', c: 'say "hi"', d: null }])).toBe('a,b,c,d\r\nplain,"x,y","say ""hi""",')
+  })
+
+  it('should neutralise cells a spreadsheet would run as formulas but keep negative numbers', () => {
+    const row = { a: '=HYPERLINK("x")', b: '+1+1', c: '@SUM(A1)', d: '-2+3', e: '\tcmd', f: '-2.5', g: 'a=b' }
+    expect(toCsv([row])).toBe(`a,b,c,d,e,f,g\r\n"'=HYPERLINK(""x"")","'+1+1","'@SUM(A1)","'-2+3","'\tcmd",-2.5,a=b`)
+  })
+
+  it('should return an empty string for no rows', () => {
+    expect(toCsv([])).toBe('')
+  })
+})
+
+describe('holdingExportRows', () => {
+  it('should export raw and formatted amounts', () => {
+    const [row] = holdingExportRows([{ assetId: 5, amount: 1_234_567n, decimals: 3, name: 'Token', unitName: 'TKN' }])
+    expect(row).toMatchObject({ asset_id: 5, amount_base_units: '1234567', amount: '1234.567', unit_name: 'TKN' })
+  })
+})
+
+describe('transactionExportRows', () => {
+  it('should sign outgoing amounts and decode notes', () => {
+    const raw = {
+      id: 'TX1',
+      sender: 'ME',
+      fee: 1000n,
+      txType: 'pay',
+      confirmedRound: 10n,
+      roundTime: 1_700_000_000,
+      note: new TextEncoder().encode('rent'),
+      paymentTransaction: { amount: 2_500_000n, receiver: 'BOB' },
+    } as unknown as indexerModels.Transaction
+    const [row] = transactionExportRows([toTxn(raw, 0, 'ME', () => undefined)], 'ME')
+    expect(row).toMatchObject({
+      id: 'TX1',
+      round: 10,
+      timestamp: '2023-11-14T22:13:20.000Z',
+      type: 'pay',
+      direction: 'out',
+      counterparty: 'BOB',
+      asset_id: 0,
+      amount_base_units: '-2500000',
+      amount: '-2.5',
+      fee_microalgo: '1000',
+      fee_paid: true,
+      note: 'rent',
+    })
+    expect(JSON.parse(serializeRows([row], 'json'))[0].amount).toBe('-2.5')
+  })
+})
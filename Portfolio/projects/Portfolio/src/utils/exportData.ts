@@ -0,0 +1,83 @@
+import { AssetHolding, Txn } from '../interfaces/portfolio'
+import { formatBaseUnits } from './amounts'
+import { decodeNote } from './note'
+import { displayAmount } from './transactions'
+
+export type ExportFormat = 'csv' | 'json'
+
+/** Flat record written as one CSV line or JSON object; bigints are exported as strings to keep full precision. */
+export type ExportRow = Record<string, string | number | boolean | null>
+
+/** Spreadsheets evaluate cells starting with these as formulas; anyone can put them in a note sent to the account. */
+const FORMULA_START = /^[=+\-@\t\r]/
+const NUMBER = /^-?\d+(\.\d+)?$/
+
+function csvCell(value: ExportRow[string]): string {
+  if (value == null) return ''
+  const text = String(value)
+  // Signed amounts are plain numbers and stay numeric; anything else that could run as a formula is forced to text
+  if (FORMULA_START.test(text) && !NUMBER.test(text)) return `"'${text.replace(/"/g, '""')}"`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Serialises rows as CSV with a header line taken from the first row's keys. */
+export function toCsv(rows: ExportRow[]): string {
+  if (rows.length === 0) return ''
+  const columns = Object.keys(rows[0])
+  return [columns.join(','), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(','))].join('\r\n')
+}
+
+export function serializeRows(rows: ExportRow[], format: ExportFormat): string {
+  return format === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2)
+}
+
+export function holdingExportRows(holdings: AssetHolding[]): ExportRow[] {
+  return holdings.map((h) => ({
+    asset_id: h.assetId,
+    name: h.name ?? null,
+    unit_name: h.unitName ?? null,
+    decimals: h.decimals ?? null,
+    amount_base_units: h.amount.toString(),
+    amount: formatBaseUnits(h.amount, h.decimals ?? 0, false),
+    frozen: h.isFrozen ?? false,
+  }))
+}
+
+/** Exports transactions from `address`'s point of view; amounts are signed for incoming/outgoing transfers. */
+export function transactionExportRows(txns: Txn[], address: string): ExportRow[] {
+  return txns.map((t) => {
+    const amount = displayAmount(t, address)
+    const note = t.raw.note && t.raw.note.length > 0 ? decodeNote(t.raw.note) : undefined
+    return {
+      id: t.id,
+      round: t.round ?? null,
+      timestamp: t.timestamp ? new Date(t.timestamp * 1000).toISOString() : null,
+      type: t.raw.txType ?? t.type,
+      direction: t.direction,
+      sender: t.sender,
+      counterparty: t.counterparty ?? null,
+      asset_id: t.assetId ?? (t.type === 'ALGO' ? 0 : null),
+      amount_base_units: amount?.toString() ?? null,
+      amount: amount == null ? null : formatBaseUnits(amount, t.decimals ?? 0, false),
+      fee_microalgo: t.fee.toString(),
+      fee_paid: t.sender === address,
+      note: note ? (note.text ?? note.base64) : null,
+    }
+  })
+}
+
+/** Triggers a browser download of `content`. */
+export function downloadFile(filename: string, content: string, format: ExportFormat): void {
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/** e.g. `holdings-ABCD1234-2024-05-01.csv` */
+export function exportFilename(kind: string, address: string, format: ExportFormat): string {
+  return `${kind}-${address.slice(0, 8)}-${new Date().toISOString().slice(0, 10)}.${format}`
+}
@@ -0,0 +1,49 @@
+import { minBalanceBreakdown, MinBalanceUsage, spendableBalance } from './minBalance'
+
+const usage = (fields: Partial<MinBalanceUsage> = {}): MinBalanceUsage => ({
+  totalAssetsOptedIn: 0,
+  totalAppsOptedIn: 0,
+  totalCreatedApps: 0,
+  appsTotalExtraPages: 0,
+  appsTotalSchema: { numUint: 0, numByteSlice: 0 },
+  totalBoxes: 0,
+  totalBoxBytes: 0,
+  ...fields,
+})
+
+const total = (items: { amount: bigint }[]) => items.reduce((sum, item) => sum + item.amount, 0n)
+
+describe('minBalanceBreakdown', () => {
+  it('should only require the base amount for an empty account', () => {
+    expect(total(minBalanceBreakdown(usage()))).toBe(100_000n)
+  })
+
+  it('should add assets, apps, schema entries and boxes', () => {
+    const items = minBalanceBreakdown(
+      usage({
+        totalAssetsOptedIn: 2,
+        totalAppsOptedIn: 1,
+        totalCreatedApps: 1,
+        appsTotalExtraPages: 1,
+        appsTotalSchema: { numUint: 2, numByteSlice: 1 },
+        totalBoxes: 1,
+        totalBoxBytes: 100,
+      }),
+    )
+    // 0.1 base + 0.2 assets + 0.3 apps/pages + 0.107 schema + 0.0425 boxes
+    expect(total(items)).toBe(749_500n)
+  })
+
+  it('should list any difference to the reported minimum as other', () => {
+    const items = minBalanceBreakdown(usage(), 150_000n)
+    expect(items[items.length - 1]).toMatchObject({ label: 'Other', amount: 50_000n })
+    expect(total(items)).toBe(150_000n)
+  })
+})
+
+describe('spendableBalance', () => {
+  it('should never be negative', () => {
+    expect(spendableBalance(300_000n, 100_000n)).toBe(200_000n)
+    expect(spendableBalance(50_000n, 100_000n)).toBe(0n)
+  })
+})
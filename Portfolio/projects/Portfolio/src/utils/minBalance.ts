@@ -0,0 +1,79 @@
+/** Minimum balance every account must keep, in microAlgo. */
+export const BASE_MIN_BALANCE = 100_000n
+
+/** Minimum balance increase for each ASA the account is opted in to (or created), in microAlgo. */
+export const ASSET_MIN_BALANCE = 100_000n
+
+/** Minimum fee of a single transaction, in microAlgo. */
+export const MIN_TXN_FEE = 1_000n
+
+/** Minimum balance increase per app opted in to or created, and per extra program page, in microAlgo. */
+export const APP_MIN_BALANCE = 100_000n
+/** Per key-value entry of an app's state schema (25_000 flat plus 3_500 for a uint or 25_000 for a byte slice). */
+export const SCHEMA_UINT_MIN_BALANCE = 28_500n
+export const SCHEMA_BYTES_MIN_BALANCE = 50_000n
+/** Boxes cost a flat amount per box plus an amount per byte of name and value. */
+export const BOX_FLAT_MIN_BALANCE = 2_500n
+export const BOX_BYTE_MIN_BALANCE = 400n
+
+/** Account counters that drive the minimum balance requirement. */
+export interface MinBalanceUsage {
+  totalAssetsOptedIn: number
+  totalAppsOptedIn: number
+  totalCreatedApps: number
+  appsTotalExtraPages: number
+  /** Local plus global schema entries across all apps the account created or opted in to */
+  appsTotalSchema: { numUint: number; numByteSlice: number }
+  totalBoxes: number
+  totalBoxBytes: number
+}
+
+export interface MinBalanceItem {
+  label: string
+  detail: string
+  amount: bigint
+}
+
+/**
+ * Itemises the minimum balance requirement. When the node reports a different total (e.g. after a protocol change),
+ * the difference is listed as "Other" so the items always add up to `reportedMinBalance`.
+ */
+export function minBalanceBreakdown(usage: MinBalanceUsage, reportedMinBalance?: bigint): MinBalanceItem[] {
+  const apps = usage.totalAppsOptedIn + usage.totalCreatedApps
+  const items: MinBalanceItem[] = [
+    { label: 'Base', detail: 'Required for every account', amount: BASE_MIN_BALANCE },
+    {
+      label: 'Assets',
+      detail: `${usage.totalAssetsOptedIn} ASA opt-in${usage.totalAssetsOptedIn === 1 ? '' : 's'}`,
+      amount: ASSET_MIN_BALANCE * BigInt(usage.totalAssetsOptedIn),
+    },
+    {
+      label: 'Apps',
+      detail: `${usage.totalAppsOptedIn} opted in, ${usage.totalCreatedApps} created, ${usage.appsTotalExtraPages} extra pages`,
+      amount: APP_MIN_BALANCE * BigInt(apps + usage.appsTotalExtraPages),
+    },
+    {
+      label: 'App state',
+      detail: `${usage.appsTotalSchema.numUint} uints, ${usage.appsTotalSchema.numByteSlice} byte slices`,
+      amount:
+        SCHEMA_UINT_MIN_BALANCE * BigInt(usage.appsTotalSchema.numUint) +
+        SCHEMA_BYTES_MIN_BALANCE * BigInt(usage.appsTotalSchema.numByteSlice),
+    },
+    {
+      label: 'Boxes',
+      detail: `${usage.totalBoxes} boxes, ${usage.totalBoxBytes} bytes`,
+      amount: BOX_FLAT_MIN_BALANCE * BigInt(usage.totalBoxes) + BOX_BYTE_MIN_BALANCE * BigInt(usage.totalBoxBytes),
+    },
+  ]
+
+  const computed = items.reduce((sum, item) => sum + item.amount, 0n)
+  if (reportedMinBalance != null && reportedMinBalance !== computed) {
+    items.push({ label: 'Other', detail: 'Difference to the minimum reported by the node', amount: reportedMinBalance - computed })
+  }
+  return items
+}
+
+/** ALGO that can leave the account without dropping below its minimum balance, in microAlgo. */
+export function spendableBalance(amount: bigint, minBalance: bigint): bigint {
+  return amount > minBalance ? amount - minBalance : 0n
+}
@@ -1,4 +1,4 @@
-import { AlgoViteClientConfig, AlgoViteKMDConfig } from '../../interfaces/network'
+import { AlgoViteClientConfig, AlgoViteKMDConfig, NetworkPreset } from '../../interfaces/network'
 
 export function getAlgodConfigFromViteEnvironment(): AlgoViteClientConfig {
   if (!import.meta.env.VITE_ALGOD_SERVER) {
@@ -39,3 +39,20 @@ export function getKmdConfigFromViteEnvironment(): AlgoViteKMDConfig {
     password: import.meta.env.VITE_KMD_PASSWORD,
   }
 }
+
+export function getNetworkPresetFromViteEnvironment(): NetworkPreset | null {
+  if (!import.meta.env.VITE_ALGOD_SERVER || !import.meta.env.VITE_INDEXER_SERVER) {
+    return null
+  }
+
+  const algod = getAlgodConfigFromViteEnvironment()
+  const id = algod.network === '' ? 'localnet' : algod.network.toLowerCase()
+
+  return {
+    id,
+    label: id,
+    algod: { ...algod, network: id },
+    indexer: { ...getIndexerConfigFromViteEnvironment(), network: id },
+    kmd: import.meta.env.VITE_KMD_SERVER ? getKmdConfigFromViteEnvironment() : undefined,
+  }
+}
@@ -0,0 +1,40 @@
+import { NetworkPreset } from '../../interfaces/network'
+import { customNetworkId, DEFAULT_NETWORK_PRESETS, getNetworkName, mergeNetworkPresets, withEnvironmentPreset } from './networkPresets'
+
+const preset = (id: string, network = id): NetworkPreset => ({
+  id,
+  label: id,
+  algod: { server: `https://${id}-algod`, port: '', token: '', network },
+  indexer: { server: `https://${id}-idx`, port: '', token: '', network },
+})
+
+describe('networkPresets', () => {
+  it('should let the environment override its matching built-in preset and keep the label', () => {
+    const result = withEnvironmentPreset(preset('testnet'))
+    const testnet = result.find((p) => p.id === 'testnet')
+    expect(result).toHaveLength(DEFAULT_NETWORK_PRESETS.length)
+    expect(testnet?.algod.server).toBe('https://testnet-algod')
+    expect(testnet?.label).toBe('TestNet')
+  })
+
+  it('should append an unknown environment network', () => {
+    const result = withEnvironmentPreset(preset('betanet'))
+    expect(result.map((p) => p.id)).toEqual(['localnet', 'testnet', 'mainnet', 'betanet'])
+  })
+
+  it('should not let custom presets shadow built-in ids', () => {
+    const result = mergeNetworkPresets(DEFAULT_NETWORK_PRESETS, [preset('mainnet'), preset('custom-node')])
+    expect(result.filter((p) => p.id === 'mainnet')).toHaveLength(1)
+    expect(result[result.length - 1].id).toBe('custom-node')
+  })
+
+  it('should treat an empty network type as localnet', () => {
+    expect(getNetworkName(preset('x', ''))).toBe('localnet')
+    expect(getNetworkName(preset('x', 'TestNet'))).toBe('testnet')
+  })
+
+  it('should derive a slug id for custom networks', () => {
+    expect(customNetworkId('  My Node #2 ')).toBe('custom-my-node-2')
+    expect(customNetworkId('!!!')).toBe('custom-network')
+  })
+})
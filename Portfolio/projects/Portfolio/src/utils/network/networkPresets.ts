@@ -0,0 +1,74 @@
+import { NetworkPreset } from '../../interfaces/network'
+import { readJson, storageKey, writeJson } from '../storage'
+
+const LOCALNET_TOKEN = 'a'.repeat(64)
+
+export const DEFAULT_NETWORK_PRESETS: NetworkPreset[] = [
+  {
+    id: 'localnet',
+    label: 'LocalNet',
+    algod: { server: 'http://localhost', port: 4001, token: LOCALNET_TOKEN, network: 'localnet' },
+    indexer: { server: 'http://localhost', port: 8980, token: LOCALNET_TOKEN, network: 'localnet' },
+    kmd: { server: 'http://localhost', port: 4002, token: LOCALNET_TOKEN, wallet: 'unencrypted-default-wallet', password: '' },
+  },
+  {
+    id: 'testnet',
+    label: 'TestNet',
+    algod: { server: 'https://testnet-api.algonode.cloud', port: '', token: '', network: 'testnet' },
+    indexer: { server: 'https://testnet-idx.algonode.cloud', port: '', token: '', network: 'testnet' },
+  },
+  {
+    id: 'mainnet',
+    label: 'MainNet',
+    algod: { server: 'https://mainnet-api.algonode.cloud', port: '', token: '', network: 'mainnet' },
+    indexer: { server: 'https://mainnet-idx.algonode.cloud', port: '', token: '', network: 'mainnet' },
+  },
+]
+
+const SELECTED_NETWORK_KEY = storageKey('network', 'selected')
+const CUSTOM_NETWORKS_KEY = storageKey('network', 'custom')
+
+/** Normalises the Algorand network type of a preset, treating an empty value as LocalNet. */
+export function getNetworkName(preset: NetworkPreset): string {
+  return preset.algod.network === '' ? 'localnet' : preset.algod.network.toLowerCase()
+}
+
+/** Returns the built-in presets, letting the build-time environment override (or extend) its matching preset. */
+export function withEnvironmentPreset(envPreset: NetworkPreset | null): NetworkPreset[] {
+  const builtIn = DEFAULT_NETWORK_PRESETS.map((preset) =>
+    envPreset && envPreset.id === preset.id ? { ...envPreset, label: preset.label } : preset,
+  )
+  if (envPreset && !builtIn.some((p) => p.id === envPreset.id)) builtIn.push(envPreset)
+  return builtIn
+}
+
+/** Appends user-defined presets to the built-in ones, ignoring any that would shadow a built-in id. */
+export function mergeNetworkPresets(builtIn: NetworkPreset[], custom: NetworkPreset[]): NetworkPreset[] {
+  return [...builtIn, ...custom.filter((c) => !builtIn.some((p) => p.id === c.id))]
+}
+
+export function loadCustomNetworks(): NetworkPreset[] {
+  return readJson<NetworkPreset[]>(CUSTOM_NETWORKS_KEY, []).map((preset) => ({ ...preset, custom: true }))
+}
+
+export function saveCustomNetworks(presets: NetworkPreset[]): void {
+  writeJson(CUSTOM_NETWORKS_KEY, presets)
+}
+
+export function loadSelectedNetworkId(): string | null {
+  return readJson<string | null>(SELECTED_NETWORK_KEY, null)
+}
+
+export function saveSelectedNetworkId(id: string): void {
+  writeJson(SELECTED_NETWORK_KEY, id)
+}
+
+/** Derives a stable, URL-safe id for a custom network from its label. */
+export function customNetworkId(label: string): string {
+  const slug = label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `custom-${slug || 'network'}`
+}
@@ -0,0 +1,66 @@
+import algosdk from 'algosdk'
+import { arc19Url, displayProperties, gatewayUrl, isNft, parseArc3Metadata, parseArc69Note } from './nft'
+
+const reserve = algosdk.encodeAddress(new Uint8Array(32).fill(7))
+
+describe('isNft', () => {
+  it('should accept single-unit assets and fractional ARC-3 assets', () => {
+    expect(isNft({ total: 1n, decimals: 0 })).toBe(true)
+    expect(isNft({ total: 100n, decimals: 2, url: 'ipfs://cid#arc3' })).toBe(true)
+    expect(isNft({ total: 100n, decimals: 2, name: 'Plain' })).toBe(false)
+    expect(isNft({ total: 1_000_000n, decimals: 0 })).toBe(false)
+  })
+})
+
+describe('arc19Url', () => {
+  it('should build CIDs from the reserve address', () => {
+    const v1 = arc19Url('template-ipfs://{ipfscid:1:raw:reserve:sha2-256}#arc3', reserve)
+    expect(v1).toMatch(/^ipfs:\/\/bafkrei[a-z2-7]{52}#arc3$/)
+    expect(arc19Url('template-ipfs://{ipfscid:1:dag-pb:reserve:sha2-256}/meta.json', reserve)).toMatch(
+      /^ipfs:\/\/bafybei[a-z2-7]{52}\/meta\.json$/,
+    )
+    expect(arc19Url('template-ipfs://{ipfscid:0:dag-pb:reserve:sha2-256}', reserve)).toMatch(/^ipfs:\/\/Qm[1-9A-HJ-NP-Za-km-z]{44}$/)
+  })
+
+  it('should ignore URLs that are not templates', () => {
+    expect(arc19Url('ipfs://cid', reserve)).toBeUndefined()
+    expect(arc19Url('template-ipfs://{ipfscid:1:raw:reserve:sha2-256}', undefined)).toBeUndefined()
+  })
+})
+
+describe('parseArc3Metadata', () => {
+  it('should resolve relative and IPFS image links', () => {
+    expect(parseArc3Metadata({ name: 'N', image: 'img.png' }, 'https://gw/ipfs/cid/meta.json', 'https://gw/ipfs/').image).toBe(
+      'https://gw/ipfs/cid/img.png',
+    )
+    expect(parseArc3Metadata({ image: 'ipfs://other#i', properties: { level: 3 } }, 'https://x/m.json', 'https://gw/ipfs/')).toEqual({
+      name: undefined,
+      description: undefined,
+      image: 'https://gw/ipfs/other',
+      properties: { level: '3' },
+    })
+  })
+})
+
+describe('parseArc69Note', () => {
+  const note = (value: unknown) => new TextEncoder().encode(JSON.stringify(value))
+
+  it('should read ARC-69 notes and ignore other JSON', () => {
+    expect(parseArc69Note(note({ standard: 'arc69', description: 'D', attributes: [{ trait_type: 'Hat', value: 'Red' }] }))).toEqual({
+      description: 'D',
+      properties: { Hat: 'Red' },
+    })
+    expect(parseArc69Note(note({ standard: 'other' }))).toBeUndefined()
+    expect(parseArc69Note(undefined)).toBeUndefined()
+  })
+})
+
+describe('gatewayUrl / displayProperties', () => {
+  it('should leave HTTP URLs alone apart from ARC fragments', () => {
+    expect(gatewayUrl('https://host/a.png#i')).toBe('https://host/a.png')
+  })
+
+  it('should serialise nested property values', () => {
+    expect(displayProperties({ a: 'x', b: { c: 1 } })).toEqual({ a: 'x', b: '{"c":1}' })
+  })
+})
@@ -0,0 +1,135 @@
+import algosdk from 'algosdk'
+import { AssetDetails } from '../interfaces/portfolio'
+import { decodeNote } from './note'
+
+export type NftStandard = 'arc3' | 'arc19' | 'arc69'
+
+export interface NftMetadata {
+  /** Conventions the asset follows, e.g. ['arc19', 'arc3'] */
+  standards: NftStandard[]
+  name?: string
+  description?: string
+  /** HTTP(S) URL of the image, with IPFS links rewritten to the gateway */
+  image?: string
+  /** Traits and other properties, flattened to display strings */
+  properties: Record<string, string>
+  /** Why the metadata lookup failed; the other fields then only hold what the asset params provide */
+  error?: string
+}
+
+export const DEFAULT_IPFS_GATEWAY = 'https://ipfs.io/ipfs/'
+
+/** ARC-3 assets mark themselves through the URL fragment or the name suffix. */
+export function isArc3(asset: Pick<AssetDetails, 'name' | 'url'>): boolean {
+  return !!asset.url?.endsWith('#arc3') || asset.name === 'arc3' || !!asset.name?.endsWith('@arc3')
+}
+
+/** Pure NFTs have a single indivisible unit; fractional ARC-3 NFTs split exactly one whole unit into decimals. */
+export function isNft(asset: Pick<AssetDetails, 'name' | 'url' | 'total' | 'decimals'>): boolean {
+  if (asset.total === 1n && asset.decimals === 0) return true
+  return asset.decimals > 0 && asset.total === 10n ** BigInt(asset.decimals) && isArc3(asset)
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+function base32(bytes: Uint8Array): string {
+  let out = ''
+  let buffer = 0
+  let bits = 0
+  bytes.forEach((byte) => {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31]
+      bits -= 5
+    }
+  })
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return out
+}
+
+function base58(bytes: Uint8Array): string {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex')}`)
+  let out = ''
+  while (value > 0n) {
+    out = BASE58_ALPHABET[Number(value % 58n)] + out
+    value /= 58n
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break
+    out = `1${out}`
+  }
+  return out
+}
+
+/** Multicodec codes ARC-19 templates may name */
+const CID_CODECS: Record<string, number> = { raw: 0x55, 'dag-pb': 0x70 }
+const SHA2_256 = [0x12, 0x20]
+const ARC19_TEMPLATE = /^template-ipfs:\/\/\{ipfscid:([01]):([a-z-]+):reserve:sha2-256\}(.*)$/
+
+/**
+ * Resolves an ARC-19 `template-ipfs://{ipfscid:...}` URL, where the reserve address holds the content hash,
+ * into an `ipfs://` URL. Returns undefined for URLs that are not ARC-19 templates.
+ */
+export function arc19Url(url: string | undefined, reserve: string | undefined): string | undefined {
+  const match = url?.match(ARC19_TEMPLATE)
+  if (!match || !reserve) return undefined
+  const [, version, codec, rest] = match
+  const digest = algosdk.decodeAddress(reserve).publicKey
+
+  if (version === '0') return `ipfs://${base58(new Uint8Array([...SHA2_256, ...digest]))}${rest}`
+  if (CID_CODECS[codec] == null) return undefined
+  return `ipfs://b${base32(new Uint8Array([1, CID_CODECS[codec], ...SHA2_256, ...digest]))}${rest}`
+}
+
+/** Rewrites `ipfs://` URLs to an HTTP gateway and drops ARC fragments such as `#arc3` or `#i`. */
+export function gatewayUrl(url: string, gateway = DEFAULT_IPFS_GATEWAY): string {
+  const withoutFragment = url.replace(/#(arc3|[iv])$/, '')
+  return withoutFragment.startsWith('ipfs://') ? `${gateway}${withoutFragment.slice('ipfs://'.length)}` : withoutFragment
+}
+
+/** Turns a traits object (or a `[{ trait_type, value }]` list) into display strings, serialising nested values. */
+export function displayProperties(value: unknown): Record<string, string> {
+  if (Array.isArray(value)) {
+    return displayProperties(
+      Object.fromEntries(
+        value
+          .filter((t): t is { trait_type: string; value: unknown } => typeof t?.trait_type === 'string')
+          .map((t) => [t.trait_type, t.value]),
+      ),
+    )
+  }
+  if (!value || typeof value !== 'object') return {}
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, v]) => [key, typeof v === 'string' ? v : JSON.stringify(v)]),
+  )
+}
+
+/**
+ * Reads ARC-3 JSON metadata. Relative image links are resolved against the metadata URL, as the standard
+ * requires; `image_url` is not standard but common.
+ */
+export function parseArc3Metadata(json: unknown, metadataUrl: string, gateway = DEFAULT_IPFS_GATEWAY): Omit<NftMetadata, 'standards'> {
+  const doc = (json && typeof json === 'object' ? json : {}) as Record<string, unknown>
+  const text = (key: string) => (typeof doc[key] === 'string' ? (doc[key] as string) : undefined)
+  const image = text('image') ?? text('image_url')
+
+  let resolvedImage: string | undefined
+  if (image) {
+    const absolute = /^[a-z]+:/i.test(image) ? image : new URL(image, gatewayUrl(metadataUrl, gateway)).toString()
+    resolvedImage = gatewayUrl(absolute, gateway)
+  }
+  return { name: text('name'), description: text('description'), image: resolvedImage, properties: displayProperties(doc.properties) }
+}
+
+/** Reads ARC-69 metadata from an acfg note; undefined when the note is not ARC-69 JSON. */
+export function parseArc69Note(note: Uint8Array | undefined): Omit<NftMetadata, 'standards' | 'image'> | undefined {
+  if (!note?.length) return undefined
+  const doc = decodeNote(note).json as Record<string, unknown> | undefined
+  if (!doc || typeof doc !== 'object' || doc.standard !== 'arc69') return undefined
+  return {
+    description: typeof doc.description === 'string' ? doc.description : undefined,
+    properties: displayProperties(doc.properties ?? doc.attributes),
+  }
+}
@@ -0,0 +1,102 @@
+import { validateAsaConfig } from './asaParams'
+import {
+  arc3AssetUrl,
+  arc69AssetUrl,
+  buildArc3Metadata,
+  buildArc69Metadata,
+  EMPTY_NFT_FORM,
+  integrity,
+  nftAsaConfig,
+  sha256,
+  validateNftMint,
+} from './nftMint'
+
+const form = { ...EMPTY_NFT_FORM, name: 'Sunset #1', unitName: 'SUN', imageUrl: 'ipfs://image-cid' }
+
+describe('validateNftMint', () => {
+  it('should accept a complete form', () => {
+    expect(validateNftMint(form, false)).toEqual({})
+    expect(validateNftMint({ ...form, imageUrl: '' }, true)).toEqual({})
+  })
+
+  it('should flag missing media, fractional ARC-69 and duplicate properties', () => {
+    const errors = validateNftMint(
+      {
+        ...form,
+        standard: 'arc69',
+        imageUrl: 'ftp://host/img.png',
+        decimals: '2',
+        properties: [
+          { key: 'bg', value: 'red' },
+          { key: 'bg', value: 'blue' },
+        ],
+      },
+      false,
+    )
+    expect(Object.keys(errors).sort()).toEqual(['decimals', 'imageUrl', 'properties'])
+    expect(validateNftMint({ ...form, decimals: '2' }, false).decimals).toBeUndefined()
+  })
+})
+
+describe('nftAsaConfig', () => {
+  const roles = {
+    assetName: '',
+    unitName: '',
+    total: '',
+    decimals: '0',
+    url: 'https://old',
+    metadataHash: '',
+    defaultFrozen: false,
+    manager: '',
+    reserve: '',
+    freeze: '',
+    clawback: '',
+    note: 'old',
+  }
+
+  it('should create 10^decimals base units for a fractional ARC-3 NFT', () => {
+    const { fields } = validateAsaConfig(nftAsaConfig({ ...form, decimals: '2' }, roles))
+    expect(fields).toMatchObject({ total: 100n, decimals: 2, assetName: 'Sunset #1', unitName: 'SUN', url: undefined, note: undefined })
+  })
+
+  it('should create a single unit without decimals', () => {
+    const { fields } = validateAsaConfig(nftAsaConfig(form, roles))
+    expect(fields).toMatchObject({ total: 1n, decimals: 0 })
+  })
+})
+
+describe('metadata builders', () => {
+  it('should leave out empty fields', () => {
+    const withProps = { ...form, properties: [{ key: ' bg ', value: 'red' }] }
+    expect(buildArc3Metadata(withProps, 'ipfs://image-cid')).toEqual({
+      name: 'Sunset #1',
+      decimals: 0,
+      image: 'ipfs://image-cid',
+      image_mimetype: 'image/png',
+      properties: { bg: 'red' },
+    })
+    expect(buildArc69Metadata({ ...form, description: 'Warm' }, 'ipfs://image-cid')).toEqual({
+      standard: 'arc69',
+      description: 'Warm',
+      media_url: 'ipfs://image-cid',
+      mime_type: 'image/png',
+    })
+  })
+})
+
+describe('asset URLs', () => {
+  it('should apply the ARC-3 and ARC-69 fragments', () => {
+    expect(arc3AssetUrl('ipfs://meta', 'Sunset')).toBe('ipfs://meta#arc3')
+    expect(arc3AssetUrl('ipfs://meta', 'Sunset@arc3')).toBe('ipfs://meta')
+    expect(arc69AssetUrl('ipfs://img', 'image/png')).toBe('ipfs://img#i')
+    expect(arc69AssetUrl('ipfs://vid', 'video/mp4')).toBe('ipfs://vid#v')
+    expect(arc69AssetUrl('ipfs://doc', 'text/plain')).toBe('ipfs://doc')
+  })
+})
+
+describe('integrity', () => {
+  it('should format SHA-256 digests as SRI strings', async () => {
+    const digest = await sha256(new TextEncoder().encode('abc'))
+    expect(integrity(digest)).toBe('sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=')
+  })
+})
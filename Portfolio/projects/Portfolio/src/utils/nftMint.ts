@@ -0,0 +1,134 @@
+import { ASA_LIMITS, AsaConfigForm, utf8Length } from './asaParams'
+import { isArc3 } from './nft'
+
+export type NftMintStandard = 'arc3' | 'arc69'
+
+export interface NftProperty {
+  key: string
+  value: string
+}
+
+export interface NftMintForm {
+  standard: NftMintStandard
+  name: string
+  unitName: string
+  description: string
+  /** Hosted image URL; not needed when an image file is uploaded */
+  imageUrl: string
+  /** MIME type of the image, e.g. image/png */
+  imageMimetype: string
+  externalUrl: string
+  properties: NftProperty[]
+  /** Decimals of a fractional ARC-3 NFT; 0 mints a single indivisible unit */
+  decimals: string
+}
+
+export const EMPTY_NFT_FORM: NftMintForm = {
+  standard: 'arc3',
+  name: '',
+  unitName: '',
+  description: '',
+  imageUrl: '',
+  imageMimetype: 'image/png',
+  externalUrl: '',
+  properties: [],
+  decimals: '0',
+}
+
+/** Validates the NFT form; `hasImageFile` is true when an image will be uploaded instead of linked. */
+export function validateNftMint(form: NftMintForm, hasImageFile: boolean): Partial<Record<keyof NftMintForm, string>> {
+  const errors: Partial<Record<keyof NftMintForm, string>> = {}
+
+  if (!form.name.trim()) errors.name = 'Name is required'
+  else if (utf8Length(form.name) > ASA_LIMITS.assetName) errors.name = `Name is limited to ${ASA_LIMITS.assetName} bytes`
+  if (utf8Length(form.unitName) > ASA_LIMITS.unitName) errors.unitName = `Unit name is limited to ${ASA_LIMITS.unitName} bytes`
+
+  if (!hasImageFile && !form.imageUrl.trim()) errors.imageUrl = 'Link an image or choose a file to upload'
+  else if (!hasImageFile && !/^(https?|ipfs):\/\//.test(form.imageUrl.trim())) errors.imageUrl = 'Use an https:// or ipfs:// URL'
+  if (form.externalUrl.trim() && !/^https?:\/\//.test(form.externalUrl.trim())) errors.externalUrl = 'Use an http(s) URL'
+
+  // ARC-69 has no notion of fractions; ARC-3 fractional NFTs split one unit into 10^decimals
+  const maxDecimals = form.standard === 'arc3' ? ASA_LIMITS.maxDecimals : 0
+  if (!/^\d+$/.test(form.decimals) || Number(form.decimals) > maxDecimals) {
+    errors.decimals = maxDecimals === 0 ? 'ARC-69 NFTs cannot be fractional' : `Decimals must be between 0 and ${maxDecimals}`
+  }
+
+  const keys = form.properties.map((p) => p.key.trim())
+  if (keys.some((k) => !k)) errors.properties = 'Every property needs a name'
+  else if (new Set(keys).size !== keys.length) errors.properties = 'Property names must be unique'
+
+  return errors
+}
+
+/**
+ * ASA create form for the NFT, keeping the roles of `roles`. The supply is one whole unit, which is 10^decimals
+ * base units as ARC-3 requires of fractional NFTs. URL, hash and note come from the metadata prepared at review.
+ */
+export function nftAsaConfig(form: NftMintForm, roles: AsaConfigForm): AsaConfigForm {
+  return {
+    ...roles,
+    assetName: form.name,
+    unitName: form.unitName,
+    total: '1',
+    decimals: form.decimals,
+    url: '',
+    metadataHash: '',
+    note: '',
+  }
+}
+
+function propertiesObject(form: NftMintForm): Record<string, string> | undefined {
+  return form.properties.length > 0 ? Object.fromEntries(form.properties.map((p) => [p.key.trim(), p.value])) : undefined
+}
+
+/** ARC-3 JSON metadata; `imageIntegrity` is only known when the image bytes were uploaded from here. */
+export function buildArc3Metadata(form: NftMintForm, imageUrl: string, imageIntegrity?: string): Record<string, unknown> {
+  return stripEmpty({
+    name: form.name.trim(),
+    decimals: Number(form.decimals),
+    description: form.description.trim(),
+    image: imageUrl,
+    image_integrity: imageIntegrity,
+    image_mimetype: form.imageMimetype,
+    external_url: form.externalUrl.trim(),
+    properties: propertiesObject(form),
+  })
+}
+
+/** ARC-69 metadata, stored as the note of the creation transaction; the asset URL points at the media. */
+export function buildArc69Metadata(form: NftMintForm, mediaUrl: string): Record<string, unknown> {
+  return stripEmpty({
+    standard: 'arc69',
+    description: form.description.trim(),
+    external_url: form.externalUrl.trim(),
+    media_url: mediaUrl,
+    mime_type: form.imageMimetype,
+    properties: propertiesObject(form),
+  })
+}
+
+function stripEmpty(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== ''))
+}
+
+/** ARC-3 asks for a `#arc3` URL suffix unless the asset name already marks the asset as ARC-3. */
+export function arc3AssetUrl(metadataUrl: string, assetName: string): string {
+  return isArc3({ name: assetName }) || metadataUrl.endsWith('#arc3') ? metadataUrl : `${metadataUrl}#arc3`
+}
+
+/** ARC-69 suggests marking the media type in the URL fragment: `#i` for images, `#v` for videos. */
+export function arc69AssetUrl(mediaUrl: string, mimetype: string): string {
+  if (mediaUrl.includes('#')) return mediaUrl
+  if (mimetype.startsWith('image/')) return `${mediaUrl}#i`
+  if (mimetype.startsWith('video/')) return `${mediaUrl}#v`
+  return mediaUrl
+}
+
+export async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(bytes)))
+}
+
+/** Subresource-integrity string, as ARC-3 uses for `image_integrity` */
+export function integrity(digest: Uint8Array): string {
+  return `sha256-${Buffer.from(digest).toString('base64')}`
+}
@@ -0,0 +1,23 @@
+import { decodeNote } from './note'
+
+const bytes = (value: string) => new TextEncoder().encode(value)
+
+describe('decodeNote', () => {
+  it('should decode UTF-8 text', () => {
+    const decoded = decodeNote(bytes('Created with Token Dashboard'))
+    expect(decoded.text).toBe('Created with Token Dashboard')
+    expect(decoded.json).toBeUndefined()
+    expect(decoded.base64).toBe(Buffer.from('Created with Token Dashboard').toString('base64'))
+  })
+
+  it('should parse JSON notes such as ARC-69 metadata', () => {
+    const decoded = decodeNote(bytes('{"standard":"arc69","description":"hi"}'))
+    expect(decoded.json).toEqual({ standard: 'arc69', description: 'hi' })
+  })
+
+  it('should only expose base64 for binary notes', () => {
+    const decoded = decodeNote(new Uint8Array([0x00, 0xff, 0x10, 0x80]))
+    expect(decoded.text).toBeUndefined()
+    expect(decoded.base64).toBe('AP8QgA==')
+  })
+})
@@ -0,0 +1,33 @@
+export interface DecodedNote {
+  /** UTF-8 text, when the note is valid UTF-8 without control characters */
+  text?: string
+  /** Parsed value, when the text is valid JSON (objects and arrays only) */
+  json?: unknown
+  /** Base64 form of the raw bytes, always available */
+  base64: string
+}
+
+/** Decodes a transaction note into the most readable representations available. */
+export function decodeNote(note: Uint8Array): DecodedNote {
+  const decoded: DecodedNote = { base64: Buffer.from(note).toString('base64') }
+
+  let text: string
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(note)
+  } catch {
+    return decoded
+  }
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u0008\u000e-\u001f\u007f]/.test(text)) return decoded
+  decoded.text = text
+
+  const trimmed = text.trim()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      decoded.json = JSON.parse(trimmed)
+    } catch {
+      // Not JSON after all; the plain text is still useful.
+    }
+  }
+  return decoded
+}
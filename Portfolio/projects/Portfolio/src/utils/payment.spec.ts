@@ -0,0 +1,41 @@
+import algosdk from 'algosdk'
+import { CLOSE_CONFIRMATION, EMPTY_PAYMENT_FORM, validatePayment } from './payment'
+
+const sender = algosdk.generateAccount().addr.toString()
+const receiver = algosdk.generateAccount().addr.toString()
+
+describe('validatePayment', () => {
+  it('should convert the amount to microAlgo and encode the note', () => {
+    const { errors, fields } = validatePayment({ ...EMPTY_PAYMENT_FORM, receiver, amount: '1.000001', note: 'hi' }, sender)
+    expect(errors).toEqual({})
+    expect(fields?.amount).toBe(1_000_001n)
+    expect(new TextDecoder().decode(fields?.note)).toBe('hi')
+    expect(fields?.closeRemainderTo).toBeUndefined()
+  })
+
+  it('should reject addresses with a bad checksum', () => {
+    // The last character partly encodes padding bits, so corrupt one in the middle
+    const corrupted = receiver.slice(0, 10) + (receiver[10] === 'A' ? 'B' : 'A') + receiver.slice(11)
+    expect(validatePayment({ ...EMPTY_PAYMENT_FORM, receiver: corrupted, amount: '1' }, sender).errors.receiver).toBeDefined()
+  })
+
+  it('should keep the amount and fee within the spendable balance', () => {
+    const form = { ...EMPTY_PAYMENT_FORM, receiver, amount: '1' }
+    expect(validatePayment(form, sender, 1_001_000n).errors).toEqual({})
+    expect(validatePayment(form, sender, 1_000_999n).errors.amount).toBeDefined()
+  })
+
+  it('should require a typed confirmation to close the account', () => {
+    const form = { ...EMPTY_PAYMENT_FORM, receiver, closeAccount: true, closeRemainderTo: receiver }
+    expect(validatePayment(form, sender, 0n).errors.closeConfirmation).toBeDefined()
+
+    const { errors, fields } = validatePayment({ ...form, closeConfirmation: CLOSE_CONFIRMATION }, sender, 0n)
+    expect(errors).toEqual({})
+    expect(fields).toMatchObject({ amount: 0n, closeRemainderTo: receiver })
+  })
+
+  it('should not allow closing out to the sender', () => {
+    const form = { ...EMPTY_PAYMENT_FORM, receiver, closeAccount: true, closeRemainderTo: sender, closeConfirmation: CLOSE_CONFIRMATION }
+    expect(validatePayment(form, sender).errors.closeRemainderTo).toBeDefined()
+  })
+})
@@ -0,0 +1,81 @@
+import algosdk from 'algosdk'
+import { parseAmountToBaseUnits } from './amounts'
+import { ASA_LIMITS, utf8Length } from './asaParams'
+import { MIN_TXN_FEE } from './minBalance'
+
+/** Text the user must type to confirm closing out their account. */
+export const CLOSE_CONFIRMATION = 'CLOSE'
+
+export interface PaymentForm {
+  receiver: string
+  /** ALGO amount as typed, up to 6 decimal places */
+  amount: string
+  note: string
+  closeAccount: boolean
+  closeRemainderTo: string
+  closeConfirmation: string
+}
+
+export const EMPTY_PAYMENT_FORM: PaymentForm = {
+  receiver: '',
+  amount: '',
+  note: '',
+  closeAccount: false,
+  closeRemainderTo: '',
+  closeConfirmation: '',
+}
+
+export interface PaymentFields {
+  receiver: string
+  /** microAlgo */
+  amount: bigint
+  note?: Uint8Array
+  closeRemainderTo?: string
+}
+
+/**
+ * Validates the payment form for `sender`. `spendable` (microAlgo above the minimum balance) is checked against the
+ * amount plus the minimum fee, except when closing the account, which releases the minimum balance.
+ */
+export function validatePayment(
+  form: PaymentForm,
+  sender: string,
+  spendable?: bigint,
+): { errors: Partial<Record<keyof PaymentForm, string>>; fields?: PaymentFields } {
+  const errors: Partial<Record<keyof PaymentForm, string>> = {}
+
+  const receiver = form.receiver.trim()
+  if (!algosdk.isValidAddress(receiver)) errors.receiver = 'Not a valid Algorand address'
+
+  let amount = 0n
+  try {
+    amount = form.amount.trim() === '' && form.closeAccount ? 0n : parseAmountToBaseUnits(form.amount, 6)
+    if (amount <= 0n && !form.closeAccount) errors.amount = 'Amount must be greater than zero'
+    else if (!form.closeAccount && spendable != null && amount + MIN_TXN_FEE > spendable) {
+      errors.amount = 'Amount plus fee exceeds your spendable balance'
+    }
+  } catch (e) {
+    errors.amount = (e as Error).message
+  }
+
+  if (utf8Length(form.note) > ASA_LIMITS.note) errors.note = `Note is limited to ${ASA_LIMITS.note} bytes`
+
+  const closeRemainderTo = form.closeRemainderTo.trim()
+  if (form.closeAccount) {
+    if (!algosdk.isValidAddress(closeRemainderTo)) errors.closeRemainderTo = 'Not a valid Algorand address'
+    else if (closeRemainderTo === sender) errors.closeRemainderTo = 'The account cannot close out to itself'
+    if (form.closeConfirmation !== CLOSE_CONFIRMATION) errors.closeConfirmation = `Type ${CLOSE_CONFIRMATION} to confirm`
+  }
+
+  if (Object.keys(errors).length > 0) return { errors }
+
+  return {
+    errors,
+    fields: {
+      receiver,
+      amount,
+      note: form.note ? new TextEncoder().encode(form.note) : undefined,
+      closeRemainderTo: form.closeAccount ? closeRemainderTo : undefined,
+    },
+  }
+}
@@ -0,0 +1,64 @@
+import algosdk from 'algosdk'
+import { isOverlayRoute, parseRoute, Route, routeHref } from './routes'
+
+const ADDR = algosdk.encodeAddress(new Uint8Array(32).fill(1))
+const TX_ID = 'A'.repeat(52)
+
+describe('parseRoute', () => {
+  it('should read pages and their ids', () => {
+    expect(parseRoute('/')).toEqual({ name: 'dashboard' })
+    expect(parseRoute(`/account/${ADDR}`)).toEqual({ name: 'account', address: ADDR })
+    expect(parseRoute('/asset/123/')).toEqual({ name: 'asset', assetId: 123 })
+    expect(parseRoute(`/tx/${TX_ID}`)).toEqual({ name: 'transaction', txId: TX_ID })
+  })
+
+  it('should treat malformed ids and unknown paths as not found', () => {
+    expect(parseRoute('/account/not-an-address')).toEqual({ name: 'not-found', path: '/account/not-an-address' })
+    expect(parseRoute('/asset/abc').name).toBe('not-found')
+    expect(parseRoute('/tx/short').name).toBe('not-found')
+    expect(parseRoute('/asset/1/extra').name).toBe('not-found')
+    expect(parseRoute('/settings').name).toBe('not-found')
+  })
+
+  it('should fall back to the dashboard for malformed percent-escapes', () => {
+    expect(parseRoute('/account/%E0%A4%A')).toEqual({ name: 'dashboard' })
+    expect(parseRoute('/asset/%')).toEqual({ name: 'dashboard' })
+  })
+
+  it('should read prefilled fields from the query string', () => {
+    expect(parseRoute('/send', `?asset=123&to=${ADDR}&amount=1.5`)).toEqual({
+      name: 'send',
+      prefill: { asset: 123, to: ADDR, amount: '1.5' },
+    })
+    expect(parseRoute('/send', '?asset=abc&amount=')).toEqual({ name: 'send', prefill: {} })
+    expect(parseRoute('/pay', '?asset=5&amount=2&note=rent')).toEqual({ name: 'pay', prefill: { amount: '2', note: 'rent' } })
+    expect(parseRoute('/create', '?kind=nft&name=Sunset%20%231&kind2=x')).toEqual({
+      name: 'create',
+      prefill: { kind: 'nft', name: 'Sunset #1' },
+    })
+  })
+})
+
+describe('routeHref', () => {
+  it('should round-trip through parseRoute', () => {
+    const routes: Route[] = [
+      { name: 'dashboard' },
+      { name: 'account', address: ADDR },
+      { name: 'asset', assetId: 7 },
+      { name: 'transaction', txId: TX_ID },
+      { name: 'send', prefill: { asset: 123, to: ADDR, amount: '1.5' } },
+      { name: 'create', prefill: { kind: 'token', name: 'Dash & Co', total: '1000' } },
+    ]
+    routes.forEach((route) => {
+      const [path, search] = routeHref(route).split('?')
+      expect(parseRoute(path, search ? `?${search}` : '')).toEqual(route)
+    })
+    expect(routeHref({ name: 'send', prefill: { asset: 123, to: ADDR, amount: '1.5' } })).toBe(`/send?asset=123&to=${ADDR}&amount=1.5`)
+  })
+
+  it('should leave empty prefills out of the URL', () => {
+    expect(routeHref({ name: 'pay', prefill: { to: '', amount: undefined } })).toBe('/pay')
+    expect(isOverlayRoute({ name: 'pay', prefill: {} })).toBe(true)
+    expect(isOverlayRoute({ name: 'asset', assetId: 1 })).toBe(false)
+  })
+})
@@ -0,0 +1,127 @@
+import algosdk from 'algosdk'
+
+/** Fields a shared send link fills in; the modal validates them like typed input. */
+export interface TransferPrefill {
+  /** ASA id; ALGO payments use the `pay` route instead */
+  asset?: number
+  to?: string
+  amount?: string
+  note?: string
+}
+
+export interface CreatePrefill {
+  kind?: 'token' | 'nft'
+  name?: string
+  unit?: string
+  total?: string
+  decimals?: string
+}
+
+export type Route =
+  | { name: 'dashboard' }
+  | { name: 'account'; address: string }
+  | { name: 'asset'; assetId: number }
+  | { name: 'transaction'; txId: string }
+  | { name: 'send'; prefill: TransferPrefill }
+  | { name: 'pay'; prefill: TransferPrefill }
+  | { name: 'create'; prefill: CreatePrefill }
+  | { name: 'not-found'; path: string }
+
+export type RouteName = Route['name']
+
+/** Routes shown as a modal or drawer over the page they were opened from */
+export const OVERLAY_ROUTES: RouteName[] = ['transaction', 'send', 'pay', 'create']
+
+export function isOverlayRoute(route: Route): boolean {
+  return OVERLAY_ROUTES.includes(route.name)
+}
+
+const TX_ID = /^[A-Z2-7]{52}$/
+
+/**
+ * Reads a route from `location.pathname` and `location.search`; malformed ids give the not-found route and
+ * undecodable percent-escapes the dashboard, so a mangled shared link cannot break the app.
+ */
+export function parseRoute(pathname: string, search = ''): Route {
+  let segments: string[]
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return { name: 'dashboard' }
+  }
+  const query = new URLSearchParams(search)
+  const param = (key: string) => query.get(key)?.trim() || undefined
+  const notFound: Route = { name: 'not-found', path: pathname }
+
+  const [page, id, ...rest] = segments
+  if (rest.length > 0) return notFound
+  if (!page) return { name: 'dashboard' }
+
+  switch (page) {
+    case 'account':
+      return id && algosdk.isValidAddress(id) ? { name: 'account', address: id } : notFound
+    case 'asset':
+      return id && /^\d+$/.test(id) ? { name: 'asset', assetId: Number(id) } : notFound
+    case 'tx':
+      return id && TX_ID.test(id) ? { name: 'transaction', txId: id } : notFound
+    case 'send':
+    case 'pay': {
+      if (id) return notFound
+      const asset = param('asset')
+      const prefill = stripUndefined<TransferPrefill>({
+        asset: asset && /^\d+$/.test(asset) && page === 'send' ? Number(asset) : undefined,
+        to: param('to'),
+        amount: param('amount'),
+        note: param('note'),
+      })
+      return { name: page, prefill }
+    }
+    case 'create': {
+      if (id) return notFound
+      const kind = param('kind')
+      const prefill = stripUndefined<CreatePrefill>({
+        kind: kind === 'token' || kind === 'nft' ? kind : undefined,
+        name: param('name'),
+        unit: param('unit'),
+        total: param('total'),
+        decimals: param('decimals'),
+      })
+      return { name: 'create', prefill }
+    }
+    default:
+      return notFound
+  }
+}
+
+/** Path and query string of a route, e.g. `/send?asset=123&to=ADDR&amount=1.5` */
+export function routeHref(route: Route): string {
+  switch (route.name) {
+    case 'dashboard':
+      return '/'
+    case 'account':
+      return `/account/${route.address}`
+    case 'asset':
+      return `/asset/${route.assetId}`
+    case 'transaction':
+      return `/tx/${route.txId}`
+    case 'send':
+    case 'pay':
+    case 'create':
+      return withQuery(`/${route.name}`, route.prefill)
+    case 'not-found':
+      return route.path
+  }
+}
+
+function withQuery(path: string, params: object): string {
+  const query = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value))
+  })
+  const search = query.toString()
+  return search ? `${path}?${search}` : path
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T
+}
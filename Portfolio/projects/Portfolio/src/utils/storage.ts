@@ -0,0 +1,29 @@
+const STORAGE_PREFIX = 'portfolio-dashboard'
+
+export function storageKey(...parts: string[]): string {
+  return [STORAGE_PREFIX, ...parts].join(':')
+}
+
+export function readJson<T>(key: string, fallback: T): T {
+  if (typeof localStorage === 'undefined') return fallback
+  try {
+    const raw = localStorage.getItem(key)
+    return raw == null ? fallback : (JSON.parse(raw) as T)
+  } catch {
+    return fallback
+  }
+}
+
+export function writeJson<T>(key: string, value: T): void {
+  if (typeof localStorage === 'undefined') return
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch {
+    // Storage may be full or disabled (private mode); persistence is best effort.
+  }
+}
+
+export function removeKey(key: string): void {
+  if (typeof localStorage === 'undefined') return
+  localStorage.removeItem(key)
+}
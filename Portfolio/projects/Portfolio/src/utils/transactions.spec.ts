@@ -0,0 +1,70 @@
+import type { indexerModels } from 'algosdk'
+import { accountDeltas, toTxn } from './transactions'
+
+const ME = 'ME'
+const ALICE = 'ALICE'
+const BOB = 'BOB'
+
+// Tests only need the fields the helpers read, so plain objects stand in for indexer models.
+const txn = (fields: Partial<indexerModels.Transaction>) => ({ sender: ME, fee: 1000n, ...fields }) as indexerModels.Transaction
+
+const noDecimals = () => undefined
+
+describe('toTxn', () => {
+  it('should mark payments sent by the account as outgoing to the receiver', () => {
+    const t = toTxn(txn({ id: 'A', paymentTransaction: { amount: 5_000_000n, receiver: ALICE } as never }), 0, ME, noDecimals)
+    expect(t.direction).toBe('out')
+    expect(t.counterparty).toBe(ALICE)
+    expect(t.algoDelta).toBe(-5_001_000n)
+  })
+
+  it('should mark payments received by the account as incoming from the sender without charging the fee', () => {
+    const t = toTxn(txn({ id: 'B', sender: ALICE, paymentTransaction: { amount: 2_000_000n, receiver: ME } as never }), 0, ME, noDecimals)
+    expect(t.direction).toBe('in')
+    expect(t.counterparty).toBe(ALICE)
+    expect(t.algoDelta).toBe(2_000_000n)
+  })
+
+  it('should credit close-out remainders to the close-to account', () => {
+    const raw = txn({
+      sender: ALICE,
+      paymentTransaction: { amount: 0n, receiver: BOB, closeRemainderTo: ME, closeAmount: 750_000n } as never,
+    })
+    const t = toTxn(raw, 0, ME, noDecimals)
+    expect(t.direction).toBe('in')
+    expect(t.closeTo).toBe(ME)
+    expect(t.algoDelta).toBe(750_000n)
+    expect(accountDeltas(raw, ALICE).algo).toBe(-751_000n)
+  })
+
+  it('should treat the clawback target as the asset sender', () => {
+    const raw = txn({
+      sender: ALICE,
+      assetTransferTransaction: { assetId: 7n, amount: 100n, receiver: BOB, sender: ME } as never,
+    })
+    const t = toTxn(raw, 0, ME, () => 2)
+    expect(t.direction).toBe('out')
+    expect(t.counterparty).toBe(BOB)
+    expect(t.assetDelta).toBe(-100n)
+    expect(t.algoDelta).toBe(0n)
+    expect(t.decimals).toBe(2)
+  })
+
+  it('should report asset transfers to self as self with no net change', () => {
+    const t = toTxn(txn({ assetTransferTransaction: { assetId: 7n, amount: 0n, receiver: ME } as never }), 0, ME, noDecimals)
+    expect(t.direction).toBe('self')
+    expect(t.assetDelta).toBe(0n)
+    expect(t.algoDelta).toBe(-1000n)
+  })
+
+  it('should include inner transactions in the net effect', () => {
+    const raw = txn({
+      txType: 'appl',
+      innerTxns: [txn({ sender: 'APP', fee: 0n, paymentTransaction: { amount: 300n, receiver: ME } as never })],
+    })
+    const t = toTxn(raw, 3, ME, noDecimals)
+    expect(t.type).toBe('APPL')
+    expect(t.direction).toBe('out')
+    expect(t.algoDelta).toBe(-700n)
+  })
+})
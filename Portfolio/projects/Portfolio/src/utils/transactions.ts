@@ -0,0 +1,179 @@
+import type { indexerModels } from 'algosdk'
+import { Txn, TxnFilters, TxnFlow } from '../interfaces/portfolio'
+
+export const TX_TYPES: { value: string; label: string }[] = [
+  { value: 'pay', label: 'Payment' },
+  { value: 'axfer', label: 'Asset transfer' },
+  { value: 'acfg', label: 'Asset config' },
+  { value: 'afrz', label: 'Asset freeze' },
+  { value: 'appl', label: 'Application call' },
+  { value: 'keyreg', label: 'Key registration' },
+]
+
+export const EMPTY_TXN_FILTERS: TxnFilters = {
+  txType: '',
+  assetId: '',
+  direction: 'all',
+  counterparty: '',
+  minRound: '',
+  maxRound: '',
+  afterDate: '',
+  beforeDate: '',
+}
+
+export interface AccountDeltas {
+  /** Signed change in microAlgo */
+  algo: bigint
+  /** Signed change per ASA id, in base units */
+  assets: Map<number, bigint>
+}
+
+/** Creator and supply of destroyed assets, by id; destroy transactions carry neither. */
+export type DestroyedAssets = ReadonlyMap<number, { creator: string; total: bigint }>
+
+/** Asset config transactions without params destroy the asset */
+const destroyedAssetId = (t: indexerModels.Transaction): number | undefined =>
+  t.assetConfigTransaction?.assetId && !t.assetConfigTransaction.params ? Number(t.assetConfigTransaction.assetId) : undefined
+
+/** Ids of the assets destroyed by `transactions` or their inner transactions. */
+export function destroyedAssetIds(transactions: indexerModels.Transaction[]): number[] {
+  const ids = transactions.flatMap((t) => {
+    const id = destroyedAssetId(t)
+    return [...(id != null ? [id] : []), ...destroyedAssetIds(t.innerTxns ?? [])]
+  })
+  return [...new Set(ids)]
+}
+
+/**
+ * Computes how a confirmed transaction (including its inner transactions) changed the balances of `address`:
+ * amounts sent and received, close-out remainders, asset creation and destruction, rewards and fees paid.
+ * Destroying an asset removes its supply from the creator, which only counts when `destroyed` has the asset.
+ */
+export function accountDeltas(
+  t: indexerModels.Transaction,
+  address: string,
+  deltas?: AccountDeltas,
+  destroyed?: DestroyedAssets,
+): AccountDeltas {
+  const result = deltas ?? { algo: 0n, assets: new Map<number, bigint>() }
+  const addAsset = (assetId: number, value: bigint) => result.assets.set(assetId, (result.assets.get(assetId) ?? 0n) + value)
+
+  if (t.sender === address) result.algo -= t.fee - (t.senderRewards ?? 0n)
+
+  const pay = t.paymentTransaction
+  if (pay) {
+    const closeAmount = pay.closeAmount ?? t.closingAmount ?? 0n
+    if (t.sender === address) result.algo -= pay.amount + closeAmount
+    if (pay.receiver === address) result.algo += pay.amount + (t.receiverRewards ?? 0n)
+    if (pay.closeRemainderTo === address) result.algo += closeAmount + (t.closeRewards ?? 0n)
+  }
+
+  const axfer = t.assetTransferTransaction
+  if (axfer) {
+    const assetId = Number(axfer.assetId)
+    const closeAmount = axfer.closeAmount ?? 0n
+    // For clawbacks the asset leaves the clawback target, not the transaction sender
+    if ((axfer.sender ?? t.sender) === address) addAsset(assetId, -(axfer.amount + closeAmount))
+    if (axfer.receiver === address) addAsset(assetId, axfer.amount)
+    if (axfer.closeTo === address) addAsset(assetId, closeAmount)
+  }
+
+  // A new asset's whole supply starts in the creator account, and must all be back there when it is destroyed
+  const acfg = t.assetConfigTransaction
+  if (acfg?.params && t.createdAssetIndex != null && t.sender === address) addAsset(Number(t.createdAssetIndex), acfg.params.total)
+  const destroyedId = destroyedAssetId(t)
+  const destroyedAsset = destroyedId != null ? destroyed?.get(destroyedId) : undefined
+  if (destroyedId != null && destroyedAsset?.creator === address) addAsset(destroyedId, -destroyedAsset.total)
+
+  t.innerTxns?.forEach((inner) => accountDeltas(inner, address, result, destroyed))
+  return result
+}
+
+function flowOf(sends: boolean, receives: boolean): TxnFlow {
+  if (sends && receives) return 'self'
+  if (sends) return 'out'
+  if (receives) return 'in'
+  return 'other'
+}
+
+/**
+ * Normalises an indexer transaction for the history table relative to `address`;
+ * `decimalsFor` resolves ASA decimals when known.
+ */
+export function toTxn(
+  t: indexerModels.Transaction,
+  index: number,
+  address: string,
+  decimalsFor: (assetId: number) => number | undefined,
+): Txn {
+  const round = t.confirmedRound != null ? Number(t.confirmedRound) : undefined
+  // Tx ID may be missing on inner txns; add index/round for React key safety
+  const id = t.id ?? `${t.group ? Buffer.from(t.group).toString('base64') : 'grp'}-${round ?? 0}-${index}`
+  const deltas = accountDeltas(t, address)
+  const base = { id, round, timestamp: t.roundTime, sender: t.sender, fee: t.fee, algoDelta: deltas.algo, raw: t }
+
+  const pay = t.paymentTransaction
+  if (pay) {
+    const direction = flowOf(t.sender === address, pay.receiver === address || pay.closeRemainderTo === address)
+    return {
+      ...base,
+      type: 'ALGO',
+      amount: pay.amount,
+      decimals: 6,
+      receiver: pay.receiver,
+      closeTo: pay.closeRemainderTo,
+      direction,
+      counterparty: direction === 'in' ? t.sender : direction === 'self' ? address : pay.receiver,
+    }
+  }
+
+  const axfer = t.assetTransferTransaction
+  if (axfer) {
+    const assetId = Number(axfer.assetId)
+    const assetSender = axfer.sender ?? t.sender
+    const direction = flowOf(assetSender === address, axfer.receiver === address || axfer.closeTo === address)
+    return {
+      ...base,
+      type: 'ASA',
+      assetId,
+      amount: axfer.amount,
+      decimals: decimalsFor(assetId) ?? 0,
+      receiver: axfer.receiver,
+      closeTo: axfer.closeTo,
+      assetSender: axfer.sender,
+      direction,
+      counterparty: direction === 'in' ? assetSender : direction === 'self' ? address : axfer.receiver,
+      assetDelta: deltas.assets.get(assetId) ?? 0n,
+    }
+  }
+
+  return {
+    ...base,
+    type: t.txType ? t.txType.toUpperCase() : 'Unknown',
+    direction: t.sender === address ? 'out' : 'other',
+    counterparty: t.sender === address ? undefined : t.sender,
+  }
+}
+
+/**
+ * Amount shown for a transaction from `address`'s point of view: the signed change of the transferred asset
+ * (including close-outs, excluding the fee) for incoming and outgoing transfers, the plain amount otherwise.
+ */
+export function displayAmount(t: Txn, address: string): bigint | undefined {
+  if (t.amount == null) return undefined
+  if (t.direction === 'other' || t.direction === 'self') return t.amount
+  return t.assetId != null ? (t.assetDelta ?? 0n) : t.algoDelta + (t.sender === address ? t.fee : 0n)
+}
+
+/** Addresses on the other side of a transaction from `address` (receiver, close-to or sender). */
+export function counterparties(t: indexerModels.Transaction, address: string): string[] {
+  const parties = [
+    t.sender,
+    t.paymentTransaction?.receiver,
+    t.paymentTransaction?.closeRemainderTo,
+    t.assetTransferTransaction?.receiver,
+    t.assetTransferTransaction?.closeTo,
+    t.assetTransferTransaction?.sender,
+  ]
+  return [...new Set(parties.filter((p): p is string => !!p && p !== address))]
+}
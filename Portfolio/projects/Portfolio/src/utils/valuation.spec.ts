@@ -0,0 +1,50 @@
+import { formatShare, unitValue, valuePortfolio } from './valuation'
+
+describe('unitValue', () => {
+  it('should price whole units using the asset decimals', () => {
+    expect(unitValue(1_500_000n, 6, 2)).toBe(3)
+    expect(unitValue(12n, 0, 0.5)).toBe(6)
+  })
+})
+
+describe('valuePortfolio', () => {
+  const holdings = [
+    { assetId: 1, amount: 250n, decimals: 2 },
+    { assetId: 2, amount: 10n, decimals: 0 },
+    { assetId: 3, amount: 0n, decimals: 0 },
+  ]
+
+  it('should total priced holdings and compute shares', () => {
+    const result = valuePortfolio(
+      5_000_000n,
+      holdings,
+      new Map([
+        [0, 1],
+        [1, 2],
+      ]),
+    )
+    expect(result.total).toBe(10)
+    expect(result.algo).toEqual({ value: 5, share: 0.5 })
+    expect(result.assets.get(1)).toEqual({ value: 5, share: 0.5 })
+  })
+
+  it('should count holdings without a price but not empty ones', () => {
+    const result = valuePortfolio(5_000_000n, holdings, new Map([[0, 1]]))
+    expect(result.assets.get(2)).toEqual({})
+    expect(result.unpriced).toBe(2)
+    expect(result.total).toBe(5)
+  })
+
+  it('should leave shares out when nothing is priced', () => {
+    const result = valuePortfolio(5_000_000n, holdings, new Map())
+    expect(result.algo).toEqual({ value: undefined })
+    expect(result.total).toBe(0)
+  })
+})
+
+describe('formatShare', () => {
+  it('should keep small shares visible', () => {
+    expect(formatShare(0.5)).toBe('50.0%')
+    expect(formatShare(0.0001)).toBe('0.01%')
+  })
+})
@@ -0,0 +1,55 @@
+import { AssetHolding } from '../interfaces/portfolio'
+import { formatBaseUnits } from './amounts'
+
+export interface HoldingValue {
+  /** Fiat value, or undefined when the asset has no price */
+  value?: number
+  /** Fraction (0-1) of the priced portfolio total */
+  share?: number
+}
+
+export interface PortfolioValuation {
+  algo: HoldingValue
+  /** Keyed by asset id */
+  assets: Map<number, HoldingValue>
+  total: number
+  /** Holdings with a balance but no price; they are left out of the total */
+  unpriced: number
+}
+
+/** Value of `amount` base units at `price` per whole unit. Goes through the decimal string to avoid bigint overflow. */
+export function unitValue(amount: bigint, decimals: number, price: number): number {
+  return Number(formatBaseUnits(amount, decimals, false)) * price
+}
+
+/** Values ALGO and each holding with `prices` (per whole unit, asset id 0 for ALGO) and computes each one's share. */
+export function valuePortfolio(algoAmount: bigint, holdings: AssetHolding[], prices: Map<number, number>): PortfolioValuation {
+  const algoPrice = prices.get(0)
+  const algo: HoldingValue = { value: algoPrice != null ? unitValue(algoAmount, 6, algoPrice) : undefined }
+
+  let unpriced = 0
+  const assets = new Map<number, HoldingValue>()
+  holdings.forEach((h) => {
+    const price = prices.get(h.assetId)
+    if (price == null || h.decimals == null) {
+      if (h.amount > 0n) unpriced++
+      assets.set(h.assetId, {})
+    } else {
+      assets.set(h.assetId, { value: unitValue(h.amount, h.decimals, price) })
+    }
+  })
+
+  const total = [algo, ...assets.values()].reduce((sum, v) => sum + (v.value ?? 0), 0)
+  const withShare = (v: HoldingValue): HoldingValue => (v.value != null && total > 0 ? { ...v, share: v.value / total } : v)
+  assets.forEach((v, id) => assets.set(id, withShare(v)))
+
+  return { algo: withShare(algo), assets, total, unpriced }
+}
+
+export function formatFiat(value: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase(), maximumFractionDigits: 2 }).format(value)
+}
+
+export function formatShare(share: number): string {
+  return `${(share * 100).toFixed(share < 0.001 ? 2 : 1)}%`
+}
@@ -0,0 +1,44 @@
+import algosdk from 'algosdk'
+import type { PortfolioSnapshot } from '../services/algorandData'
+import { aggregatePortfolios, validateWatchedAccount } from './watchList'
+
+const A = algosdk.generateAccount().addr.toString()
+const B = algosdk.generateAccount().addr.toString()
+
+describe('validateWatchedAccount', () => {
+  it('should require a valid, new address and a label', () => {
+    expect(validateWatchedAccount({ address: 'nope', label: 'x' }, [])).toMatch(/valid/)
+    expect(validateWatchedAccount({ address: A, label: 'x' }, [{ address: A, label: 'y' }])).toMatch(/already watched/)
+    expect(validateWatchedAccount({ address: A, label: 'x' }, [], [A])).toMatch(/connected wallet/)
+    expect(validateWatchedAccount({ address: A, label: ' ' }, [])).toMatch(/label/)
+    expect(validateWatchedAccount({ address: ` ${A} `, label: 'Treasury' }, [])).toBeNull()
+  })
+})
+
+describe('aggregatePortfolios', () => {
+  const snapshot = (amount: bigint, holdings: PortfolioSnapshot['holdings']) =>
+    ({ account: { amount }, holdings, managedAssets: [] }) as unknown as PortfolioSnapshot
+
+  it('should sum ALGO and holdings with a per-account breakdown', () => {
+    const result = aggregatePortfolios([
+      { address: A, label: 'a', snapshot: snapshot(1_000_000n, [{ assetId: 7, amount: 5n, decimals: 0 }]) },
+      {
+        address: B,
+        label: 'b',
+        snapshot: snapshot(2_000_000n, [
+          { assetId: 9, amount: 1n },
+          { assetId: 7, amount: 3n, decimals: 0 },
+        ]),
+      },
+    ])
+    expect(result.algo).toBe(3_000_000n)
+    expect(result.holdings.map((h) => [h.assetId, h.amount])).toEqual([
+      [7, 8n],
+      [9, 1n],
+    ])
+    expect(result.holdings[0].byAccount).toEqual([
+      { address: A, amount: 5n },
+      { address: B, amount: 3n },
+    ])
+  })
+})
@@ -0,0 +1,59 @@
+import algosdk from 'algosdk'
+import { AssetHolding, WatchedAccount } from '../interfaces/portfolio'
+import type { PortfolioSnapshot } from '../services/algorandData'
+import { readJson, storageKey, writeJson } from './storage'
+
+const WATCH_LIST_KEY = storageKey('watch-list')
+export const MAX_WATCH_LABEL_LENGTH = 32
+
+export function loadWatchList(): WatchedAccount[] {
+  return readJson<WatchedAccount[]>(WATCH_LIST_KEY, [])
+}
+
+export function saveWatchList(accounts: WatchedAccount[]): void {
+  writeJson(WATCH_LIST_KEY, accounts)
+}
+
+/** Returns an error message, or null when the address can be added to the watch list. */
+export function validateWatchedAccount(account: WatchedAccount, watched: WatchedAccount[], connected: string[] = []): string | null {
+  const address = account.address.trim()
+  if (!algosdk.isValidAddress(address)) return 'Enter a valid Algorand address'
+  if (watched.some((w) => w.address === address)) return 'This address is already watched'
+  if (connected.includes(address)) return 'This address belongs to a connected wallet'
+  if (!account.label.trim()) return 'Give the address a label'
+  if (account.label.trim().length > MAX_WATCH_LABEL_LENGTH) return `Labels are at most ${MAX_WATCH_LABEL_LENGTH} characters`
+  return null
+}
+
+export interface AccountPortfolio {
+  address: string
+  label: string
+  snapshot: PortfolioSnapshot
+}
+
+/** A holding summed over several accounts, with what each account holds */
+export interface AggregatedHolding extends AssetHolding {
+  byAccount: { address: string; amount: bigint }[]
+}
+
+export interface AggregatedPortfolio {
+  algo: bigint
+  holdings: AggregatedHolding[]
+}
+
+/** Sums ALGO and ASA balances across accounts; holdings are ordered by asset id. */
+export function aggregatePortfolios(portfolios: AccountPortfolio[]): AggregatedPortfolio {
+  const holdings = new Map<number, AggregatedHolding>()
+  portfolios.forEach(({ address, snapshot }) =>
+    snapshot.holdings.forEach((h) => {
+      const entry = holdings.get(h.assetId) ?? { ...h, amount: 0n, isFrozen: undefined, byAccount: [] }
+      entry.amount += h.amount
+      entry.byAccount.push({ address, amount: h.amount })
+      holdings.set(h.assetId, entry)
+    }),
+  )
+  return {
+    algo: portfolios.reduce((sum, p) => sum + p.snapshot.account.amount, 0n),
+    holdings: [...holdings.values()].sort((a, b) => a.assetId - b.assetId),
+  }
+}